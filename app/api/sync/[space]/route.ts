@@ -0,0 +1,66 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { pullChanges, pushChanges } from '@/lib/syncStore';
+import { isValidChange, PUSH_BATCH_SIZE, SPACE_PATTERN } from '@/lib/syncProtocol';
+
+// GET  /api/sync/<space>?since=<checkpoint>  changes after the checkpoint
+// POST /api/sync/<space>  { since, changes } push local changes
+//
+// Set SYNC_TOKEN to require `Authorization: Bearer <token>` on every request.
+
+export const dynamic = 'force-dynamic';
+
+interface Context {
+  params: { space: string };
+}
+
+// Compares hashes so the time taken says nothing about the token
+function matchesToken(header: string | null, token: string) {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header ?? ''), digest(`Bearer ${token}`));
+}
+
+function rejectRequest(request: Request, space: string) {
+  const token = process.env.SYNC_TOKEN;
+  if (token && !matchesToken(request.headers.get('authorization'), token)) {
+    return NextResponse.json({ error: 'Missing or wrong sync token' }, { status: 401 });
+  }
+  if (!SPACE_PATTERN.test(space)) {
+    return NextResponse.json({ error: 'Invalid sync code' }, { status: 400 });
+  }
+  return null;
+}
+
+export async function GET(request: Request, { params }: Context) {
+  const rejected = rejectRequest(request, params.space);
+  if (rejected) return rejected;
+
+  const since = parseInt(new URL(request.url).searchParams.get('since') || '0');
+  return NextResponse.json(await pullChanges(params.space, Number.isNaN(since) ? 0 : Math.max(0, since)));
+}
+
+export async function POST(request: Request, { params }: Context) {
+  const rejected = rejectRequest(request, params.space);
+  if (rejected) return rejected;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Body is not valid JSON' }, { status: 400 });
+  }
+  const fields: Record<string, unknown> = typeof body === 'object' && body !== null ? { ...body } : {};
+  const { changes, since } = fields;
+  if (typeof since !== 'number' || !Number.isInteger(since) || since < 0) {
+    return NextResponse.json({ error: 'Send the checkpoint as `since`' }, { status: 400 });
+  }
+  if (!Array.isArray(changes) || changes.length > PUSH_BATCH_SIZE) {
+    return NextResponse.json({ error: `Send between 0 and ${PUSH_BATCH_SIZE} changes` }, { status: 400 });
+  }
+  const invalid = changes.findIndex(change => !isValidChange(change));
+  if (invalid >= 0) {
+    return NextResponse.json({ error: `Change ${invalid + 1} is invalid` }, { status: 400 });
+  }
+
+  return NextResponse.json(await pushChanges(params.space, changes.filter(isValidChange), since));
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ClipboardCheck, Coffee, Dumbbell, CheckCircle } from 'lucide-react';
+import { checkIn, dailyInputs, getDailyLog, getDailyLogs, toDateKey, type DailyLog } from '@/lib/storage';
+import { format, parseISO, subDays } from 'date-fns';
+
+const HISTORY_DAYS = 14;
+
+export default function CheckInPage() {
+  const today = toDateKey(new Date());
+  const [date, setDate] = useState(today);
+  const [formData, setFormData] = useState<DailyLog | null>(null);
+  const [exists, setExists] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [history, setHistory] = useState<DailyLog[]>([]);
+
+  useEffect(() => {
+    const loadDay = async () => {
+      setExists(!!(await getDailyLog(date))?.checkedInAt);
+      setFormData(await dailyInputs(date));
+      setSaved(false);
+    };
+
+    loadDay();
+  }, [date]);
+
+  useEffect(() => {
+    getDailyLogs(toDateKey(subDays(new Date(), HISTORY_DAYS - 1))).then(setHistory);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    const stored = await checkIn(formData);
+    setFormData(stored);
+    setExists(true);
+    setSaved(true);
+    setHistory([...history.filter(log => log.date !== stored.date), stored]);
+  };
+
+  const days = Array.from({ length: HISTORY_DAYS }, (_, i) => toDateKey(subDays(new Date(), i)));
+  const logsByDate = new Map(history.filter(log => log.checkedInAt).map(log => [log.date, log]));
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <ClipboardCheck className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Daily Check-in</h1>
+          </div>
+          <p className="text-gray-600">
+            Record how a day went. Predictions for a day use its check-in; logging meals and workouts keeps it up to date.
+          </p>
+        </div>
+
+        {/* Check-in Form */}
+        <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Date
+                </label>
+                <input
+                  type="date"
+                  value={date}
+                  max={today}
+                  onChange={(e) => e.target.value && setDate(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div className="flex items-end text-sm text-gray-600 pb-2">
+                {exists
+                  ? `Checked in ${formData?.checkedInAt ? format(new Date(formData.checkedInAt), 'PPP p') : ''}`
+                  : 'No check-in for this date yet'}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Sleep (hours)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="12"
+                  step="0.5"
+                  value={formData?.sleep ?? ''}
+                  onChange={(e) => formData && setFormData({ ...formData, sleep: parseFloat(e.target.value) })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Stress Level (1-10)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="10"
+                  value={formData?.stress ?? ''}
+                  onChange={(e) => formData && setFormData({ ...formData, stress: parseInt(e.target.value) })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="caffeine"
+                  checked={formData?.caffeine ?? false}
+                  onChange={(e) => formData && setFormData({ ...formData, caffeine: e.target.checked })}
+                  className="w-5 h-5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="caffeine" className="ml-3 flex items-center text-sm font-medium text-gray-700">
+                  <Coffee className="w-4 h-4 mr-1" />
+                  Had caffeine
+                </label>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="exercise"
+                  checked={formData?.exercise ?? false}
+                  onChange={(e) => formData && setFormData({ ...formData, exercise: e.target.checked })}
+                  className="w-5 h-5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                />
+                <label htmlFor="exercise" className="ml-3 flex items-center text-sm font-medium text-gray-700">
+                  <Dumbbell className="w-4 h-4 mr-1" />
+                  Exercised
+                </label>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <button
+                type="submit"
+                disabled={!formData}
+                className="bg-primary-600 text-white px-8 py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+              >
+                Save Check-in
+              </button>
+              {saved && (
+                <span className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle className="w-4 h-4" />
+                  Saved
+                </span>
+              )}
+            </div>
+          </form>
+        </div>
+
+        {/* Recent Days */}
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">Last {HISTORY_DAYS} Days</h2>
+          <div className="space-y-2">
+            {days.map(day => {
+              const log = logsByDate.get(day);
+              return (
+                <button
+                  key={day}
+                  onClick={() => setDate(day)}
+                  className={`w-full flex items-center justify-between px-4 py-3 rounded-lg text-left transition-colors ${
+                    day === date ? 'bg-primary-50 border border-primary-200' : 'bg-gray-50 hover:bg-gray-100'
+                  }`}
+                >
+                  <span className="font-medium text-gray-900">
+                    {day === today ? 'Today' : format(parseISO(day), 'EEE, MMM d')}
+                  </span>
+                  {log ? (
+                    <span className="flex items-center gap-4 text-sm text-gray-600">
+                      <span>{log.sleep}h sleep</span>
+                      <span>stress {log.stress}/10</span>
+                      {log.caffeine && <Coffee className="w-4 h-4" />}
+                      {log.exercise && <Dumbbell className="w-4 h-4" />}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-gray-400">No check-in</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
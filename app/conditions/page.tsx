@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Stethoscope, Plus, Trash2 } from 'lucide-react';
+import SymptomInput from '@/components/SymptomInput';
+import { getConditions, saveCondition, deleteCondition, getSymptomVocabulary } from '@/lib/storage';
+import { builtinConditions, conditionId, ruleFactors, type ConditionDefinition, type RiskRule, type RuleComparison, type RuleFactor } from '@/lib/conditions';
+import { builtinVocabulary, type SymptomVocabulary } from '@/lib/symptoms';
+
+const comparisons: RuleComparison[] = ['<', '<=', '>', '>=', '=='];
+
+interface RuleRow {
+  label: string;
+  factor: RuleFactor;
+  comparison: RuleComparison;
+  value: string;
+  points: string;
+}
+
+const emptyRule = (): RuleRow => ({ label: '', factor: 'stress', comparison: '>', value: '7', points: '20' });
+
+const emptyForm = () => ({
+  name: '',
+  color: '#3b82f6',
+  baseline: '20',
+  high: '55',
+  medium: '35',
+  symptoms: '',
+  rules: [emptyRule()],
+});
+
+function isBooleanFactor(factor: RuleFactor) {
+  return ruleFactors.find(f => f.factor === factor)?.kind === 'boolean';
+}
+
+function describeRule(rule: RiskRule) {
+  const tests = rule.when.map(({ factor, comparison, value }) => {
+    const label = ruleFactors.find(f => f.factor === factor)?.label ?? factor;
+    return typeof value === 'boolean' ? `${value ? '' : 'no '}${label.toLowerCase()}` : `${label} ${comparison} ${value}`;
+  });
+  return `${tests.join(' and ')}: ${rule.points > 0 ? '+' : ''}${rule.points}%`;
+}
+
+export default function ConditionsPage() {
+  const [conditions, setConditions] = useState<ConditionDefinition[]>(builtinConditions);
+  const [vocabulary, setVocabulary] = useState<SymptomVocabulary>(builtinVocabulary);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    getConditions().then(setConditions);
+    getSymptomVocabulary().then(setVocabulary);
+  }, []);
+
+  const updateRule = (index: number, changes: Partial<RuleRow>) => {
+    setFormData({
+      ...formData,
+      rules: formData.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const changeFactor = (index: number, factor: RuleFactor) => {
+    updateRule(index, isBooleanFactor(factor) ? { factor, comparison: '==', value: 'true' } : { factor, comparison: '>', value: '5' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rules: RiskRule[] = formData.rules.map(row => {
+      const when = [{ factor: row.factor, comparison: row.comparison, value: isBooleanFactor(row.factor) ? row.value === 'true' : parseFloat(row.value) }];
+      const points = parseFloat(row.points) || 0;
+      return { label: row.label.trim() || describeRule({ label: '', when, points }), when, points };
+    });
+
+    await saveCondition({
+      id: conditionId(formData.name, conditions),
+      name: formData.name.trim(),
+      color: formData.color,
+      baseline: parseFloat(formData.baseline) || 0,
+      thresholds: { high: parseFloat(formData.high) || 0, medium: parseFloat(formData.medium) || 0 },
+      rules,
+      symptoms: formData.symptoms.split(',').map(s => vocabulary.normalize(s)).filter(s => s),
+      builtin: false,
+    });
+
+    setConditions(await getConditions());
+    setShowForm(false);
+    setFormData(emptyForm());
+  };
+
+  const handleDelete = async (condition: ConditionDefinition) => {
+    if (!confirm(`Stop tracking ${condition.name}? Remedies and entries that mention it are kept.`)) return;
+    await deleteCondition(condition.id);
+    setConditions(await getConditions());
+  };
+
+  const nameTaken = conditions.some(c => c.name.toLowerCase() === formData.name.trim().toLowerCase());
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Stethoscope className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Conditions</h1>
+          </div>
+          <p className="text-gray-600">
+            The conditions you track. Each one gets a daily risk prediction, can be linked to remedies and appears in every chart.
+          </p>
+        </div>
+
+        <button
+          onClick={() => setShowForm(true)}
+          className="mb-8 flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          Add Condition
+        </button>
+
+        {showForm && (
+          <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">New Condition</h2>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="e.g., Eczema, Anxiety, Joint Pain"
+                    required
+                  />
+                  {nameTaken && <p className="mt-1 text-sm text-red-600">A condition with this name already exists.</p>}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Chart colour
+                  </label>
+                  <input
+                    type="color"
+                    value={formData.color}
+                    onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                    className="h-10 w-20 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Baseline risk (%)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.baseline}
+                    onChange={(e) => setFormData({ ...formData, baseline: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Medium risk above (%)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.medium}
+                    onChange={(e) => setFormData({ ...formData, medium: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    High risk above (%)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.high}
+                    onChange={(e) => setFormData({ ...formData, high: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Symptoms that count toward it (comma-separated)
+                </label>
+                <SymptomInput
+                  value={formData.symptoms}
+                  onChange={(symptoms) => setFormData({ ...formData, symptoms })}
+                  vocabulary={vocabulary}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  placeholder="e.g., rash, itching"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Risk rules
+                </label>
+                <div className="space-y-3">
+                  {formData.rules.map((rule, i) => (
+                    <div key={i} className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-gray-600">If</span>
+                      <select
+                        value={rule.factor}
+                        onChange={(e) => changeFactor(i, e.target.value as RuleFactor)}
+                        className="px-3 py-2 border border-gray-300 rounded-lg"
+                      >
+                        {ruleFactors.map(f => (
+                          <option key={f.factor} value={f.factor}>{f.label}</option>
+                        ))}
+                      </select>
+                      {isBooleanFactor(rule.factor) ? (
+                        <select
+                          value={rule.value}
+                          onChange={(e) => updateRule(i, { value: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg"
+                        >
+                          <option value="true">yes</option>
+                          <option value="false">no</option>
+                        </select>
+                      ) : (
+                        <>
+                          <select
+                            value={rule.comparison}
+                            onChange={(e) => updateRule(i, { comparison: e.target.value as RuleComparison })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg"
+                          >
+                            {comparisons.map(c => (
+                              <option key={c} value={c}>{c}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            value={rule.value}
+                            onChange={(e) => updateRule(i, { value: e.target.value })}
+                            className="w-20 px-3 py-2 border border-gray-300 rounded-lg"
+                            required
+                          />
+                        </>
+                      )}
+                      <span className="text-sm text-gray-600">add</span>
+                      <input
+                        type="number"
+                        value={rule.points}
+                        onChange={(e) => updateRule(i, { points: e.target.value })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg"
+                        required
+                      />
+                      <span className="text-sm text-gray-600">%</span>
+                      <input
+                        type="text"
+                        value={rule.label}
+                        onChange={(e) => updateRule(i, { label: e.target.value })}
+                        className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg"
+                        placeholder="Label (optional)"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, rules: formData.rules.filter((_, j) => j !== i) })}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        aria-label="Remove rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, rules: [...formData.rules, emptyRule()] })}
+                  className="mt-3 text-sm text-primary-600 hover:text-primary-700"
+                >
+                  + Add rule
+                </button>
+                <p className="mt-2 text-xs text-gray-500">Use negative values for protective factors.</p>
+              </div>
+
+              <div className="flex gap-4">
+                <button
+                  type="submit"
+                  disabled={nameTaken}
+                  className="flex-1 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+                >
+                  Save Condition
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {conditions.map(condition => (
+            <div key={condition.id} className="bg-white rounded-xl shadow-lg p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <span className="w-4 h-4 rounded-full" style={{ backgroundColor: condition.color }} />
+                  <h3 className="text-xl font-bold text-gray-900">{condition.name}</h3>
+                  {condition.builtin && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">Built-in</span>
+                  )}
+                </div>
+                {!condition.builtin && (
+                  <button
+                    onClick={() => handleDelete(condition)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${condition.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <p className="text-sm text-gray-600 mb-3">
+                Baseline {condition.baseline}% · medium above {condition.thresholds.medium}% · high above {condition.thresholds.high}%
+              </p>
+              {condition.symptoms.length > 0 && (
+                <p className="text-sm text-gray-600 mb-3">Symptoms: {condition.symptoms.join(', ')}</p>
+              )}
+              <ul className="space-y-1 text-sm text-gray-700">
+                {condition.rules.filter(rule => rule.points !== 0).map((rule, i) => (
+                  <li key={i}>
+                    • <strong>{rule.label}</strong>
+                    <span className="text-gray-500"> ({describeRule(rule)})</span>
+                  </li>
+                ))}
+              </ul>
+              <Link href={`/rules?condition=${condition.id}`} className="inline-block mt-4 text-sm text-primary-600 hover:text-primary-700">
+                Edit rules →
+              </Link>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Database, Download, Upload, AlertCircle, CheckCircle, KeyRound } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  applyRestore,
+  createBackup,
+  decryptBackup,
+  downloadBackup,
+  isEncryptedBackup,
+  parseBackup,
+  planRestore,
+  type BackupFile,
+  type RestoreMode,
+  type RestorePlan,
+} from '@/lib/backup';
+import { getActiveProfile } from '@/lib/profiles';
+import { ENCRYPTION_CHANGED_EVENT, getEncryptionSettings, getStorageStatus, type StorageStatus } from '@/lib/storage';
+import EncryptionSettings from '@/components/EncryptionSettings';
+import SyncSettings from '@/components/SyncSettings';
+
+const collectionLabels: Record<string, string> = {
+  nutrition: 'Nutrition entries',
+  exercise: 'Exercise entries',
+  remedies: 'Remedies',
+  sleep: 'Sleep records',
+  dailyLogs: 'Daily check-ins',
+  symptomSynonyms: 'Symptom synonyms',
+  conditions: 'Custom conditions',
+  ruleSets: 'Prediction rules',
+  remedyOutcomes: 'Remedy outcomes',
+  remedyUsages: 'Remedy uses',
+  suggestionDismissals: 'Dismissed suggestions',
+  doses: 'Doses taken and skipped',
+  experiments: 'Experiments',
+};
+
+export default function DataPage() {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [profile, setProfile] = useState('');
+  const [encrypted, setEncrypted] = useState(false);
+  const [plaintext, setPlaintext] = useState(false);
+  // An encrypted backup waiting for its passphrase
+  const [lockedFile, setLockedFile] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [status, setStatus] = useState<StorageStatus>({});
+
+  useEffect(() => {
+    const load = () => setEncrypted(getEncryptionSettings() !== null);
+    setProfile(getActiveProfile().name);
+    getStorageStatus().then(setStatus);
+    load();
+    window.addEventListener(ENCRYPTION_CHANGED_EVENT, load);
+    return () => window.removeEventListener(ENCRYPTION_CHANGED_EVENT, load);
+  }, []);
+
+  const handleExport = async () => {
+    downloadBackup(await createBackup(undefined, encrypted && plaintext));
+    setPlaintext(false);
+  };
+
+  const preview = async (file: BackupFile, restoreMode: RestoreMode) => {
+    setPlan(await planRestore(file, restoreMode));
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setMessage('');
+    setPlan(null);
+    setLockedFile('');
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const text = event.target?.result as string;
+        if (isEncryptedBackup(text)) {
+          setBackup(null);
+          setLockedFile(text);
+          return;
+        }
+        const parsed = parseBackup(text);
+        setBackup(parsed);
+        await preview(parsed, mode);
+      } catch (err) {
+        setBackup(null);
+        setError((err as Error).message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleDecrypt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const parsed = await decryptBackup(lockedFile, passphrase);
+      setBackup(parsed);
+      setLockedFile('');
+      setPassphrase('');
+      await preview(parsed, mode);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleModeChange = async (restoreMode: RestoreMode) => {
+    setMode(restoreMode);
+    if (backup) await preview(backup, restoreMode);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    try {
+      await applyRestore(backup, mode);
+      setMessage('Backup restored successfully.');
+      setBackup(null);
+      setPlan(null);
+    } catch (err) {
+      setError(`Restore failed, your existing data was kept: ${(err as Error).message}`);
+    }
+  };
+
+  const cancelRestore = () => {
+    setBackup(null);
+    setPlan(null);
+    setLockedFile('');
+    setPassphrase('');
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Database className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Data & Backup</h1>
+          </div>
+          <p className="text-gray-600">
+            Your data lives in this browser. Export a backup to keep it safe, or sync it with your other devices.
+          </p>
+        </div>
+
+        {status.fallbackReason && (
+          <div className="mb-8 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3 text-amber-800">
+            <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <span className="text-sm">
+              {status.fallbackReason}, so your data is kept in localStorage instead. It holds only a few megabytes, so
+              export a backup regularly.
+            </span>
+          </div>
+        )}
+
+        {status.migrationError && (
+          <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 text-red-700">
+            <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+            <span className="text-sm">
+              Your data could not be upgraded to this version of the app and was left as it was. The upgrade is tried
+              again the next time the app opens. {status.migrationError}
+            </span>
+          </div>
+        )}
+
+        <EncryptionSettings />
+        <SyncSettings />
+
+        {/* Export */}
+        <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Export Backup</h2>
+          <p className="text-gray-600 mb-6">
+            Downloads all of {profile ? `${profile}'s` : 'the'} nutrition, exercise, remedy, sleep and check-in history as a
+            single JSON file. Other profiles can be backed up from the Profiles page.
+            {encrypted && ' The file stays encrypted and can only be restored with your passphrase.'}
+          </p>
+          {encrypted && (
+            <label className="flex items-start gap-2 mb-6 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={plaintext}
+                onChange={(e) => setPlaintext(e.target.checked)}
+                className="mt-0.5 rounded"
+              />
+              <span>
+                Export without encryption.{' '}
+                <span className="text-red-600">Anyone who gets the file will be able to read your health history.</span>
+              </span>
+            </label>
+          )}
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            <Download className="w-5 h-5" />
+            Download Backup
+          </button>
+        </div>
+
+        {/* Restore */}
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Restore Backup</h2>
+          <p className="text-gray-600 mb-6">
+            Restores into {profile ? `${profile}'s` : 'the current'} profile. Nothing is written until you confirm the summary below.
+          </p>
+
+          <div className="flex items-center gap-4 mb-6">
+            <span className="text-sm font-medium text-gray-700">Mode:</span>
+            {(['merge', 'replace'] as RestoreMode[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => handleModeChange(option)}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  mode === option
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {option === 'merge' ? 'Merge with existing' : 'Replace everything'}
+              </button>
+            ))}
+          </div>
+
+          <label className="inline-flex items-center gap-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+            <Upload className="w-5 h-5" />
+            Choose Backup File
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+
+          {lockedFile && (
+            <form onSubmit={handleDecrypt} className="mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                <KeyRound className="w-4 h-4" />
+                This backup is encrypted. Enter the passphrase it was made with.
+              </label>
+              <div className="flex gap-3">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  autoComplete="off"
+                  required
+                />
+                <button type="submit" className="bg-primary-600 text-white px-6 py-2 rounded-lg hover:bg-primary-700 transition-colors">
+                  Decrypt
+                </button>
+                <button type="button" onClick={cancelRestore} className="text-sm text-gray-500 hover:text-gray-700">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {error && (
+            <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 text-red-700">
+              <AlertCircle className="w-5 h-5 mt-0.5" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          {message && (
+            <div className="mt-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-start gap-3 text-green-700">
+              <CheckCircle className="w-5 h-5 mt-0.5" />
+              <span className="text-sm">{message}</span>
+            </div>
+          )}
+
+          {plan && (
+            <div className="mt-6">
+              <h3 className="font-semibold text-gray-900 mb-1">
+                {plan.mode === 'merge' ? 'Merge' : 'Replace'} summary
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                {backup?.profile && `From ${backup.profile}'s profile. `}
+                {plan.exportedAt && `Exported ${format(new Date(plan.exportedAt), 'PPP p')}, `}
+                schema version {plan.backupVersion}
+              </p>
+              {plan.upgrades.length > 0 && (
+                <div className="mb-4 text-sm text-gray-600">
+                  <p className="mb-1">The backup is upgraded to this version of the app before it is restored:</p>
+                  <ul className="list-disc list-inside">
+                    {plan.upgrades.map(step => (
+                      <li key={step.version}>
+                        {step.description} ({step.changed} {step.changed === 1 ? 'record' : 'records'} changed)
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <table className="w-full text-sm mb-6">
+                <thead>
+                  <tr className="text-left text-gray-700 border-b border-gray-200">
+                    <th className="py-2">Collection</th>
+                    <th className="py-2">New</th>
+                    <th className="py-2">Updated</th>
+                    <th className="py-2">Unchanged</th>
+                    <th className="py-2">Removed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(plan.collections).map(([name, summary]) => (
+                    <tr key={name} className="border-b border-gray-100 text-gray-600">
+                      <td className="py-2 font-medium text-gray-900">{collectionLabels[name] ?? name}</td>
+                      <td className="py-2">{summary.added}</td>
+                      <td className="py-2">{summary.updated}</td>
+                      <td className="py-2">{summary.unchanged}</td>
+                      <td className={`py-2 ${summary.removed > 0 ? 'text-red-600 font-medium' : ''}`}>
+                        {summary.removed}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex gap-4">
+                <button
+                  onClick={handleRestore}
+                  className="flex-1 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={cancelRestore}
+                  className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,32 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Plus, Activity, Upload } from 'lucide-react';
-import { saveExerciseEntry, getExerciseEntries, type ExerciseEntry } from '@/lib/storage';
+import { Plus, Activity, Upload, Pencil, Trash2, Watch } from 'lucide-react';
+import ImportWizard from '@/components/ImportWizard';
+import AppleHealthImport from '@/components/AppleHealthImport';
+import ExerciseFilters from '@/components/ExerciseFilters';
+import Pagination from '@/components/Pagination';
+import type { AppleHealthResult } from '@/lib/appleHealth';
+import {
+  saveExerciseEntry,
+  saveExerciseEntries,
+  saveSleepRecords,
+  getExerciseEntries,
+  updateExerciseEntry,
+  deleteExerciseEntry,
+  type ExerciseEntry,
+} from '@/lib/storage';
+import {
+  emptyExerciseQuery,
+  exerciseQueryOptions,
+  isFiltered,
+  paginate,
+  queryExercise,
+  queryFromParams,
+  syncQueryToUrl,
+  type ExerciseQuery,
+  type QueryPage,
+} from '@/lib/query';
 import { format } from 'date-fns';
 
 export default function ExercisePage() {
@@ -15,12 +39,48 @@ export default function ExercisePage() {
     recovery: 5,
     notes: '',
   });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState(formData);
+  const [showImport, setShowImport] = useState(false);
+  const [showAppleHealth, setShowAppleHealth] = useState(false);
+  const [query, setQuery] = useState<ExerciseQuery>(emptyExerciseQuery);
+  const [page, setPage] = useState(1);
+  const [results, setResults] = useState<QueryPage<ExerciseEntry>>(paginate([], 1));
+  // Set once the filters have been read from the URL
+  const [ready, setReady] = useState(false);
 
   useEffect(() => {
-    setEntries(getExerciseEntries());
+    getExerciseEntries().then(setEntries);
+
+    const initial = queryFromParams(new URLSearchParams(window.location.search), emptyExerciseQuery, exerciseQueryOptions);
+    setQuery(initial.query);
+    setPage(initial.page);
+    setReady(true);
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+    syncQueryToUrl(query, page);
+    queryExercise(query, page).then(next => {
+      if (!cancelled) setResults(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, page, ready]);
+
+  const refresh = async () => {
+    setEntries(await getExerciseEntries());
+    setResults(await queryExercise(query, page));
+  };
+
+  const changeQuery = (next: ExerciseQuery) => {
+    setQuery(next);
+    setPage(1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     const entry: ExerciseEntry = {
@@ -29,10 +89,9 @@ export default function ExercisePage() {
       ...formData,
     };
 
-    saveExerciseEntry(entry);
-    localStorage.setItem('todayExercise', 'true');
+    await saveExerciseEntry(entry);
     
-    setEntries([...entries, entry]);
+    await refresh();
     setShowForm(false);
     setFormData({
       type: '',
@@ -43,41 +102,42 @@ export default function ExercisePage() {
     });
   };
 
-  const handleCSVImport = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleAppleHealthImport = async ({ workouts, sleep }: AppleHealthResult) => {
+    await saveExerciseEntries(workouts);
+    await saveSleepRecords(sleep);
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      // Simple CSV parsing - in production, use a proper CSV library
-      const lines = text.split('\n');
-      const headers = lines[0].split(',');
-      
-      // Expecting format: date, type, duration, intensity
-      const newEntries: ExerciseEntry[] = [];
-      
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(',');
-        if (values.length >= 4) {
-          newEntries.push({
-            id: `import-${Date.now()}-${i}`,
-            date: values[0].trim(),
-            type: values[1].trim(),
-            duration: parseInt(values[2].trim()) || 30,
-            intensity: (values[3].trim() as 'low' | 'medium' | 'high') || 'medium',
-            recovery: 5,
-            notes: 'Imported from CSV',
-          });
-        }
-      }
+    await refresh();
+  };
 
-      newEntries.forEach(saveExerciseEntry);
-      setEntries([...entries, ...newEntries]);
-      alert(`Successfully imported ${newEntries.length} exercise entries!`);
-    };
+  const startEdit = (entry: ExerciseEntry) => {
+    setEditingId(entry.id);
+    setEditData({
+      type: entry.type,
+      duration: entry.duration,
+      intensity: entry.intensity,
+      recovery: entry.recovery,
+      notes: entry.notes,
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent, entry: ExerciseEntry) => {
+    e.preventDefault();
+
+    const updated: ExerciseEntry = { ...entry, ...editData };
+    await updateExerciseEntry(updated);
+    await refresh();
+    setEditingId(null);
+  };
 
-    reader.readAsText(file);
+  const handleDelete = async (entry: ExerciseEntry) => {
+    if (!window.confirm(`Delete the ${entry.type} workout from ${format(new Date(entry.date), 'PPP')}?`)) return;
+    await deleteExerciseEntry(entry.id);
+    await refresh();
+  };
+
+  const handleImport = async (imported: ExerciseEntry[]) => {
+    await saveExerciseEntries(imported);
+    await refresh();
   };
 
   return (
@@ -89,16 +149,20 @@ export default function ExercisePage() {
             <p className="text-gray-600 mt-2">Track workouts and monitor recovery patterns</p>
           </div>
           <div className="flex gap-3">
-            <label className="flex items-center gap-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors"
+            >
               <Upload className="w-5 h-5" />
               Import CSV
-              <input
-                type="file"
-                accept=".csv"
-                onChange={handleCSVImport}
-                className="hidden"
-              />
-            </label>
+            </button>
+            <button
+              onClick={() => setShowAppleHealth(true)}
+              className="flex items-center gap-2 bg-gray-900 text-white px-6 py-3 rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              <Watch className="w-5 h-5" />
+              Apple Health
+            </button>
             <button
               onClick={() => setShowForm(!showForm)}
               className="flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors"
@@ -207,40 +271,154 @@ export default function ExercisePage() {
           </div>
         )}
 
+        {showImport && (
+          <ImportWizard
+            kind="exercise"
+            existing={entries}
+            onImport={handleImport}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
+        {showAppleHealth && (
+          <AppleHealthImport
+            existing={entries}
+            onImport={handleAppleHealthImport}
+            onClose={() => setShowAppleHealth(false)}
+          />
+        )}
+
         {/* CSV Import Instructions */}
         <div className="bg-blue-50 border border-blue-200 rounded-xl p-6 mb-8">
           <h3 className="font-semibold text-blue-900 mb-2">CSV Import Format</h3>
           <p className="text-sm text-blue-700 mb-2">
-            Your CSV should have the following columns: date, type, duration, intensity
+            Export a CSV from your wearable or spreadsheet. Columns are matched to date, type, duration,
+            intensity, recovery and notes in the next step, and you can review every row before saving.
           </p>
           <code className="text-xs bg-white px-2 py-1 rounded text-blue-800">
-            2024-01-01,Running,30,medium
+            date,type,duration,intensity
           </code>
         </div>
 
         {/* Entries List */}
         <div className="space-y-4">
           <h2 className="text-2xl font-bold text-gray-900">Recent Workouts</h2>
+          {entries.length > 0 && <ExerciseFilters query={query} onChange={changeQuery} />}
+          {entries.length > 0 && <Pagination results={results} onChange={setPage} />}
           {entries.length === 0 ? (
             <div className="bg-white rounded-xl shadow-lg p-12 text-center">
               <Activity className="w-16 h-16 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500">No exercise entries yet. Add your first workout!</p>
             </div>
+          ) : results.total === 0 && isFiltered(query) ? (
+            <div className="bg-white rounded-xl shadow-lg p-12 text-center">
+              <p className="text-gray-500">No workouts match these filters.</p>
+            </div>
           ) : (
-            entries.slice().reverse().map((entry) => (
+            results.items.map((entry) => editingId === entry.id ? (
+              <form
+                key={entry.id}
+                onSubmit={(e) => handleUpdate(e, entry)}
+                className="bg-white rounded-xl shadow-lg p-6 space-y-4"
+              >
+                <p className="text-sm text-gray-500">Editing workout from {format(new Date(entry.date), 'PPP')}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <input
+                    type="text"
+                    value={editData.type}
+                    onChange={(e) => setEditData({ ...editData, type: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="Exercise type"
+                    required
+                  />
+                  <select
+                    value={editData.intensity}
+                    onChange={(e) => setEditData({ ...editData, intensity: e.target.value as 'low' | 'medium' | 'high' })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    required
+                  >
+                    <option value="low">Low</option>
+                    <option value="medium">Medium</option>
+                    <option value="high">High</option>
+                  </select>
+                  <label className="text-sm text-gray-700">
+                    Duration (minutes)
+                    <input
+                      type="number"
+                      min="5"
+                      max="300"
+                      value={editData.duration}
+                      onChange={(e) => setEditData({ ...editData, duration: parseInt(e.target.value) })}
+                      className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      required
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Recovery Feeling (1-10)
+                    <input
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={editData.recovery}
+                      onChange={(e) => setEditData({ ...editData, recovery: parseInt(e.target.value) })}
+                      className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      required
+                    />
+                  </label>
+                </div>
+                <textarea
+                  value={editData.notes}
+                  onChange={(e) => setEditData({ ...editData, notes: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  rows={2}
+                  placeholder="Notes"
+                />
+                <div className="flex gap-4">
+                  <button
+                    type="submit"
+                    className="flex-1 bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+                  >
+                    Save Changes
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
               <div key={entry.id} className="bg-white rounded-xl shadow-lg p-6">
                 <div className="flex items-start justify-between mb-4">
                   <div>
                     <h3 className="text-xl font-semibold text-gray-900">{entry.type}</h3>
                     <p className="text-sm text-gray-500">{format(new Date(entry.date), 'PPP')}</p>
                   </div>
-                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                    entry.intensity === 'high' ? 'bg-red-100 text-red-700' :
-                    entry.intensity === 'medium' ? 'bg-yellow-100 text-yellow-700' :
-                    'bg-green-100 text-green-700'
-                  }`}>
-                    {entry.intensity.toUpperCase()}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                      entry.intensity === 'high' ? 'bg-red-100 text-red-700' :
+                      entry.intensity === 'medium' ? 'bg-yellow-100 text-yellow-700' :
+                      'bg-green-100 text-green-700'
+                    }`}>
+                      {entry.intensity.toUpperCase()}
+                    </span>
+                    <button
+                      onClick={() => startEdit(entry)}
+                      className="p-2 text-gray-400 hover:text-primary-600 rounded-lg hover:bg-gray-100"
+                      aria-label="Edit workout"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-gray-100"
+                      aria-label="Delete workout"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
                 <div className="grid grid-cols-2 gap-4 text-sm">
                   <div>
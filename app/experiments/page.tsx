@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FlaskConical, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import ExperimentCard from '@/components/ExperimentCard';
+import { deleteExperiment, getConditions, getExperiments, getNutritionEntries, saveExperiment, type NutritionEntry } from '@/lib/storage';
+import { builtinConditions, type ConditionDefinition } from '@/lib/conditions';
+import {
+  DEFAULT_PHASE_DAYS,
+  experimentPhases,
+  phaseLabels,
+  type Experiment,
+  type ExperimentPhase,
+} from '@/lib/experiments';
+
+const emptyForm = () => ({
+  name: '',
+  hypothesis: '',
+  targetKind: 'foods' as 'foods' | 'caffeine',
+  foods: '',
+  condition: '',
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  phaseDays: { ...DEFAULT_PHASE_DAYS },
+});
+
+export default function ExperimentsPage() {
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [entries, setEntries] = useState<NutritionEntry[]>([]);
+  const [conditions, setConditions] = useState<ConditionDefinition[]>(builtinConditions);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    getExperiments().then(setExperiments);
+    getNutritionEntries().then(setEntries);
+    getConditions().then(setConditions);
+  }, []);
+
+  const setPhaseDays = (phase: ExperimentPhase, days: number) => {
+    setFormData({ ...formData, phaseDays: { ...formData.phaseDays, [phase]: days } });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await saveExperiment({
+      id: Date.now().toString(),
+      name: formData.name.trim(),
+      hypothesis: formData.hypothesis.trim(),
+      target: formData.targetKind === 'caffeine'
+        ? { kind: 'caffeine' }
+        : { kind: 'foods', foods: formData.foods.split(',').map(f => f.trim()).filter(f => f) },
+      condition: formData.condition || undefined,
+      startDate: formData.startDate,
+      phaseDays: formData.phaseDays,
+      createdAt: new Date().toISOString(),
+    });
+
+    setExperiments(await getExperiments());
+    setShowForm(false);
+    setFormData(emptyForm());
+  };
+
+  const handleDelete = async (experiment: Experiment) => {
+    if (!confirm(`Delete the experiment "${experiment.name}"? Your nutrition entries are kept.`)) return;
+    await deleteExperiment(experiment.id);
+    setExperiments(await getExperiments());
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <FlaskConical className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Experiments</h1>
+          </div>
+          <p className="text-gray-600">
+            Test a suspected trigger: log as usual for a baseline, cut it out, then bring it back and compare your symptoms.
+          </p>
+        </div>
+
+        <button
+          onClick={() => setShowForm(true)}
+          className="mb-8 flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          New Experiment
+        </button>
+
+        {showForm && (
+          <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">New Experiment</h2>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="e.g., Two weeks without dairy"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Condition
+                  </label>
+                  <select
+                    value={formData.condition}
+                    onChange={(e) => setFormData({ ...formData, condition: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    <option value="">Any symptom</option>
+                    {conditions.map(condition => (
+                      <option key={condition.id} value={condition.name}>{condition.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Hypothesis
+                </label>
+                <textarea
+                  value={formData.hypothesis}
+                  onChange={(e) => setFormData({ ...formData, hypothesis: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  rows={2}
+                  placeholder="e.g., Dairy causes my bloating"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Remove
+                </label>
+                <div className="flex flex-col md:flex-row gap-4">
+                  <select
+                    value={formData.targetKind}
+                    onChange={(e) => setFormData({ ...formData, targetKind: e.target.value as 'foods' | 'caffeine' })}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    <option value="foods">Foods</option>
+                    <option value="caffeine">Caffeine</option>
+                  </select>
+                  {formData.targetKind === 'foods' && (
+                    <input
+                      type="text"
+                      value={formData.foods}
+                      onChange={(e) => setFormData({ ...formData, foods: e.target.value })}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      placeholder="e.g., milk, cheese, yogurt, butter"
+                      required
+                    />
+                  )}
+                </div>
+                {formData.targetKind === 'foods' && (
+                  <p className="mt-1 text-xs text-gray-500">Any logged food containing one of these words counts.</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Start date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                {experimentPhases.map(phase => (
+                  <div key={phase}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {phaseLabels[phase]} (days)
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="90"
+                      value={formData.phaseDays[phase]}
+                      onChange={(e) => setPhaseDays(phase, parseInt(e.target.value) || 1)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      required
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-4">
+                <button
+                  type="submit"
+                  className="flex-1 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+                >
+                  Start Experiment
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {experiments.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-lg p-12 text-center">
+              <FlaskConical className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-500">No experiments yet. Start one to test a food you suspect.</p>
+            </div>
+          ) : (
+            experiments.map(experiment => (
+              <ExperimentCard
+                key={experiment.id}
+                experiment={experiment}
+                entries={entries}
+                conditions={conditions}
+                onDelete={handleDelete}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
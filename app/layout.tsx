@@ -2,6 +2,9 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import Navigation from "@/components/Navigation";
+import DoseReminders from "@/components/DoseReminders";
+import LockScreen from "@/components/LockScreen";
+import SyncManager from "@/components/SyncManager";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -20,7 +23,10 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <Navigation />
-        <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <DoseReminders />
+        <LockScreen />
+        <SyncManager />
+        <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 print:bg-none print:bg-white">
           {children}
         </main>
       </body>
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlarmClock, AlertCircle, Bell, Check, X, CalendarClock } from 'lucide-react';
+import { addDays, endOfDay, format, parseISO, startOfDay, subDays } from 'date-fns';
+import ScheduleEditor from '@/components/ScheduleEditor';
+import { getDoseRecords, getNutritionEntries, getRemedies, recordDose, type NutritionEntry, type Remedy } from '@/lib/storage';
+import {
+  adherenceByDay,
+  describeSchedule,
+  isMissed,
+  scheduledDoses,
+  type DoseRecord,
+  type DoseStatus,
+  type ScheduledDose,
+} from '@/lib/schedules';
+
+const ADHERENCE_DAYS = 14;
+
+export default function MedicationsPage() {
+  const [remedies, setRemedies] = useState<Remedy[]>([]);
+  const [entries, setEntries] = useState<NutritionEntry[]>([]);
+  const [records, setRecords] = useState<DoseRecord[]>([]);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+  const [editing, setEditing] = useState<Remedy | null>(null);
+  const [error, setError] = useState('');
+
+  const since = startOfDay(subDays(new Date(), ADHERENCE_DAYS - 1));
+
+  useEffect(() => {
+    const load = async () => {
+      setPermission('Notification' in window ? Notification.permission : 'unsupported');
+
+      // Taken / Skip pressed on a notification while no tab was open
+      const params = new URLSearchParams(window.location.search);
+      const remedyId = params.get('remedy');
+      const due = params.get('due');
+      const status = params.get('status');
+      if (remedyId && due && (status === 'taken' || status === 'skipped')) {
+        try {
+          await recordDose(remedyId, new Date(due), status, params.get('profile') ?? undefined);
+        } catch (err) {
+          // Another profile whose data is encrypted cannot be opened from here
+          setError(`The dose from the notification was not recorded. ${(err as Error).message}`);
+        }
+        window.history.replaceState(null, '', '/medications');
+      }
+
+      const from = startOfDay(subDays(new Date(), ADHERENCE_DAYS - 1));
+      setRemedies(await getRemedies());
+      // A day earlier so meal doses from just before the window are included
+      setEntries(await getNutritionEntries(subDays(from, 1).toISOString()));
+      setRecords(await getDoseRecords(from.toISOString()));
+    };
+
+    load();
+  }, []);
+
+  const handleDose = async (dose: ScheduledDose, status: DoseStatus) => {
+    setError('');
+    try {
+      await recordDose(dose.remedy.id, dose.dueAt, status);
+    } catch (err) {
+      setError(`The dose was not recorded. ${(err as Error).message}`);
+      return;
+    }
+    setRecords(await getDoseRecords(since.toISOString()));
+  };
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const now = new Date();
+  const doses = scheduledDoses(remedies, since, endOfDay(now), entries, records);
+  const todayDoses = doses.filter(dose => dose.dueAt >= startOfDay(now));
+  const adherence = adherenceByDay(doses, now);
+  const scheduled = remedies.filter(remedy => remedy.schedule);
+
+  const days = Array.from({ length: ADHERENCE_DAYS }, (_, i) => addDays(since, i)).reverse();
+  const symptomsOn = (day: Date) => {
+    const key = format(day, 'yyyy-MM-dd');
+    const dayEntries = entries.filter(entry => format(parseISO(entry.date), 'yyyy-MM-dd') === key && entry.symptoms.length > 0);
+    return {
+      symptoms: Array.from(new Set(dayEntries.flatMap(entry => entry.symptoms))),
+      severity: Math.max(0, ...dayEntries.map(entry => entry.severity)),
+    };
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <AlarmClock className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Medications</h1>
+          </div>
+          <p className="text-gray-600">
+            Dose schedules, reminders and how closely you have kept to them.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 text-red-700">
+            <AlertCircle className="w-5 h-5 mt-0.5" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Reminders */}
+        {permission !== 'granted' && (
+          <div className="bg-white rounded-xl shadow-lg p-6 mb-8 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Bell className="w-6 h-6 text-primary-600" />
+              <p className="text-gray-700">
+                {permission === 'unsupported'
+                  ? 'This browser does not support notifications, so reminders are only shown on this page.'
+                  : permission === 'denied'
+                  ? 'Notifications are blocked. Allow them in your browser settings to get reminders.'
+                  : 'Get a notification when a dose is due while the app is open.'}
+              </p>
+            </div>
+            {permission === 'default' && (
+              <button
+                onClick={requestPermission}
+                className="flex-shrink-0 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+              >
+                Enable Reminders
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Today */}
+        <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">Today&apos;s Doses</h2>
+          {todayDoses.length === 0 ? (
+            <p className="text-gray-500">No doses scheduled for today.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {todayDoses.map(dose => (
+                <li key={dose.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <span className="font-mono text-gray-500 mr-3">{format(dose.dueAt, 'HH:mm')}</span>
+                    <span className="font-medium text-gray-900">{dose.remedy.name}</span>
+                    {dose.entry && <span className="text-sm text-gray-500"> · {dose.entry.meal}</span>}
+                  </div>
+                  {dose.record ? (
+                    <span className={`text-sm font-medium ${dose.record.status === 'taken' ? 'text-green-700' : 'text-gray-500'}`}>
+                      {dose.record.status === 'taken' ? 'Taken' : 'Skipped'} at {format(parseISO(dose.record.recordedAt), 'HH:mm')}
+                    </span>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      {isMissed(dose, now) && <span className="text-sm text-red-600 mr-2">Missed</span>}
+                      <button
+                        onClick={() => handleDose(dose, 'taken')}
+                        className="flex items-center gap-1 px-3 py-1 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors"
+                      >
+                        <Check className="w-4 h-4" />
+                        Taken
+                      </button>
+                      <button
+                        onClick={() => handleDose(dose, 'skipped')}
+                        className="flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                        Skip
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Schedules */}
+        <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">Schedules</h2>
+          {remedies.length === 0 ? (
+            <p className="text-gray-500">Add remedies on the Remedies page to schedule them.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {remedies.map(remedy => (
+                <li key={remedy.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <span className="font-medium text-gray-900">{remedy.name}</span>
+                    <span className="text-sm text-gray-500 ml-2">
+                      {remedy.schedule ? describeSchedule(remedy.schedule) : 'Not scheduled'}
+                    </span>
+                    {remedy.notes && <p className="text-xs text-gray-500 italic">{remedy.notes}</p>}
+                  </div>
+                  <button
+                    onClick={() => setEditing(remedy)}
+                    className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+                  >
+                    <CalendarClock className="w-4 h-4" />
+                    {remedy.schedule ? 'Edit' : 'Schedule'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Adherence */}
+        {scheduled.length > 0 && (
+          <div className="bg-white rounded-xl shadow-lg p-8">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Adherence</h2>
+            <p className="text-sm text-gray-500 mb-6">
+              Doses over the last {ADHERENCE_DAYS} days next to the symptoms you logged. Days with missed doses are highlighted.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-700 border-b border-gray-200">
+                    <th className="py-2 pr-4">Day</th>
+                    <th className="py-2 pr-4">Taken</th>
+                    <th className="py-2 pr-4">Skipped</th>
+                    <th className="py-2 pr-4">Missed</th>
+                    <th className="py-2">Symptoms</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.map(day => {
+                    const key = format(day, 'yyyy-MM-dd');
+                    const counts = adherence[key];
+                    const { symptoms, severity } = symptomsOn(day);
+                    return (
+                      <tr key={key} className={`border-b border-gray-100 ${counts?.missed ? 'bg-red-50' : ''}`}>
+                        <td className="py-2 pr-4 text-gray-900">{format(day, 'EEE, MMM d')}</td>
+                        <td className="py-2 pr-4 text-green-700">{counts ? `${counts.taken}/${counts.due}` : '—'}</td>
+                        <td className="py-2 pr-4 text-gray-600">{counts?.skipped || ''}</td>
+                        <td className="py-2 pr-4 font-medium text-red-700">{counts?.missed || ''}</td>
+                        <td className="py-2 text-gray-700">
+                          {symptoms.length > 0 ? `${symptoms.join(', ')} (severity ${severity})` : <span className="text-gray-400">None</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <ScheduleEditor
+          remedy={editing}
+          onSaved={async () => setRemedies(await getRemedies())}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,36 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Coffee, Plus, Calendar } from 'lucide-react';
-import { saveNutritionEntry, getNutritionEntries, type NutritionEntry } from '@/lib/storage';
+import { Coffee, Plus, Calendar, Pencil, Trash2, Upload, BookOpen, FlaskConical } from 'lucide-react';
+import ImportWizard from '@/components/ImportWizard';
+import SymptomInput from '@/components/SymptomInput';
+import SymptomVocabularyManager from '@/components/SymptomVocabularyManager';
+import NutritionFilters from '@/components/NutritionFilters';
+import Pagination from '@/components/Pagination';
+import { builtinVocabulary, type SymptomSynonym } from '@/lib/symptoms';
+import { protocolViolations, type Experiment } from '@/lib/experiments';
+import {
+  emptyNutritionQuery,
+  isFiltered,
+  nutritionQueryOptions,
+  paginate,
+  queryFromParams,
+  queryNutrition,
+  syncQueryToUrl,
+  type NutritionQuery,
+  type QueryPage,
+} from '@/lib/query';
+import {
+  saveNutritionEntry,
+  saveNutritionEntries,
+  getNutritionEntries,
+  updateNutritionEntry,
+  deleteNutritionEntry,
+  getSymptomSynonyms,
+  getSymptomVocabulary,
+  getExperiments,
+  type NutritionEntry,
+} from '@/lib/storage';
 import { format } from 'date-fns';
 
 export default function NutritionPage() {
@@ -17,12 +45,58 @@ export default function NutritionPage() {
     stress: 5,
     caffeine: false,
   });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState(formData);
+  const [showImport, setShowImport] = useState(false);
+  const [vocabulary, setVocabulary] = useState(builtinVocabulary);
+  const [synonyms, setSynonyms] = useState<SymptomSynonym[]>([]);
+  const [showVocabulary, setShowVocabulary] = useState(false);
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [query, setQuery] = useState<NutritionQuery>(emptyNutritionQuery);
+  const [page, setPage] = useState(1);
+  const [results, setResults] = useState<QueryPage<NutritionEntry>>(paginate([], 1));
+  // Set once the filters have been read from the URL
+  const [ready, setReady] = useState(false);
+
+  const loadVocabulary = async () => {
+    setSynonyms(await getSymptomSynonyms());
+    setVocabulary(await getSymptomVocabulary());
+  };
 
   useEffect(() => {
-    setEntries(getNutritionEntries());
+    getNutritionEntries().then(setEntries);
+    getExperiments().then(setExperiments);
+    loadVocabulary();
+
+    const initial = queryFromParams(new URLSearchParams(window.location.search), emptyNutritionQuery, nutritionQueryOptions);
+    setQuery(initial.query);
+    setPage(initial.page);
+    setReady(true);
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+    syncQueryToUrl(query, page);
+    queryNutrition(query, page).then(next => {
+      if (!cancelled) setResults(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, page, ready]);
+
+  const refresh = async () => {
+    setEntries(await getNutritionEntries());
+    setResults(await queryNutrition(query, page));
+  };
+
+  const changeQuery = (next: NutritionQuery) => {
+    setQuery(next);
+    setPage(1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     const entry: NutritionEntry = {
@@ -37,14 +111,9 @@ export default function NutritionPage() {
       caffeine: formData.caffeine,
     };
 
-    saveNutritionEntry(entry);
-    
-    // Update today's data for predictions
-    localStorage.setItem('todaySleep', formData.sleep.toString());
-    localStorage.setItem('todayStress', formData.stress.toString());
-    localStorage.setItem('todayCaffeine', formData.caffeine.toString());
+    await saveNutritionEntry(entry);
     
-    setEntries([...entries, entry]);
+    await refresh();
     setShowForm(false);
     setFormData({
       meal: '',
@@ -57,6 +126,56 @@ export default function NutritionPage() {
     });
   };
 
+  const handleImport = async (imported: NutritionEntry[]) => {
+    await saveNutritionEntries(imported);
+    await refresh();
+  };
+
+  const startEdit = (entry: NutritionEntry) => {
+    setEditingId(entry.id);
+    setEditData({
+      meal: entry.meal,
+      foods: entry.foods.join(', '),
+      symptoms: entry.symptoms.join(', '),
+      severity: entry.severity,
+      sleep: entry.sleep,
+      stress: entry.stress,
+      caffeine: entry.caffeine,
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent, entry: NutritionEntry) => {
+    e.preventDefault();
+
+    const updated: NutritionEntry = {
+      ...entry,
+      meal: editData.meal,
+      foods: editData.foods.split(',').map(f => f.trim()).filter(f => f),
+      symptoms: editData.symptoms.split(',').map(s => s.trim()).filter(s => s),
+      severity: editData.severity,
+      sleep: editData.sleep,
+      stress: editData.stress,
+      caffeine: editData.caffeine,
+    };
+
+    await updateNutritionEntry(updated);
+    await refresh();
+    setEditingId(null);
+  };
+
+  const handleDelete = async (entry: NutritionEntry) => {
+    if (!window.confirm(`Delete the ${entry.meal} entry from ${format(new Date(entry.date), 'PPP p')}?`)) return;
+    await deleteNutritionEntry(entry.id);
+    await refresh();
+  };
+
+  const unrecognized = Array.from(new Set(entries.flatMap(entry => entry.symptoms)))
+    .filter(symptom => !vocabulary.isKnown(symptom))
+    .sort();
+
+  // Meals that break the elimination phase of an experiment
+  const violations = protocolViolations(experiments, results.items);
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-4xl mx-auto">
@@ -65,15 +184,53 @@ export default function NutritionPage() {
             <h1 className="text-4xl font-bold text-gray-900">Nutrition Tracker</h1>
             <p className="text-gray-600 mt-2">Track your meals and identify symptom triggers</p>
           </div>
-          <button
-            onClick={() => setShowForm(!showForm)}
-            className="flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors"
-          >
-            <Plus className="w-5 h-5" />
-            Add Entry
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setShowVocabulary(true)}
+              className="flex items-center gap-2 bg-gray-200 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              <BookOpen className="w-5 h-5" />
+              Symptoms
+            </button>
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors"
+            >
+              <Upload className="w-5 h-5" />
+              Import CSV
+            </button>
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              Add Entry
+            </button>
+          </div>
         </div>
 
+        {showVocabulary && (
+          <SymptomVocabularyManager
+            vocabulary={vocabulary}
+            synonyms={synonyms}
+            unrecognized={unrecognized}
+            onChange={async () => {
+              await loadVocabulary();
+              await refresh();
+            }}
+            onClose={() => setShowVocabulary(false)}
+          />
+        )}
+
+        {showImport && (
+          <ImportWizard
+            kind="nutrition"
+            existing={entries}
+            onImport={handleImport}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
         {showForm && (
           <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
             <h2 className="text-2xl font-bold text-gray-900 mb-6">New Nutrition Entry</h2>
@@ -161,10 +318,10 @@ export default function NutritionPage() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Symptoms (optional, comma-separated)
                 </label>
-                <input
-                  type="text"
+                <SymptomInput
                   value={formData.symptoms}
-                  onChange={(e) => setFormData({ ...formData, symptoms: e.target.value })}
+                  onChange={(symptoms) => setFormData({ ...formData, symptoms })}
+                  vocabulary={vocabulary}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   placeholder="e.g., bloating, reflux, headache"
                 />
@@ -209,20 +366,139 @@ export default function NutritionPage() {
         {/* Entries List */}
         <div className="space-y-4">
           <h2 className="text-2xl font-bold text-gray-900">Recent Entries</h2>
+          {entries.length > 0 && <NutritionFilters query={query} onChange={changeQuery} />}
+          {entries.length > 0 && <Pagination results={results} onChange={setPage} />}
           {entries.length === 0 ? (
             <div className="bg-white rounded-xl shadow-lg p-12 text-center">
               <Calendar className="w-16 h-16 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500">No nutrition entries yet. Add your first entry to get started!</p>
             </div>
+          ) : results.total === 0 && isFiltered(query) ? (
+            <div className="bg-white rounded-xl shadow-lg p-12 text-center">
+              <p className="text-gray-500">No entries match these filters.</p>
+            </div>
           ) : (
-            entries.slice().reverse().map((entry) => (
+            results.items.map((entry) => editingId === entry.id ? (
+              <form
+                key={entry.id}
+                onSubmit={(e) => handleUpdate(e, entry)}
+                className="bg-white rounded-xl shadow-lg p-6 space-y-4"
+              >
+                <p className="text-sm text-gray-500">Editing entry from {format(new Date(entry.date), 'PPP p')}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <select
+                    value={editData.meal}
+                    onChange={(e) => setEditData({ ...editData, meal: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    required
+                  >
+                    <option value="breakfast">Breakfast</option>
+                    <option value="lunch">Lunch</option>
+                    <option value="dinner">Dinner</option>
+                    <option value="snack">Snack</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={editData.foods}
+                    onChange={(e) => setEditData({ ...editData, foods: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="Foods (comma-separated)"
+                    required
+                  />
+                  <label className="text-sm text-gray-700">
+                    Sleep (hours)
+                    <input
+                      type="number"
+                      min="0"
+                      max="12"
+                      step="0.5"
+                      value={editData.sleep}
+                      onChange={(e) => setEditData({ ...editData, sleep: parseFloat(e.target.value) })}
+                      className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      required
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700">
+                    Stress Level (1-10)
+                    <input
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={editData.stress}
+                      onChange={(e) => setEditData({ ...editData, stress: parseInt(e.target.value) })}
+                      className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      required
+                    />
+                  </label>
+                  <SymptomInput
+                    value={editData.symptoms}
+                    onChange={(symptoms) => setEditData({ ...editData, symptoms })}
+                    vocabulary={vocabulary}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    placeholder="Symptoms (comma-separated)"
+                  />
+                  <label className="text-sm text-gray-700">
+                    Severity: {editData.severity}/10
+                    <input
+                      type="range"
+                      min="1"
+                      max="10"
+                      value={editData.severity}
+                      onChange={(e) => setEditData({ ...editData, severity: parseInt(e.target.value) })}
+                      className="w-full"
+                    />
+                  </label>
+                  <label className="flex items-center text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={editData.caffeine}
+                      onChange={(e) => setEditData({ ...editData, caffeine: e.target.checked })}
+                      className="w-5 h-5 mr-3 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                    />
+                    <Coffee className="w-4 h-4 mr-1" />
+                    Contains Caffeine
+                  </label>
+                </div>
+                <div className="flex gap-4">
+                  <button
+                    type="submit"
+                    className="flex-1 bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+                  >
+                    Save Changes
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="flex-1 bg-gray-200 text-gray-700 py-2 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
               <div key={entry.id} className="bg-white rounded-xl shadow-lg p-6">
                 <div className="flex items-start justify-between mb-4">
                   <div>
                     <h3 className="text-xl font-semibold text-gray-900 capitalize">{entry.meal}</h3>
                     <p className="text-sm text-gray-500">{format(new Date(entry.date), 'PPP p')}</p>
                   </div>
-                  {entry.caffeine && <Coffee className="w-6 h-6 text-amber-600" />}
+                  <div className="flex items-center gap-2">
+                    {entry.caffeine && <Coffee className="w-6 h-6 text-amber-600" />}
+                    <button
+                      onClick={() => startEdit(entry)}
+                      className="p-2 text-gray-400 hover:text-primary-600 rounded-lg hover:bg-gray-100"
+                      aria-label="Edit entry"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-gray-100"
+                      aria-label="Delete entry"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
                 <div className="space-y-2">
                   <div>
@@ -239,6 +515,12 @@ export default function NutritionPage() {
                       <span className="text-gray-600">{entry.stress}/10</span>
                     </div>
                   </div>
+                  {violations.filter(v => v.entry.id === entry.id).map(({ experiment, matches }) => (
+                    <div key={experiment.id} className="flex items-center gap-2 text-sm text-amber-700">
+                      <FlaskConical className="w-4 h-4" />
+                      Breaks &ldquo;{experiment.name}&rdquo;: {matches.join(', ')}
+                    </div>
+                  ))}
                   {entry.symptoms.length > 0 && (
                     <div className="mt-3 p-3 bg-red-50 rounded-lg">
                       <span className="text-sm font-medium text-red-700">Symptoms: </span>
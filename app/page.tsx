@@ -5,24 +5,46 @@ import Link from 'next/link';
 import { useEffect, useState } from 'react';
 import PredictionCard from '@/components/PredictionCard';
 import QuickStart from '@/components/QuickStart';
-import { calculatePredictions } from '@/lib/predictions';
+import CheckInNotice from '@/components/CheckInNotice';
+import type { Prediction } from '@/lib/predictions';
+import {
+  loadTodaysOutlook,
+  recommendRemedies,
+  SNOOZE_HOURS,
+  type RecommendationData,
+  type RemedySuggestion,
+} from '@/lib/recommendations';
+import { getRecommendationData, dismissSuggestion, restoreSuggestion } from '@/lib/storage';
+import { addHours } from 'date-fns';
 
 export default function Home() {
-  const [predictions, setPredictions] = useState<any[]>([]);
+  const [predictions, setPredictions] = useState<Prediction[]>([]);
+  const [checkedIn, setCheckedIn] = useState(true);
+  const [recommendationData, setRecommendationData] = useState<RecommendationData | null>(null);
 
   useEffect(() => {
-    // Get today's data from localStorage
-    const todayData = {
-      sleep: parseFloat(localStorage.getItem('todaySleep') || '7'),
-      stress: parseInt(localStorage.getItem('todayStress') || '5'),
-      caffeine: localStorage.getItem('todayCaffeine') === 'true',
-      exercise: localStorage.getItem('todayExercise') === 'true',
+    const loadPredictions = async () => {
+      const outlook = await loadTodaysOutlook();
+      setCheckedIn(outlook.checkedIn);
+      setPredictions(outlook.predictions);
+      setRecommendationData(outlook.recommendationData);
     };
 
-    const preds = calculatePredictions(todayData);
-    setPredictions(preds);
+    loadPredictions();
   }, []);
 
+  const suggestions = recommendationData ? recommendRemedies(predictions, recommendationData) : {};
+
+  const hideSuggestion = async ({ remedy, condition }: RemedySuggestion, until?: Date) => {
+    await dismissSuggestion(remedy.id, condition, until);
+    setRecommendationData(await getRecommendationData());
+  };
+
+  const showSuggestion = async ({ remedy, condition }: RemedySuggestion) => {
+    await restoreSuggestion(remedy.id, condition);
+    setRecommendationData(await getRecommendationData());
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-6xl mx-auto">
@@ -75,9 +97,17 @@ export default function Home() {
         {/* Today's Predictions */}
         <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">Today's Predictions</h2>
+          {!checkedIn && <CheckInNotice />}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {predictions.map((pred, idx) => (
-              <PredictionCard key={idx} prediction={pred} />
+              <PredictionCard
+                key={idx}
+                prediction={pred}
+                suggestions={suggestions[pred.condition]}
+                onDismiss={(suggestion) => hideSuggestion(suggestion)}
+                onSnooze={(suggestion) => hideSuggestion(suggestion, addHours(new Date(), SNOOZE_HOURS))}
+                onUndo={showSuggestion}
+              />
             ))}
           </div>
           {predictions.length === 0 && (
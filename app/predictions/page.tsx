@@ -1,76 +1,86 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Brain, TrendingUp, AlertCircle } from 'lucide-react';
 import PredictionCard from '@/components/PredictionCard';
-import { calculatePredictions } from '@/lib/predictions';
-import { getNutritionEntries } from '@/lib/storage';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
+import CheckInNotice from '@/components/CheckInNotice';
+import SuspectedTriggers from '@/components/SuspectedTriggers';
+import LagAnalysis from '@/components/LagAnalysis';
+import CorrelationChart from '@/components/CorrelationChart';
+import { calculatePredictions, type Prediction } from '@/lib/predictions';
+import {
+  loadTodaysOutlook,
+  recommendRemedies,
+  SNOOZE_HOURS,
+  type RecommendationData,
+  type RemedySuggestion,
+} from '@/lib/recommendations';
+import { modelWeight, MIN_TRAINING_ENTRIES, FULL_TRAINING_ENTRIES } from '@/lib/model';
+import { analyzeFoodTriggers, type FoodTrigger } from '@/lib/triggers';
+import { analyzeLags, type LagReport } from '@/lib/lagAnalysis';
+import { analyzeFactorAssociations, type FactorAssociation } from '@/lib/correlations';
+import { builtinConditions, type ConditionDefinition } from '@/lib/conditions';
+import { getRecommendationData, dismissSuggestion, restoreSuggestion, getDailyLogs, type NutritionEntry } from '@/lib/storage';
+import { addHours, format, parseISO } from 'date-fns';
+import { XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
 
 export default function PredictionsPage() {
-  const [predictions, setPredictions] = useState<any[]>([]);
-  const [trendData, setTrendData] = useState<any[]>([]);
-  const [correlationData, setCorrelationData] = useState<any[]>([]);
+  const [predictions, setPredictions] = useState<Prediction[]>([]);
+  const [checkedIn, setCheckedIn] = useState(true);
+  const [recommendationData, setRecommendationData] = useState<RecommendationData | null>(null);
+  const [modelShare, setModelShare] = useState(0);
+  const [entries, setEntries] = useState<NutritionEntry[]>([]);
+  const [triggers, setTriggers] = useState<Record<string, FoodTrigger[]>>({});
+  const [lagReports, setLagReports] = useState<LagReport[]>([]);
+  const [trendData, setTrendData] = useState<Record<string, string | number>[]>([]);
+  const [associations, setAssociations] = useState<FactorAssociation[]>([]);
+  const [conditions, setConditions] = useState<ConditionDefinition[]>(builtinConditions);
 
   useEffect(() => {
-    // Get today's data
-    const todayData = {
-      sleep: parseFloat(localStorage.getItem('todaySleep') || '7'),
-      stress: parseInt(localStorage.getItem('todayStress') || '5'),
-      caffeine: localStorage.getItem('todayCaffeine') === 'true',
-      exercise: localStorage.getItem('todayExercise') === 'true',
+    const loadAnalysis = async () => {
+      const { checkedIn, predictions, recommendationData, conditions, model, nutrition: entries, exercise } =
+        await loadTodaysOutlook();
+      setCheckedIn(checkedIn);
+      setPredictions(predictions);
+      setRecommendationData(recommendationData);
+
+      // Analyze historical data for trends
+      setConditions(conditions);
+      setModelShare(modelWeight(model));
+      setEntries(entries);
+      setTriggers(analyzeFoodTriggers(entries, conditions));
+      setLagReports(analyzeLags(entries, exercise, { conditions }));
+
+      // Predicted risk for each of the last 7 checked-in days
+      const last7Days = (await getDailyLogs()).filter(log => log.checkedInAt).slice(-7);
+      setTrendData(last7Days.map(dayLog => {
+        const dayPreds = calculatePredictions(dayLog, model, conditions);
+        const row: Record<string, string | number> = { day: format(parseISO(dayLog.date), 'MMM d') };
+        conditions.forEach((condition, i) => {
+          row[condition.id] = dayPreds[i].probability;
+        });
+        return row;
+      }));
+
+      setAssociations(analyzeFactorAssociations(entries, exercise, conditions));
     };
 
-    const preds = calculatePredictions(todayData);
-    setPredictions(preds);
-
-    // Analyze historical data for trends
-    const entries = getNutritionEntries();
-    if (entries.length > 0) {
-      // Group by condition and calculate average probabilities
-      const last7Days = entries.slice(-7);
-      const trends = last7Days.map((entry, idx) => {
-        const data = {
-          sleep: entry.sleep,
-          stress: entry.stress,
-          caffeine: entry.caffeine,
-          exercise: false,
-        };
-        const dayPreds = calculatePredictions(data);
-        return {
-          day: `Day ${idx + 1}`,
-          reflux: dayPreds.find(p => p.condition === 'Acid Reflux')?.probability || 0,
-          migraine: dayPreds.find(p => p.condition === 'Migraine')?.probability || 0,
-          ibs: dayPreds.find(p => p.condition === 'IBS Symptoms')?.probability || 0,
-        };
-      });
-      setTrendData(trends);
-
-      // Calculate correlations
-      const correlations = [
-        {
-          factor: 'Low Sleep (<6h)',
-          reflux: entries.filter(e => e.sleep < 6 && e.symptoms.some(s => s.toLowerCase().includes('reflux'))).length,
-          migraine: entries.filter(e => e.sleep < 6 && e.symptoms.some(s => s.toLowerCase().includes('headache'))).length,
-          ibs: entries.filter(e => e.sleep < 6 && e.symptoms.some(s => s.toLowerCase().includes('bloat'))).length,
-        },
-        {
-          factor: 'High Stress (>7)',
-          reflux: entries.filter(e => e.stress > 7 && e.symptoms.some(s => s.toLowerCase().includes('reflux'))).length,
-          migraine: entries.filter(e => e.stress > 7 && e.symptoms.some(s => s.toLowerCase().includes('headache'))).length,
-          ibs: entries.filter(e => e.stress > 7 && e.symptoms.some(s => s.toLowerCase().includes('bloat'))).length,
-        },
-        {
-          factor: 'Caffeine',
-          reflux: entries.filter(e => e.caffeine && e.symptoms.some(s => s.toLowerCase().includes('reflux'))).length,
-          migraine: entries.filter(e => e.caffeine && e.symptoms.some(s => s.toLowerCase().includes('headache'))).length,
-          ibs: entries.filter(e => e.caffeine && e.symptoms.some(s => s.toLowerCase().includes('bloat'))).length,
-        },
-      ];
-      setCorrelationData(correlations);
-    }
+    loadAnalysis();
   }, []);
 
+  const suggestions = recommendationData ? recommendRemedies(predictions, recommendationData) : {};
+
+  const hideSuggestion = async ({ remedy, condition }: RemedySuggestion, until?: Date) => {
+    await dismissSuggestion(remedy.id, condition, until);
+    setRecommendationData(await getRecommendationData());
+  };
+
+  const showSuggestion = async ({ remedy, condition }: RemedySuggestion) => {
+    await restoreSuggestion(remedy.id, condition);
+    setRecommendationData(await getRecommendationData());
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-6xl mx-auto">
@@ -87,9 +97,17 @@ export default function PredictionsPage() {
         {/* Today's Predictions */}
         <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">Today's Risk Assessment</h2>
+          {!checkedIn && <CheckInNotice />}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {predictions.map((pred, idx) => (
-              <PredictionCard key={idx} prediction={pred} />
+              <PredictionCard
+                key={idx}
+                prediction={pred}
+                suggestions={suggestions[pred.condition]}
+                onDismiss={(suggestion) => hideSuggestion(suggestion)}
+                onSnooze={(suggestion) => hideSuggestion(suggestion, addHours(new Date(), SNOOZE_HOURS))}
+                onUndo={showSuggestion}
+              />
             ))}
           </div>
         </div>
@@ -101,14 +119,29 @@ export default function PredictionsPage() {
             <div>
               <h3 className="text-xl font-bold text-gray-900 mb-3">How Predictions Work</h3>
               <p className="text-gray-700 mb-3">
-                Our ML model analyzes patterns between your lifestyle factors and symptoms:
+                Each condition starts from a baseline risk, and your rules add or subtract points when today&apos;s sleep,
+                stress, caffeine and exercise match them:
               </p>
               <ul className="space-y-2 text-gray-700">
-                <li>• <strong>Sleep patterns:</strong> Poor sleep (&lt;6 hrs) increases reflux & migraine risk by 25-30%</li>
-                <li>• <strong>Caffeine + Sleep:</strong> Coffee with insufficient sleep = 50%+ reflux probability</li>
-                <li>• <strong>Stress levels:</strong> High stress (7+) significantly impacts IBS symptoms</li>
-                <li>• <strong>Exercise:</strong> Regular activity provides 10-15% protective effect</li>
+                {conditions.map(condition => (
+                  <li key={condition.id}>
+                    • <strong>{condition.name}</strong> (baseline {condition.baseline}%):{' '}
+                    {condition.rules.length === 0
+                      ? 'no rules'
+                      : condition.rules.map(rule => `${rule.label} ${rule.points > 0 ? '+' : ''}${rule.points}`).join(', ')}
+                  </li>
+                ))}
               </ul>
+              <p className="text-gray-700 mt-3">
+                {modelShare === 0
+                  ? `These rules apply until you have logged ${MIN_TRAINING_ENTRIES} entries (${entries.length} so far). After that, a model trained on your own history is blended in.`
+                  : modelShare < 1
+                  ? `Your personal model currently contributes ${Math.round(modelShare * 100)}% of each prediction and fully takes over at ${FULL_TRAINING_ENTRIES} entries.`
+                  : 'Predictions now come entirely from a model trained on your own history.'}
+              </p>
+              <p className="text-gray-700 mt-3">
+                Your triggers may differ: <Link href="/rules" className="text-purple-700 font-medium hover:underline">edit the rules</Link> for any condition.
+              </p>
             </div>
           </div>
         </div>
@@ -127,35 +160,20 @@ export default function PredictionsPage() {
                 <YAxis label={{ value: 'Probability (%)', angle: -90, position: 'insideLeft' }} />
                 <Tooltip />
                 <Legend />
-                <Line type="monotone" dataKey="reflux" stroke="#ef4444" strokeWidth={2} name="Acid Reflux" />
-                <Line type="monotone" dataKey="migraine" stroke="#8b5cf6" strokeWidth={2} name="Migraine" />
-                <Line type="monotone" dataKey="ibs" stroke="#f59e0b" strokeWidth={2} name="IBS" />
+                {conditions.map(condition => (
+                  <Line key={condition.id} type="monotone" dataKey={condition.id} stroke={condition.color} strokeWidth={2} name={condition.name} />
+                ))}
               </LineChart>
             </ResponsiveContainer>
           </div>
         )}
 
+        {/* Food Triggers */}
+        {entries.length > 0 && <SuspectedTriggers triggers={triggers} entries={entries} />}
+        {entries.length > 0 && <LagAnalysis reports={lagReports} />}
+
         {/* Correlation Analysis */}
-        {correlationData.length > 0 && (
-          <div className="bg-white rounded-xl shadow-lg p-8">
-            <h2 className="text-2xl font-bold text-gray-900 mb-6">Factor-Symptom Correlations</h2>
-            <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={correlationData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="factor" />
-                <YAxis label={{ value: 'Occurrences', angle: -90, position: 'insideLeft' }} />
-                <Tooltip />
-                <Legend />
-                <Bar dataKey="reflux" fill="#ef4444" name="Acid Reflux" />
-                <Bar dataKey="migraine" fill="#8b5cf6" name="Migraine" />
-                <Bar dataKey="ibs" fill="#f59e0b" name="IBS" />
-              </BarChart>
-            </ResponsiveContainer>
-            <p className="text-sm text-gray-500 mt-4 text-center">
-              Showing how often each factor coincided with symptoms in your history
-            </p>
-          </div>
-        )}
+        {associations.length > 0 && <CorrelationChart associations={associations} conditions={conditions} />}
 
         {predictions.length === 0 && (
           <div className="bg-white rounded-xl shadow-lg p-12 text-center">
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Users, UserPlus, Pencil, Trash2, Download, Copy, Check } from 'lucide-react';
+import {
+  DEFAULT_PROFILE_ID,
+  createProfile,
+  getActiveProfileId,
+  getProfiles,
+  renameProfile,
+  type Profile,
+} from '@/lib/profiles';
+import { copyRemediesToProfile, deleteProfile, getRemedies, switchProfile, type Remedy } from '@/lib/storage';
+import { createBackup, downloadBackup } from '@/lib/backup';
+
+export default function ProfilesPage() {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [remedies, setRemedies] = useState<Remedy[]>([]);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [selectedRemedies, setSelectedRemedies] = useState<string[]>([]);
+  const [target, setTarget] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [copyError, setCopyError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      setProfiles(getProfiles());
+      setActiveId(getActiveProfileId());
+      setRemedies(await getRemedies());
+    };
+    load();
+  }, []);
+
+  const nameTaken = (name: string, exceptId?: string) =>
+    profiles.some(profile => profile.id !== exceptId && profile.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim() || nameTaken(newName)) return;
+    createProfile(newName);
+    setProfiles(getProfiles());
+    setNewName('');
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !editing.name.trim() || nameTaken(editing.name, editing.id)) return;
+    renameProfile(editing.id, editing.name);
+    setProfiles(getProfiles());
+    setEditing(null);
+  };
+
+  const handleDelete = async (profile: Profile) => {
+    if (!confirm(`Delete ${profile.name} and all of their data? Download a backup first if you may need it.`)) return;
+    await deleteProfile(profile.id);
+    setProfiles(getProfiles());
+    if (target === profile.id) setTarget('');
+  };
+
+  const handleBackup = async (profile: Profile) => {
+    try {
+      downloadBackup(await createBackup(profile.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const toggleRemedy = (id: string) => {
+    setSelectedRemedies(
+      selectedRemedies.includes(id) ? selectedRemedies.filter(r => r !== id) : [...selectedRemedies, id]
+    );
+  };
+
+  const handleCopy = async () => {
+    const profile = profiles.find(p => p.id === target);
+    if (!profile || selectedRemedies.length === 0) return;
+    setCopyError('');
+    try {
+      const { copied, skipped } = await copyRemediesToProfile(selectedRemedies, profile.id);
+      const plural = (count: number) => `${count} ${count === 1 ? 'remedy' : 'remedies'}`;
+      setMessage(
+        `Copied ${plural(copied)} to ${profile.name}.` +
+          (skipped > 0 ? ` Skipped ${plural(skipped)} already there.` : '')
+      );
+      setSelectedRemedies([]);
+    } catch (err) {
+      setMessage('');
+      setCopyError((err as Error).message);
+    }
+  };
+
+  const activeName = profiles.find(profile => profile.id === activeId)?.name;
+  const otherProfiles = profiles.filter(profile => profile.id !== activeId);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Users className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Profiles</h1>
+          </div>
+          <p className="text-gray-600">
+            Track several people on one device. Each profile keeps its own entries, remedies, check-ins, conditions and rules.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">People on this device</h2>
+          <ul className="divide-y divide-gray-100 mb-6">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex flex-wrap items-center gap-3 py-3">
+                {editing?.id === profile.id ? (
+                  <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      autoFocus
+                      required
+                    />
+                    <button
+                      type="submit"
+                      disabled={nameTaken(editing.name, profile.id)}
+                      className="p-2 text-green-600 hover:text-green-700 disabled:opacity-50"
+                      aria-label="Save name"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button type="button" onClick={() => setEditing(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex flex-1 items-center gap-2">
+                    <span className="font-medium text-gray-900">{profile.name}</span>
+                    {profile.id === activeId && (
+                      <span className="px-2 py-0.5 rounded-full bg-primary-100 text-primary-700 text-xs">Active</span>
+                    )}
+                    <button
+                      onClick={() => setEditing({ id: profile.id, name: profile.name })}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      aria-label={`Rename ${profile.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+                {profile.id !== activeId && (
+                  <button
+                    onClick={() => switchProfile(profile.id)}
+                    className="px-3 py-1 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Switch to
+                  </button>
+                )}
+                <button
+                  onClick={() => handleBackup(profile)}
+                  className="flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  <Download className="w-4 h-4" />
+                  Backup
+                </button>
+                {profile.id !== activeId && profile.id !== DEFAULT_PROFILE_ID && (
+                  <button
+                    onClick={() => handleDelete(profile)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${profile.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleCreate} className="flex gap-3">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="Name, e.g. Sam"
+              required
+            />
+            <button
+              type="submit"
+              disabled={nameTaken(newName)}
+              className="flex items-center gap-2 bg-primary-600 text-white px-6 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              <UserPlus className="w-5 h-5" />
+              Add Profile
+            </button>
+          </form>
+          {nameTaken(newName) && <p className="mt-2 text-sm text-red-600">A profile with this name already exists.</p>}
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+          <p className="mt-4 text-xs text-gray-500">
+            Backups can be restored into the active profile from the Data page. The active profile and the original one cannot be deleted.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Copy Remedies</h2>
+          <p className="text-gray-600 mb-6">
+            Share remedies from {activeName ?? 'this profile'} with someone else, including their dose schedules. Uses and feedback are not copied.
+          </p>
+          {otherProfiles.length === 0 ? (
+            <p className="text-sm text-gray-500">Add another profile to copy remedies to it.</p>
+          ) : remedies.length === 0 ? (
+            <p className="text-sm text-gray-500">This profile has no remedies yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-6">
+                {remedies.map(remedy => (
+                  <label key={remedy.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedRemedies.includes(remedy.id)}
+                      onChange={() => toggleRemedy(remedy.id)}
+                      className="rounded"
+                    />
+                    {remedy.name}
+                    <span className="text-gray-400 capitalize">{remedy.type}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  <option value="">Copy to…</option>
+                  {otherProfiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleCopy}
+                  disabled={!target || selectedRemedies.length === 0}
+                  className="flex items-center gap-2 bg-primary-600 text-white px-6 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+                >
+                  <Copy className="w-5 h-5" />
+                  Copy {selectedRemedies.length > 0 ? selectedRemedies.length : ''} Selected
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-gray-500">Copying a remedy again replaces the earlier copy.</p>
+            </>
+          )}
+          {message && <p className="mt-4 text-sm text-green-700">{message}</p>}
+          {copyError && <p className="mt-4 text-sm text-red-600">{copyError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,43 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Plus, ThumbsUp, ThumbsDown, Pill, Leaf, Heart, Apple } from 'lucide-react';
-import { saveRemedy, getRemedies, updateRemedyEffectiveness, type Remedy } from '@/lib/storage';
+import { Plus, ThumbsUp, ThumbsDown, Pill, Leaf, Heart, Apple, PlusCircle, History, EyeOff } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import RemedyUsageForm from '@/components/RemedyUsageForm';
+import RemedyTimeline from '@/components/RemedyTimeline';
+import {
+  saveRemedy,
+  getRemedies,
+  getConditions,
+  getNutritionEntries,
+  getRemedyOutcomes,
+  recordRemedyOutcome,
+  getRemedyUsages,
+  recordFollowUp,
+  deleteRemedyUsage,
+  getSuggestionDismissals,
+  restoreSuggestion,
+  type NutritionEntry,
+  type Remedy,
+  type RemedyOutcome,
+  type RemedyUsage,
+} from '@/lib/storage';
+import { builtinConditions, type ConditionDefinition } from '@/lib/conditions';
+import { compareByLowerBound, scoreByCondition, scoreRemedies, MIN_TRIALS } from '@/lib/remedies';
+import { describeSchedule } from '@/lib/schedules';
+import type { SuggestionDismissal } from '@/lib/recommendations';
+
+const percent = (value: number) => Math.round(value * 100);
 
 export default function RemediesPage() {
   const [remedies, setRemedies] = useState<Remedy[]>([]);
+  const [outcomes, setOutcomes] = useState<RemedyOutcome[]>([]);
+  const [usages, setUsages] = useState<RemedyUsage[]>([]);
+  const [entries, setEntries] = useState<NutritionEntry[]>([]);
+  const [dismissals, setDismissals] = useState<SuggestionDismissal[]>([]);
+  const [loggingRemedy, setLoggingRemedy] = useState<Remedy | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [conditions, setConditions] = useState<ConditionDefinition[]>(builtinConditions);
   const [showForm, setShowForm] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -16,23 +48,26 @@ export default function RemediesPage() {
   const [sortBy, setSortBy] = useState<'effectiveness' | 'usage'>('effectiveness');
 
   useEffect(() => {
-    setRemedies(getRemedies());
+    getRemedies().then(setRemedies);
+    getRemedyOutcomes().then(setOutcomes);
+    getRemedyUsages().then(setUsages);
+    getNutritionEntries().then(setEntries);
+    getConditions().then(setConditions);
+    getSuggestionDismissals().then(setDismissals);
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     const remedy: Remedy = {
       id: Date.now().toString(),
       name: formData.name,
       type: formData.type,
-      effectiveness: 50,
-      usageCount: 0,
       conditions: formData.conditions,
       notes: formData.notes,
     };
 
-    saveRemedy(remedy);
+    await saveRemedy(remedy);
     setRemedies([...remedies, remedy]);
     setShowForm(false);
     setFormData({
@@ -43,9 +78,24 @@ export default function RemediesPage() {
     });
   };
 
-  const handleEffectivenessFeedback = (id: string, effective: boolean) => {
-    updateRemedyEffectiveness(id, effective);
-    setRemedies(getRemedies());
+  const handleEffectivenessFeedback = async (id: string, effective: boolean) => {
+    await recordRemedyOutcome(id, effective);
+    setOutcomes(await getRemedyOutcomes());
+  };
+
+  const handleFollowUp = async (usageId: string, severityAfter: number) => {
+    await recordFollowUp(usageId, severityAfter);
+    setUsages(await getRemedyUsages());
+  };
+
+  const handleDeleteUsage = async (usageId: string) => {
+    await deleteRemedyUsage(usageId);
+    setUsages(await getRemedyUsages());
+  };
+
+  const handleRestoreSuggestion = async ({ remedyId, condition }: SuggestionDismissal) => {
+    await restoreSuggestion(remedyId, condition);
+    setDismissals(await getSuggestionDismissals());
   };
 
   const toggleCondition = (condition: string) => {
@@ -77,15 +127,22 @@ export default function RemediesPage() {
     }
   };
 
+  const scores = scoreRemedies(remedies, outcomes, usages);
   const sortedRemedies = [...remedies].sort((a, b) => {
     if (sortBy === 'effectiveness') {
-      return b.effectiveness - a.effectiveness;
+      return compareByLowerBound(scores[a.id], scores[b.id]);
     } else {
-      return b.usageCount - a.usageCount;
+      return scores[b.id].trials - scores[a.id].trials;
     }
   });
-
-  const conditionOptions = ['Acid Reflux', 'Migraine', 'IBS', 'Skin Issues'];
+  const recommended = sortedRemedies.filter(remedy => scores[remedy.id].enoughData);
+  // Expired snoozes and dismissals of deleted remedies no longer hide anything
+  const now = new Date();
+  const hiddenSuggestions = dismissals.flatMap(dismissal => {
+    const remedy = remedies.find(r => r.id === dismissal.remedyId);
+    if (!remedy || (dismissal.until && parseISO(dismissal.until) <= now)) return [];
+    return [{ dismissal, remedy }];
+  });
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -146,18 +203,18 @@ export default function RemediesPage() {
                   Conditions Treated
                 </label>
                 <div className="flex flex-wrap gap-3">
-                  {conditionOptions.map((condition) => (
+                  {conditions.map(({ id, name }) => (
                     <button
-                      key={condition}
+                      key={id}
                       type="button"
-                      onClick={() => toggleCondition(condition)}
+                      onClick={() => toggleCondition(name)}
                       className={`px-4 py-2 rounded-lg border-2 transition-colors ${
-                        formData.conditions.includes(condition)
+                        formData.conditions.includes(name)
                           ? 'bg-primary-100 border-primary-500 text-primary-700'
                           : 'bg-white border-gray-300 text-gray-700 hover:border-primary-300'
                       }`}
                     >
-                      {condition}
+                      {name}
                     </button>
                   ))}
                 </div>
@@ -228,86 +285,212 @@ export default function RemediesPage() {
               <p className="text-gray-500">No remedies tracked yet. Add your first remedy to get started!</p>
             </div>
           ) : (
-            sortedRemedies.map((remedy) => (
-              <div key={remedy.id} className="bg-white rounded-xl shadow-lg p-6">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <div className={`p-2 rounded-lg ${
-                      remedy.type === 'medication' ? 'bg-blue-100 text-blue-600' :
-                      remedy.type === 'supplement' ? 'bg-green-100 text-green-600' :
-                      remedy.type === 'lifestyle' ? 'bg-purple-100 text-purple-600' :
-                      'bg-orange-100 text-orange-600'
-                    }`}>
-                      {getTypeIcon(remedy.type)}
-                    </div>
-                    <div>
-                      <h3 className="text-lg font-semibold text-gray-900">{remedy.name}</h3>
-                      <p className="text-sm text-gray-500 capitalize">{remedy.type}</p>
+            sortedRemedies.map((remedy) => {
+              const score = scores[remedy.id];
+              const byCondition = scoreByCondition(remedy, usages);
+              return (
+                <div key={remedy.id} className="bg-white rounded-xl shadow-lg p-6">
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex items-center gap-3">
+                      <div className={`p-2 rounded-lg ${
+                        remedy.type === 'medication' ? 'bg-blue-100 text-blue-600' :
+                        remedy.type === 'supplement' ? 'bg-green-100 text-green-600' :
+                        remedy.type === 'lifestyle' ? 'bg-purple-100 text-purple-600' :
+                        'bg-orange-100 text-orange-600'
+                      }`}>
+                        {getTypeIcon(remedy.type)}
+                      </div>
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900">{remedy.name}</h3>
+                        <p className="text-sm text-gray-500 capitalize">{remedy.type}</p>
+                      </div>
                     </div>
+                    {score.enoughData ? (
+                      <div className="text-right">
+                        <div className="text-2xl font-bold text-primary-600">{percent(score.effectiveness.value)}%</div>
+                        <div className="text-xs text-gray-500">
+                          effectiveness ({percent(score.effectiveness.low)}–{percent(score.effectiveness.high)}%)
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="text-right">
+                        <div className="text-sm font-semibold text-gray-500">Not enough data</div>
+                        <div className="text-xs text-gray-500">{score.trials} of {MIN_TRIALS} responses</div>
+                      </div>
+                    )}
                   </div>
-                  <div className="text-right">
-                    <div className="text-2xl font-bold text-primary-600">{remedy.effectiveness}%</div>
-                    <div className="text-xs text-gray-500">effectiveness</div>
-                  </div>
-                </div>
 
-                <div className="mb-4">
-                  <div className="flex flex-wrap gap-2 mb-2">
-                    {remedy.conditions.map((condition) => (
-                      <span
-                        key={condition}
-                        className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full"
-                      >
-                        {condition}
-                      </span>
-                    ))}
+                  <div className="mb-4">
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {remedy.conditions.map((condition) => (
+                        <span
+                          key={condition}
+                          className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full"
+                        >
+                          {condition}
+                        </span>
+                      ))}
+                    </div>
+                    {score.enoughData && (
+                      <div className="relative h-2 bg-gray-100 rounded-full mb-2" title="95% credible interval">
+                        <div
+                          className="absolute h-2 bg-primary-200 rounded-full"
+                          style={{
+                            left: `${percent(score.effectiveness.low)}%`,
+                            width: `${percent(score.effectiveness.high) - percent(score.effectiveness.low)}%`,
+                          }}
+                        />
+                        <div
+                          className="absolute w-1 h-2 bg-primary-600 rounded-full"
+                          style={{ left: `${percent(score.effectiveness.value)}%` }}
+                        />
+                      </div>
+                    )}
+                    <div className="text-sm text-gray-600">
+                      Helped {score.helped} of {score.trials} time{score.trials !== 1 ? 's' : ''}
+                    </div>
                   </div>
-                  <div className="text-sm text-gray-600">
-                    Used {remedy.usageCount} time{remedy.usageCount !== 1 ? 's' : ''}
+
+                  {byCondition.length > 0 && (
+                    <table className="w-full text-sm mb-4">
+                      <tbody>
+                        {byCondition.map(c => (
+                          <tr key={c.condition} className="border-t border-gray-100">
+                            <td className="py-1 pr-2 text-gray-700">{c.condition}</td>
+                            <td className="py-1 pr-2 text-gray-900">
+                              {c.enoughData
+                                ? `${percent(c.effectiveness.value)}% (${percent(c.effectiveness.low)}–${percent(c.effectiveness.high)}%)`
+                                : <span className="text-gray-500">Not enough data</span>}
+                            </td>
+                            <td className="py-1 text-right text-gray-600">
+                              {c.averageImprovement >= 0 ? '−' : '+'}{Math.abs(c.averageImprovement).toFixed(1)} severity · {c.trials} use{c.trials !== 1 ? 's' : ''}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {remedy.notes && (
+                    <p className="text-sm text-gray-600 mb-4 italic">{remedy.notes}</p>
+                  )}
+
+                  {remedy.schedule && (
+                    <p className="text-sm text-gray-600 mb-4">Scheduled: {describeSchedule(remedy.schedule)}</p>
+                  )}
+
+                  <div className="flex gap-3 pt-4 border-t border-gray-200">
+                    <button
+                      onClick={() => handleEffectivenessFeedback(remedy.id, true)}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors"
+                    >
+                      <ThumbsUp className="w-4 h-4" />
+                      Helped
+                    </button>
+                    <button
+                      onClick={() => handleEffectivenessFeedback(remedy.id, false)}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 transition-colors"
+                    >
+                      <ThumbsDown className="w-4 h-4" />
+                      Didn't Help
+                    </button>
                   </div>
-                </div>
 
-                {remedy.notes && (
-                  <p className="text-sm text-gray-600 mb-4 italic">{remedy.notes}</p>
-                )}
+                  <div className="flex gap-3 mt-3">
+                    <button
+                      onClick={() => setLoggingRemedy(remedy)}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-primary-50 text-primary-700 rounded-lg hover:bg-primary-100 transition-colors"
+                    >
+                      <PlusCircle className="w-4 h-4" />
+                      Log Use
+                    </button>
+                    <button
+                      onClick={() => setHistoryId(historyId === remedy.id ? null : remedy.id)}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <History className="w-4 h-4" />
+                      {historyId === remedy.id ? 'Hide History' : 'History'}
+                    </button>
+                  </div>
 
-                <div className="flex gap-3 pt-4 border-t border-gray-200">
-                  <button
-                    onClick={() => handleEffectivenessFeedback(remedy.id, true)}
-                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-50 text-green-700 rounded-lg hover:bg-green-100 transition-colors"
-                  >
-                    <ThumbsUp className="w-4 h-4" />
-                    Helped
-                  </button>
-                  <button
-                    onClick={() => handleEffectivenessFeedback(remedy.id, false)}
-                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 transition-colors"
-                  >
-                    <ThumbsDown className="w-4 h-4" />
-                    Didn't Help
-                  </button>
+                  {historyId === remedy.id && (
+                    <div className="mt-4 pt-4 border-t border-gray-200">
+                      <RemedyTimeline
+                        usages={usages.filter(u => u.remedyId === remedy.id)}
+                        outcomes={outcomes.filter(o => o.remedyId === remedy.id)}
+                        entries={entries}
+                        onFollowUp={handleFollowUp}
+                        onDelete={handleDeleteUsage}
+                      />
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
 
         {/* Insights */}
-        {sortedRemedies.length > 0 && (
+        {recommended.length > 0 && (
           <div className="mt-8 bg-gradient-to-r from-green-50 to-blue-50 rounded-xl shadow-lg p-8">
-            <h2 className="text-2xl font-bold text-gray-900 mb-4">Top Recommendations</h2>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Top Recommendations</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Ranked by the effectiveness each remedy reaches with 97.5% certainty, so a long track record beats a few lucky uses.
+            </p>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              {sortedRemedies.slice(0, 3).map((remedy, idx) => (
+              {recommended.slice(0, 3).map((remedy, idx) => (
                 <div key={remedy.id} className="bg-white rounded-lg p-4">
                   <div className="text-3xl font-bold text-primary-600 mb-1">#{idx + 1}</div>
                   <div className="font-semibold text-gray-900 mb-1">{remedy.name}</div>
-                  <div className="text-sm text-gray-600">{remedy.effectiveness}% effective</div>
+                  <div className="text-sm text-gray-600">At least {percent(scores[remedy.id].effectiveness.low)}% effective</div>
                 </div>
               ))}
             </div>
           </div>
         )}
+
+        {/* Hidden Suggestions */}
+        {hiddenSuggestions.length > 0 && (
+          <div className="mt-8 bg-white rounded-xl shadow-lg p-8">
+            <div className="flex items-center gap-2 mb-2">
+              <EyeOff className="w-6 h-6 text-gray-500" />
+              <h2 className="text-2xl font-bold text-gray-900">Hidden Suggestions</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Remedies you dismissed or snoozed on the dashboard. Restore one to have it suggested again.
+            </p>
+            <ul className="divide-y divide-gray-100">
+              {hiddenSuggestions.map(({ dismissal, remedy }) => (
+                <li key={dismissal.id} className="flex items-center justify-between gap-4 py-3">
+                  <div>
+                    <span className="font-medium text-gray-900">{remedy.name}</span>
+                    <span className="text-gray-600"> for {dismissal.condition}</span>
+                    <span className="block text-sm text-gray-500">
+                      {dismissal.until ? `Snoozed until ${format(parseISO(dismissal.until), 'PPp')}` : 'Hidden for good'}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => handleRestoreSuggestion(dismissal)}
+                    className="flex-shrink-0 px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
+
+      {loggingRemedy && (
+        <RemedyUsageForm
+          remedy={loggingRemedy}
+          conditions={conditions}
+          entries={entries}
+          onSaved={async () => setUsages(await getRemedyUsages())}
+          onClose={() => setLoggingRemedy(null)}
+        />
+      )}
     </div>
   );
 }
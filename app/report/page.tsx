@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FileText, Printer, Download } from 'lucide-react';
+import { format, isValid, parseISO, subDays } from 'date-fns';
+import {
+  getConditions,
+  getDailyLogs,
+  getExerciseEntries,
+  getNutritionEntries,
+  getRemedies,
+  getRemedyOutcomes,
+  getRemedyUsages,
+  getSleepRecords,
+} from '@/lib/storage';
+import { buildClinicianReport, type ReportData } from '@/lib/report';
+import { downloadReportPdf } from '@/lib/reportPdf';
+
+const emptyData: ReportData = {
+  nutrition: [],
+  exercise: [],
+  dailyLogs: [],
+  sleep: [],
+  remedies: [],
+  outcomes: [],
+  usages: [],
+  conditions: [],
+};
+
+const one = (value?: number) => (value === undefined ? '—' : value.toFixed(1));
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+// Date inputs give '' while cleared or half typed
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+export default function ReportPage() {
+  const [data, setData] = useState<ReportData>(emptyData);
+  const [from, setFrom] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  useEffect(() => {
+    const load = async () => {
+      setData({
+        nutrition: await getNutritionEntries(),
+        exercise: await getExerciseEntries(),
+        dailyLogs: await getDailyLogs(),
+        sleep: await getSleepRecords(),
+        remedies: await getRemedies(),
+        outcomes: await getRemedyOutcomes(),
+        usages: await getRemedyUsages(),
+        conditions: await getConditions(),
+      });
+    };
+    load();
+  }, []);
+
+  const bothDates = isDate(from) && isDate(to);
+  const validRange = bothDates && from <= to;
+  // While the range is invalid the report covers a single day that is valid
+  const start = isDate(from) ? from : isDate(to) ? to : format(new Date(), 'yyyy-MM-dd');
+  const report = buildClinicianReport(start, validRange ? to : start, data);
+  const { lifestyle, exercise } = report;
+
+  const section = 'bg-white rounded-xl shadow-lg p-8 mb-8 print:shadow-none print:p-0 print:mb-6 print:break-inside-avoid';
+  const cell = 'py-2 pr-4';
+
+  return (
+    <div className="container mx-auto px-4 py-8 print:p-0">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8 print:hidden">
+          <div className="flex items-center gap-3 mb-4">
+            <FileText className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Clinician Report</h1>
+          </div>
+          <p className="text-gray-600">
+            A summary of your symptoms, suspected triggers, lifestyle and remedies to bring to an appointment.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8 flex flex-wrap items-end gap-4 print:hidden">
+          <label className="text-sm font-medium text-gray-700">
+            From
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="mt-1 block px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            To
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="mt-1 block px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </label>
+          <div className="flex gap-3 ml-auto">
+            <button
+              onClick={() => window.print()}
+              disabled={!validRange}
+              className="flex items-center gap-2 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              <Printer className="w-5 h-5" />
+              Print
+            </button>
+            <button
+              onClick={() => downloadReportPdf(report)}
+              disabled={!validRange}
+              className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-5 h-5" />
+              Download PDF
+            </button>
+          </div>
+          {!validRange && (
+            <p className="w-full text-sm text-red-600">
+              {bothDates ? 'The start date must be on or before the end date.' : 'Enter both a start and an end date.'}
+            </p>
+          )}
+        </div>
+
+        {/* Report header */}
+        <div className={section}>
+          <h2 className="text-3xl font-bold text-gray-900">Health Report</h2>
+          <p className="text-lg text-gray-700">
+            {format(parseISO(report.from), 'MMM d, yyyy')} – {format(parseISO(report.to), 'MMM d, yyyy')}
+          </p>
+          <p className="text-sm text-gray-500">
+            {report.meals} meals logged on {report.loggedDays} of {report.days} days · generated {format(new Date(), 'PPP')}
+          </p>
+        </div>
+
+        <div className={section}>
+          <h3 className="text-2xl font-bold text-gray-900 mb-4">Symptoms by Condition</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-700 border-b border-gray-200">
+                <th className={cell}>Condition</th>
+                <th className={cell}>Days</th>
+                <th className={cell}>Frequency</th>
+                <th className={cell}>Avg severity</th>
+                <th className={cell}>Max</th>
+                <th className="py-2">Most reported symptoms</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.conditions.map(summary => (
+                <tr key={summary.condition} className="border-b border-gray-100">
+                  <td className={`${cell} font-medium text-gray-900`}>{summary.condition}</td>
+                  <td className={cell}>{summary.symptomDays}</td>
+                  <td className={cell}>
+                    <div className="flex items-center gap-2">
+                      <div className="w-20 h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full" style={{ width: percent(summary.frequency), backgroundColor: summary.color }} />
+                      </div>
+                      <span className="text-gray-600">{percent(summary.frequency)}</span>
+                    </div>
+                  </td>
+                  <td className={cell}>{summary.episodes ? one(summary.meanSeverity) : '—'}</td>
+                  <td className={cell}>{summary.episodes ? summary.maxSeverity : '—'}</td>
+                  <td className="py-2 text-gray-600">
+                    {summary.topSymptoms.map(({ symptom, count }) => `${symptom} (${count})`).join(', ') || 'None'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className={section}>
+          <h3 className="text-2xl font-bold text-gray-900 mb-4">Suspected Triggers</h3>
+          {report.triggers.length === 0 ? (
+            <p className="text-gray-500">No food was linked to symptoms often enough in this period.</p>
+          ) : (
+            <>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-700 border-b border-gray-200">
+                    <th className={cell}>Food</th>
+                    <th className={cell}>Condition</th>
+                    <th className={cell}>Eaten</th>
+                    <th className={cell}>With symptoms</th>
+                    <th className="py-2">Lift</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.triggers.map(trigger => (
+                    <tr key={`${trigger.condition}-${trigger.food}`} className="border-b border-gray-100">
+                      <td className={`${cell} font-medium text-gray-900 capitalize`}>{trigger.food}</td>
+                      <td className={cell}>{trigger.condition}</td>
+                      <td className={cell}>{trigger.occurrences}</td>
+                      <td className={cell}>{trigger.matches} ({percent(trigger.confidence)})</td>
+                      <td className="py-2">{trigger.lift.toFixed(1)}×</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-gray-500">
+                Lift compares symptom rates after the food with the overall rate; above 1 means symptoms were more likely.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className={section}>
+          <h3 className="text-2xl font-bold text-gray-900 mb-4">Sleep, Stress and Exercise</h3>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm">
+            <dt className="text-gray-600">Check-ins</dt>
+            <dd className="text-gray-900">{lifestyle.checkInDays} days</dd>
+            <dt className="text-gray-600">Average sleep (check-ins)</dt>
+            <dd className="text-gray-900">{lifestyle.averageSleep === undefined ? '—' : `${one(lifestyle.averageSleep)} h`}</dd>
+            <dt className="text-gray-600">Average sleep (wearable)</dt>
+            <dd className="text-gray-900">
+              {lifestyle.wearableNights ? `${one(lifestyle.averageWearableSleep)} h over ${lifestyle.wearableNights} nights` : '—'}
+            </dd>
+            <dt className="text-gray-600">Average stress (1-10)</dt>
+            <dd className="text-gray-900">{one(lifestyle.averageStress)}</dd>
+            <dt className="text-gray-600">Days with caffeine</dt>
+            <dd className="text-gray-900">{lifestyle.checkInDays ? `${lifestyle.caffeineDays} of ${lifestyle.checkInDays}` : '—'}</dd>
+            <dt className="text-gray-600">Exercise sessions</dt>
+            <dd className="text-gray-900">
+              {exercise.sessions} ({exercise.byIntensity.low} low, {exercise.byIntensity.medium} medium, {exercise.byIntensity.high} high)
+            </dd>
+            <dt className="text-gray-600">Exercise volume</dt>
+            <dd className="text-gray-900">{exercise.totalMinutes} min total, {Math.round(exercise.minutesPerWeek)} min/week</dd>
+            <dt className="text-gray-600">Main activities</dt>
+            <dd className="text-gray-900">
+              {exercise.topTypes.map(type => `${type.type} (${type.minutes} min)`).join(', ') || '—'}
+            </dd>
+          </dl>
+        </div>
+
+        <div className={section}>
+          <h3 className="text-2xl font-bold text-gray-900 mb-4">Remedies</h3>
+          {report.remedies.length === 0 ? (
+            <p className="text-gray-500">No remedies recorded.</p>
+          ) : (
+            <>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-700 border-b border-gray-200">
+                    <th className={cell}>Remedy</th>
+                    <th className={cell}>Type</th>
+                    <th className={cell}>Effectiveness (95% CrI)</th>
+                    <th className={cell}>Responses</th>
+                    <th className={cell}>Uses in range</th>
+                    <th className="py-2">Avg drop</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.remedies.map(({ remedy, score, usesInRange, averageImprovement }) => (
+                    <tr key={remedy.id} className="border-b border-gray-100">
+                      <td className={`${cell} font-medium text-gray-900`}>{remedy.name}</td>
+                      <td className={`${cell} capitalize`}>{remedy.type}</td>
+                      <td className={cell}>
+                        {score.trials
+                          ? `${percent(score.effectiveness.value)} (${percent(score.effectiveness.low)}–${percent(score.effectiveness.high)})`
+                          : 'No responses'}
+                      </td>
+                      <td className={cell}>{score.trials}</td>
+                      <td className={cell}>{usesInRange}</td>
+                      <td className="py-2">{averageImprovement === undefined ? '—' : one(averageImprovement)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-gray-500">
+                Effectiveness is the estimated chance that a use helps, from all recorded responses. Avg drop is the mean fall in severity (1-10) after uses in this period.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
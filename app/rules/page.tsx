@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { SlidersHorizontal, Save, RotateCcw, AlertTriangle } from 'lucide-react';
+import PredictionCard from '@/components/PredictionCard';
+import { calculatePredictions, type DailyData } from '@/lib/predictions';
+import { trainPersonalModel, type PersonalModel } from '@/lib/model';
+import { builtinConditions, type ConditionDefinition } from '@/lib/conditions';
+import { formatRules, parseRules, type RuleSet } from '@/lib/ruleLanguage';
+import {
+  getConditions,
+  getRuleSets,
+  saveRuleSet,
+  deleteRuleSet,
+  getNutritionEntries,
+  getExerciseEntries,
+  dailyInputs,
+  toDateKey,
+} from '@/lib/storage';
+
+export default function RulesPage() {
+  const [conditions, setConditions] = useState<ConditionDefinition[]>(builtinConditions);
+  const [ruleSets, setRuleSets] = useState<RuleSet[]>([]);
+  const [selectedId, setSelectedId] = useState(builtinConditions[0].id);
+  const [source, setSource] = useState('');
+  const [today, setToday] = useState<DailyData | null>(null);
+  const [model, setModel] = useState<PersonalModel | undefined>();
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      const conditions = await getConditions();
+      setConditions(conditions);
+      setRuleSets(await getRuleSets());
+      setModel(trainPersonalModel(await getNutritionEntries(), await getExerciseEntries(), conditions));
+
+      const date = toDateKey(new Date());
+      setToday(await dailyInputs(date));
+
+      // Links from the conditions page preselect a condition
+      const requested = new URLSearchParams(window.location.search).get('condition');
+      if (requested && conditions.some(c => c.id === requested)) setSelectedId(requested);
+    };
+
+    load();
+  }, []);
+
+  const condition = conditions.find(c => c.id === selectedId) ?? conditions[0];
+  const ruleSet = ruleSets.find(r => r.id === condition.id);
+  const savedSource = ruleSet?.source ?? formatRules(condition.rules);
+
+  useEffect(() => {
+    setSource(savedSource);
+  }, [savedSource]);
+
+  const { rules, errors } = parseRules(source);
+  const changed = source !== savedSource;
+
+  const handleSave = async () => {
+    await saveRuleSet(condition.id, source);
+    setRuleSets(await getRuleSets());
+    setConditions(await getConditions());
+    setMessage('Rules saved. Predictions now use them.');
+  };
+
+  const handleReset = async () => {
+    if (!confirm(`Restore the default rules for ${condition.name}?`)) return;
+    await deleteRuleSet(condition.id);
+    setRuleSets(await getRuleSets());
+    setConditions(await getConditions());
+    setMessage('Default rules restored.');
+  };
+
+  const [current] = today ? calculatePredictions(today, model, [condition]) : [];
+  const [preview] = today && errors.length === 0 ? calculatePredictions(today, model, [{ ...condition, rules }]) : [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <SlidersHorizontal className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Prediction Rules</h1>
+          </div>
+          <p className="text-gray-600">
+            Adjust the rules behind each condition&apos;s risk estimate to match your own triggers.
+            Manage the conditions themselves on the <Link href="/conditions" className="text-primary-600 hover:underline">Conditions</Link> page.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-lg p-8">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <select
+                value={condition.id}
+                onChange={(e) => {
+                  setSelectedId(e.target.value);
+                  setMessage('');
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {conditions.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              {ruleSet && (
+                <span className="text-sm text-gray-500">Edited {new Date(ruleSet.updatedAt).toLocaleDateString()}</span>
+              )}
+            </div>
+
+            <textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="w-full h-64 px-4 py-3 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              spellCheck={false}
+            />
+
+            {errors.length > 0 && (
+              <ul className="mt-3 space-y-1 text-sm text-red-700">
+                {errors.map((error, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    Line {error.line}, column {error.column}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {message && <p className="mt-3 text-sm text-green-700">{message}</p>}
+
+            <div className="flex gap-4 mt-6">
+              <button
+                onClick={handleSave}
+                disabled={!changed || errors.length > 0}
+                className="flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-5 h-5" />
+                Save Rules
+              </button>
+              {ruleSet && (
+                <button
+                  onClick={handleReset}
+                  className="flex items-center gap-2 bg-gray-200 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  <RotateCcw className="w-5 h-5" />
+                  Restore Defaults
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-lg font-bold text-gray-900 mb-4">Today&apos;s Prediction</h2>
+              {current && (
+                <div className="space-y-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-500 mb-2">Saved rules</p>
+                    <PredictionCard prediction={current} />
+                  </div>
+                  {changed && (
+                    <div>
+                      <p className="text-sm font-medium text-gray-500 mb-2">With your edits</p>
+                      {preview ? (
+                        <PredictionCard prediction={preview} />
+                      ) : (
+                        <p className="text-sm text-gray-500">Fix the errors to see a preview.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-lg p-6 text-sm text-gray-700">
+              <h2 className="text-lg font-bold text-gray-900 mb-3">Syntax</h2>
+              <p className="mb-2">One rule per line: conditions, <code>=&gt;</code>, points added to the {condition.baseline}% baseline and an optional label.</p>
+              <pre className="bg-gray-50 rounded-lg p-3 mb-3 overflow-x-auto text-xs">{`caffeine && sleep < 6 => +30 "Coffee + short sleep"
+stress > 7 => +20 "High stress"
+sleep < 7 || sleep > 9 => +25 "Irregular sleep"
+exercise => -10 "Exercise (protective)"
+# comments start with #`}</pre>
+              <ul className="space-y-1">
+                <li>• Factors: <code>sleep</code>, <code>stress</code> (numbers) and <code>caffeine</code>, <code>exercise</code> (yes/no; negate with <code>!</code>)</li>
+                <li>• Comparisons: <code>&lt; &lt;= &gt; &gt;= ==</code></li>
+                <li>• Add <code>[name]</code> to rules that should not stack; only the first matching rule in a group counts</li>
+              </ul>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import TimelineEventList from '@/components/TimelineEventList';
+import {
+  getDoseRecords,
+  getExerciseEntries,
+  getNutritionEntries,
+  getRemedies,
+  getRemedyOutcomes,
+  getRemedyUsages,
+  toDateKey,
+} from '@/lib/storage';
+import { buildTimeline, groupByDay, type TimelineDay, type TimelineEvent } from '@/lib/timeline';
+
+type View = 'day' | 'week' | 'month';
+
+const views: { view: View; label: string }[] = [
+  { view: 'day', label: 'Day' },
+  { view: 'week', label: 'Week' },
+  { view: 'month', label: 'Month' },
+];
+
+// Background and text classes for a day by its highest symptom severity
+function severityClasses(day: TimelineDay | undefined) {
+  if (!day) return 'bg-white text-gray-400';
+  if (day.severity === 0) return 'bg-green-50 text-green-900';
+  if (day.severity <= 3) return 'bg-yellow-100 text-yellow-900';
+  if (day.severity <= 6) return 'bg-orange-200 text-orange-900';
+  return 'bg-red-300 text-red-950';
+}
+
+const legend = [
+  { label: 'Nothing logged', className: 'bg-white border border-gray-200' },
+  { label: 'No symptoms', className: 'bg-green-50 border border-green-200' },
+  { label: 'Mild (1-3)', className: 'bg-yellow-100' },
+  { label: 'Moderate (4-6)', className: 'bg-orange-200' },
+  { label: 'Severe (7-10)', className: 'bg-red-300' },
+];
+
+function eventSummary(event: TimelineEvent) {
+  switch (event.kind) {
+    case 'meal':
+      return event.entry.symptoms.length > 0 ? `${event.entry.meal}: ${event.entry.symptoms.join(', ')}` : event.entry.meal;
+    case 'exercise':
+      return `${event.entry.type} ${event.entry.duration} min`;
+    case 'remedy-use':
+      return event.remedy?.name ?? 'Remedy';
+    case 'remedy-outcome':
+      return `${event.remedy?.name ?? 'Remedy'} ${event.outcome.helped ? 'helped' : 'did not help'}`;
+    case 'dose':
+      return `${event.remedy?.name ?? 'Dose'} ${event.record.status}`;
+  }
+}
+
+export default function TimelinePage() {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [view, setView] = useState<View>('month');
+  const [cursor, setCursor] = useState(new Date());
+
+  useEffect(() => {
+    const load = async () => {
+      setEvents(buildTimeline({
+        nutrition: await getNutritionEntries(),
+        exercise: await getExerciseEntries(),
+        remedies: await getRemedies(),
+        usages: await getRemedyUsages(),
+        outcomes: await getRemedyOutcomes(),
+        doses: await getDoseRecords(),
+      }));
+    };
+    load();
+  }, []);
+
+  const days = groupByDay(events);
+  const selected = days.get(toDateKey(cursor));
+
+  const move = (direction: 1 | -1) => {
+    if (view === 'day') setCursor(addDays(cursor, direction));
+    else if (view === 'week') setCursor(addWeeks(cursor, direction));
+    else setCursor(addMonths(cursor, direction));
+  };
+
+  const weekStart = startOfWeek(cursor);
+  const title =
+    view === 'day'
+      ? format(cursor, 'EEEE, MMMM d, yyyy')
+      : view === 'week'
+      ? `${format(weekStart, 'MMM d')} – ${format(endOfWeek(cursor), 'MMM d, yyyy')}`
+      : format(cursor, 'MMMM yyyy');
+
+  const monthDays = eachDayOfInterval({ start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) });
+  const weekDays = eachDayOfInterval({ start: weekStart, end: endOfWeek(cursor) });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <CalendarDays className="w-10 h-10 text-primary-600" />
+            <h1 className="text-4xl font-bold text-gray-900">Timeline</h1>
+          </div>
+          <p className="text-gray-600">
+            Meals, workouts and remedies together, so you can see everything that happened around a bad day.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => move(-1)}
+                className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+                aria-label="Previous"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setCursor(new Date())}
+                className="px-3 py-1 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Today
+              </button>
+              <button
+                onClick={() => move(1)}
+                className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+                aria-label="Next"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+              <h2 className="text-xl font-bold text-gray-900 ml-2">{title}</h2>
+            </div>
+            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+              {views.map(option => (
+                <button
+                  key={option.view}
+                  onClick={() => setView(option.view)}
+                  className={`px-4 py-1 rounded-md text-sm transition-colors ${
+                    view === option.view ? 'bg-white shadow text-primary-700 font-medium' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {view === 'month' && (
+            <div className="grid grid-cols-7 gap-1">
+              {weekDays.map(day => (
+                <div key={day.toISOString()} className="text-center text-xs font-medium text-gray-500 pb-1">
+                  {format(day, 'EEE')}
+                </div>
+              ))}
+              {monthDays.map(date => {
+                const day = days.get(toDateKey(date));
+                const meals = day?.events.filter(event => event.kind === 'meal').length ?? 0;
+                const others = (day?.events.length ?? 0) - meals;
+                return (
+                  <button
+                    key={date.toISOString()}
+                    onClick={() => setCursor(date)}
+                    className={`h-20 p-2 rounded-lg text-left transition-shadow hover:shadow-md ${severityClasses(day)} ${
+                      isSameMonth(date, cursor) ? '' : 'opacity-40'
+                    } ${isSameDay(date, cursor) ? 'ring-2 ring-primary-500' : 'border border-gray-100'}`}
+                  >
+                    <div className="text-sm font-semibold">{format(date, 'd')}</div>
+                    {day && (
+                      <div className="text-xs mt-1 space-y-0.5">
+                        {meals > 0 && <div>{meals} {meals === 1 ? 'meal' : 'meals'}</div>}
+                        {others > 0 && <div>{others} other</div>}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {view === 'week' && (
+            <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+              {weekDays.map(date => {
+                const day = days.get(toDateKey(date));
+                return (
+                  <button
+                    key={date.toISOString()}
+                    onClick={() => setCursor(date)}
+                    className={`min-h-40 p-2 rounded-lg text-left align-top transition-shadow hover:shadow-md ${severityClasses(day)} ${
+                      isSameDay(date, cursor) ? 'ring-2 ring-primary-500' : 'border border-gray-100'
+                    }`}
+                  >
+                    <div className="text-sm font-semibold mb-2">{format(date, 'EEE d')}</div>
+                    <ul className="space-y-1 text-xs">
+                      {day?.events.map(event => (
+                        <li key={event.id} className="truncate capitalize">
+                          <span className="font-mono">{format(event.time, 'HH:mm')}</span> {eventSummary(event)}
+                        </li>
+                      ))}
+                    </ul>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {view === 'day' && <TimelineEventList events={selected?.events ?? []} />}
+
+          <div className="flex flex-wrap gap-4 mt-6 text-xs text-gray-600">
+            {legend.map(item => (
+              <div key={item.label} className="flex items-center gap-1">
+                <span className={`w-3 h-3 rounded ${item.className}`} />
+                {item.label}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {view !== 'day' && (
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <div className="flex items-baseline justify-between mb-4">
+              <h3 className="text-xl font-bold text-gray-900">{format(cursor, 'EEEE, MMMM d')}</h3>
+              {selected && selected.severity > 0 && (
+                <span className="text-sm text-red-600">Highest severity {selected.severity}/10</span>
+              )}
+            </div>
+            <TimelineEventList events={selected?.events ?? []} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
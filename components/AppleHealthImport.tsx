@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { Upload, X, AlertCircle, Moon, Activity } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { parseAppleHealthExport, type AppleHealthResult } from '@/lib/appleHealth';
+import { exerciseKey } from '@/lib/importer';
+import type { ExerciseEntry } from '@/lib/storage';
+
+interface AppleHealthImportProps {
+  existing: ExerciseEntry[];
+  onImport: (result: AppleHealthResult) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function AppleHealthImport({ existing, onImport, onClose }: AppleHealthImportProps) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<AppleHealthResult | null>(null);
+  const [error, setError] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    setResult(null);
+    setProgress(0);
+    try {
+      const parsed = await parseAppleHealthExport(file, setProgress);
+      // Skip workouts already imported, or logged by hand with the same day, type and duration
+      const ids = new Set(existing.map(entry => entry.id));
+      const keys = new Set(existing.map(exerciseKey));
+      setResult({
+        workouts: parsed.workouts.filter(w => !ids.has(w.id) && !keys.has(exerciseKey(w))),
+        sleep: parsed.sleep,
+      });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+    await onImport(result);
+    onClose();
+  };
+
+  const sleepRange = result && result.sleep.length > 0
+    ? `${format(parseISO(result.sleep[0].date), 'PP')} – ${format(parseISO(result.sleep[result.sleep.length - 1].date), 'PP')}`
+    : '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-2xl font-bold text-gray-900">Import from Apple Health</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-gray-600 mb-6">
+          In the Health app, tap your profile and choose <strong>Export All Health Data</strong>.
+          Select the resulting <code>export.zip</code> (or the <code>export.xml</code> inside it).
+          The file is read in your browser and never uploaded.
+        </p>
+
+        {progress === null && !result && (
+          <label className="inline-flex items-center gap-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+            <Upload className="w-5 h-5" />
+            Choose Export File
+            <input type="file" accept=".zip,.xml" onChange={handleFile} className="hidden" />
+          </label>
+        )}
+
+        {progress !== null && (
+          <div>
+            <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
+              <div
+                className="bg-primary-600 h-3 rounded-full transition-all"
+                style={{ width: `${Math.round(progress * 100)}%` }}
+              />
+            </div>
+            <p className="text-sm text-gray-600 text-center">Reading export… {Math.round(progress * 100)}%</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 text-red-700">
+            <AlertCircle className="w-5 h-5 mt-0.5" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg">
+              <Activity className="w-6 h-6 text-red-500" />
+              <div>
+                <div className="font-semibold text-gray-900">{result.workouts.length} new workouts</div>
+                <div className="text-sm text-gray-600">Intensity derived from heart rate, or energy burned when no heart rate was recorded</div>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg">
+              <Moon className="w-6 h-6 text-indigo-500" />
+              <div>
+                <div className="font-semibold text-gray-900">{result.sleep.length} nights of sleep</div>
+                {sleepRange && <div className="text-sm text-gray-600">{sleepRange}</div>}
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleImport}
+                disabled={result.workouts.length === 0 && result.sleep.length === 0}
+                className="flex-1 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+              >
+                Import
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
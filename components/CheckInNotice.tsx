@@ -0,0 +1,22 @@
+import Link from 'next/link';
+import { ClipboardCheck } from 'lucide-react';
+
+// Shown when today's predictions run on typical values because there is no check-in yet
+export default function CheckInNotice() {
+  return (
+    <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between gap-4">
+      <div className="flex items-start gap-3 text-amber-800">
+        <ClipboardCheck className="w-5 h-5 mt-0.5" />
+        <span className="text-sm">
+          No check-in for today yet. These predictions use typical values, or measured sleep when a wearable is imported, until you check in.
+        </span>
+      </div>
+      <Link
+        href="/checkin"
+        className="shrink-0 bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors text-sm font-medium"
+      >
+        Check in
+      </Link>
+    </div>
+  );
+}
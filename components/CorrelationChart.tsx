@@ -0,0 +1,98 @@
+'use client';
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ErrorBar, ReferenceLine } from 'recharts';
+import type { FactorAssociation } from '@/lib/correlations';
+import type { ConditionDefinition } from '@/lib/conditions';
+
+function formatP(p: number) {
+  return p < 0.001 ? '<0.001' : p.toFixed(3);
+}
+
+interface CorrelationChartProps {
+  associations: FactorAssociation[];
+  conditions: ConditionDefinition[];
+}
+
+export default function CorrelationChart({ associations, conditions: registry }: CorrelationChartProps) {
+  const conditions = Array.from(new Set(associations.map(a => a.condition)));
+  const colorOf = (name: string) => registry.find(c => c.name === name)?.color ?? '#6b7280';
+  const factors = Array.from(new Set(associations.map(a => a.factor)));
+
+  // One bar per condition, keyed by index since condition names contain spaces
+  const chartData = factors.map(factor => {
+    const row: Record<string, string | number | number[]> = { factor };
+    conditions.forEach((condition, i) => {
+      const association = associations.find(a => a.factor === factor && a.condition === condition);
+      if (!association) return;
+      const { value, low, high } = association.correlation;
+      row[`c${i}`] = Math.round(value * 100) / 100;
+      row[`c${i}Error`] = [value - low, high - value];
+    });
+    return row;
+  });
+
+  const ranked = associations.slice().sort((a, b) => a.adjustedP - b.adjustedP);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Factor-Symptom Correlations</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Correlation between each factor and each condition across your entries, with 95% confidence intervals.
+        Above zero means the condition is more common with the factor than without it.
+      </p>
+      <ResponsiveContainer width="100%" height={320}>
+        <BarChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="factor" />
+          <YAxis domain={[-1, 1]} label={{ value: 'Correlation', angle: -90, position: 'insideLeft' }} />
+          <Tooltip />
+          <Legend />
+          <ReferenceLine y={0} stroke="#6b7280" />
+          {conditions.map((condition, i) => (
+            <Bar key={condition} dataKey={`c${i}`} fill={colorOf(condition)} name={condition}>
+              <ErrorBar dataKey={`c${i}Error`} width={4} stroke="#374151" />
+            </Bar>
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="overflow-x-auto mt-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-700 border-b border-gray-200">
+              <th className="py-2 pr-4">Factor</th>
+              <th className="py-2 pr-4">Condition</th>
+              <th className="py-2 pr-4">Relative risk (95% CI)</th>
+              <th className="py-2 pr-4">Correlation (95% CI)</th>
+              <th className="py-2 pr-4">p</th>
+              <th className="py-2">Adjusted p</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map(a => (
+              <tr key={`${a.factor}:${a.condition}`} className={`border-b border-gray-100 ${a.significant ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+                <td className="py-2 pr-4">{a.factor}</td>
+                <td className="py-2 pr-4">{a.condition}</td>
+                <td className="py-2 pr-4">
+                  {a.relativeRisk
+                    ? `${a.relativeRisk.value.toFixed(2)} (${a.relativeRisk.low.toFixed(2)}–${a.relativeRisk.high.toFixed(2)})`
+                    : '—'}
+                </td>
+                <td className="py-2 pr-4">
+                  {a.correlation.value.toFixed(2)} ({a.correlation.low.toFixed(2)} to {a.correlation.high.toFixed(2)})
+                </td>
+                <td className="py-2 pr-4">{formatP(a.p)}</td>
+                <td className="py-2">{formatP(a.adjustedP)}{a.significant && ' *'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-sm text-gray-500 mt-4">
+        * Significant after correcting for the {associations.length} comparisons (Benjamini–Hochberg, 5% false discovery rate).
+        Binary factors use Fisher&apos;s exact test; sleep hours and stress level use a point-biserial correlation.
+        Wide intervals mean there is not enough data yet to tell.
+      </p>
+    </div>
+  );
+}
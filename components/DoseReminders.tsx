@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { addHours, format } from 'date-fns';
+import { getDoseRecords, getNutritionEntries, getRemedies, recordDose } from '@/lib/storage';
+import { getActiveProfile, getProfiles } from '@/lib/profiles';
+import { MISSED_AFTER_HOURS, scheduledDoses, type DoseStatus } from '@/lib/schedules';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// Registers the service worker and, while the app is open, notifies about
+// doses that have come due. Renders only an error, when a dose from a
+// notification could not be recorded.
+export default function DoseReminders() {
+  const notified = useRef(new Set<string>());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || !('Notification' in window)) return;
+
+    const onMessage = (event: MessageEvent) => {
+      const { type, remedyId, dueAt, status, profileId } = event.data ?? {};
+      if (type !== 'dose') return;
+      // Fails for another profile whose data is encrypted
+      recordDose(remedyId, new Date(dueAt), status as DoseStatus, profileId).catch(err =>
+        setError(`The dose was not recorded. ${(err as Error).message}`)
+      );
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    const registering = navigator.serviceWorker.register('/sw.js');
+
+    const check = async () => {
+      if (Notification.permission !== 'granted') return;
+      const now = new Date();
+      const from = addHours(now, -MISSED_AFTER_HOURS);
+      // Meal-relative doses can be due up to a day after the meal
+      const entries = await getNutritionEntries(addHours(now, -24).toISOString());
+      const doses = scheduledDoses(await getRemedies(), from, now, entries, await getDoseRecords(from.toISOString()));
+      const registration = await registering;
+      const profile = getActiveProfile();
+      const forWhom = getProfiles().length > 1 ? ` (${profile.name})` : '';
+
+      for (const dose of doses) {
+        if (dose.record || notified.current.has(dose.id)) continue;
+        notified.current.add(dose.id);
+        await registration.showNotification(`Time for ${dose.remedy.name}${forWhom}`, {
+          body: `Due at ${format(dose.dueAt, 'p')}${dose.remedy.notes ? ` · ${dose.remedy.notes}` : ''}`,
+          tag: dose.id,
+          data: { remedyId: dose.remedy.id, dueAt: dose.dueAt.toISOString(), profileId: profile.id },
+          actions: [
+            { action: 'taken', title: 'Taken' },
+            { action: 'skipped', title: 'Skip' },
+          ],
+        } as NotificationOptions);
+      }
+    };
+
+    const checkNow = () => check().catch(err => setError(`Reminders could not be checked: ${(err as Error).message}`));
+    checkNow();
+    const timer = setInterval(checkNow, CHECK_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      navigator.serviceWorker.removeEventListener('message', onMessage);
+    };
+  }, []);
+
+  if (!error) return null;
+  return (
+    <div className="fixed bottom-6 left-6 z-50 max-w-sm bg-white border border-red-200 rounded-lg shadow-lg p-4 flex items-start gap-3 print:hidden">
+      <p className="text-sm text-red-600">{error}</p>
+      <button onClick={() => setError('')} className="text-gray-400 hover:text-gray-600">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
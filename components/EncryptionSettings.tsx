@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Lock, ShieldCheck, ShieldOff } from 'lucide-react';
+import {
+  autoLockOptions,
+  DEFAULT_AUTO_LOCK_MINUTES,
+  isEncryptionSupported,
+  MIN_PASSPHRASE_LENGTH,
+  type EncryptionSettings as Settings,
+} from '@/lib/encryption';
+import {
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  ENCRYPTION_CHANGED_EVENT,
+  getEncryptionSettings,
+  lock,
+  setAutoLockMinutes,
+} from '@/lib/storage';
+
+type Action = 'change' | 'disable' | null;
+
+const emptyForm = { current: '', next: '', confirm: '' };
+
+const autoLockLabel = (minutes: number) =>
+  minutes === 0 ? 'Never' : minutes === 60 ? 'After 1 hour' : `After ${minutes} minute${minutes === 1 ? '' : 's'}`;
+
+// Turns encryption at rest on or off for the active profile and changes its
+// passphrase or auto-lock delay
+export default function EncryptionSettings() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [supported, setSupported] = useState(true);
+  const [action, setAction] = useState<Action>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [autoLock, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const load = () => setSettings(getEncryptionSettings());
+    setSupported(isEncryptionSupported());
+    load();
+    window.addEventListener(ENCRYPTION_CHANGED_EVENT, load);
+    return () => window.removeEventListener(ENCRYPTION_CHANGED_EVENT, load);
+  }, []);
+
+  const needsNew = !settings || action === 'change';
+  const tooShort = needsNew && form.next.length > 0 && form.next.length < MIN_PASSPHRASE_LENGTH;
+  const mismatch = needsNew && form.confirm.length > 0 && form.next !== form.confirm;
+
+  const run = async (task: () => Promise<void>, done: string) => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      await task();
+      setMessage(done);
+      setForm(emptyForm);
+      setAction(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsNew && (form.next.length < MIN_PASSPHRASE_LENGTH || form.next !== form.confirm)) return;
+    if (!settings) {
+      run(() => enableEncryption(form.next, autoLock), 'Your data is now encrypted.');
+    } else if (action === 'change') {
+      run(() => changePassphrase(form.current, form.next), 'Passphrase changed and data re-encrypted.');
+    } else if (action === 'disable') {
+      run(() => disableEncryption(form.current), 'Encryption turned off. Your data is stored in plain text again.');
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <div className="flex items-center gap-2 mb-2">
+        {settings ? <ShieldCheck className="w-6 h-6 text-green-600" /> : <ShieldOff className="w-6 h-6 text-gray-400" />}
+        <h2 className="text-2xl font-bold text-gray-900">Encryption</h2>
+      </div>
+      {!supported ? (
+        <p className="text-gray-600">Encryption needs a secure (HTTPS) connection and a browser with WebCrypto.</p>
+      ) : (
+        <>
+          <p className="text-gray-600 mb-6">
+            {settings
+              ? 'Your records are encrypted with AES-GCM using a key derived from your passphrase. The app asks for it after every reload and when it locks.'
+              : 'Encrypt your records with a passphrase so other people and browser extensions using this computer cannot read them. If you forget the passphrase, your data cannot be recovered.'}
+          </p>
+
+          {settings && (
+            <div className="flex flex-wrap items-center gap-4 mb-6">
+              <label className="text-sm font-medium text-gray-700">
+                Lock automatically{' '}
+                <select
+                  value={settings.autoLockMinutes}
+                  onChange={(e) => setAutoLockMinutes(parseInt(e.target.value))}
+                  className="ml-2 px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  {autoLockOptions.map(minutes => (
+                    <option key={minutes} value={minutes}>{autoLockLabel(minutes)}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={lock}
+                className="flex items-center gap-2 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                <Lock className="w-4 h-4" />
+                Lock Now
+              </button>
+              {action === null && (
+                <>
+                  <button onClick={() => setAction('change')} className="text-sm text-primary-600 hover:text-primary-700">
+                    Change passphrase
+                  </button>
+                  <button onClick={() => setAction('disable')} className="text-sm text-red-600 hover:text-red-700">
+                    Turn off encryption
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {(!settings || action) && (
+            <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+              {settings && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Current passphrase</label>
+                  <input
+                    type="password"
+                    value={form.current}
+                    onChange={(e) => setForm({ ...form, current: e.target.value })}
+                    className={inputClass}
+                    autoComplete="current-password"
+                    required
+                  />
+                </div>
+              )}
+              {needsNew && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {settings ? 'New passphrase' : 'Passphrase'}
+                    </label>
+                    <input
+                      type="password"
+                      value={form.next}
+                      onChange={(e) => setForm({ ...form, next: e.target.value })}
+                      className={inputClass}
+                      autoComplete="new-password"
+                      required
+                    />
+                    {tooShort && (
+                      <p className="mt-1 text-sm text-red-600">Use at least {MIN_PASSPHRASE_LENGTH} characters.</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Repeat passphrase</label>
+                    <input
+                      type="password"
+                      value={form.confirm}
+                      onChange={(e) => setForm({ ...form, confirm: e.target.value })}
+                      className={inputClass}
+                      autoComplete="new-password"
+                      required
+                    />
+                    {mismatch && <p className="mt-1 text-sm text-red-600">The passphrases do not match.</p>}
+                  </div>
+                </>
+              )}
+              {!settings && (
+                <label className="block text-sm font-medium text-gray-700">
+                  Lock automatically
+                  <select
+                    value={autoLock}
+                    onChange={(e) => setAutoLock(parseInt(e.target.value))}
+                    className="ml-2 px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    {autoLockOptions.map(minutes => (
+                      <option key={minutes} value={minutes}>{autoLockLabel(minutes)}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <div className="flex gap-4">
+                <button
+                  type="submit"
+                  disabled={busy || tooShort || mismatch}
+                  className={`flex-1 text-white py-3 rounded-lg transition-colors font-medium disabled:opacity-50 ${
+                    action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+                  }`}
+                >
+                  {busy
+                    ? 'Working…'
+                    : !settings
+                    ? 'Encrypt My Data'
+                    : action === 'change'
+                    ? 'Change Passphrase'
+                    : 'Decrypt and Turn Off'}
+                </button>
+                {settings && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setAction(null);
+                      setForm(emptyForm);
+                      setError('');
+                    }}
+                    className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </form>
+          )}
+
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+          {message && <p className="mt-4 text-sm text-green-700">{message}</p>}
+        </>
+      )}
+    </div>
+  );
+}
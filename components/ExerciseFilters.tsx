@@ -0,0 +1,62 @@
+'use client';
+
+import { Search, X } from 'lucide-react';
+import { emptyExerciseQuery, isFiltered, type ExerciseQuery } from '@/lib/query';
+
+interface ExerciseFiltersProps {
+  query: ExerciseQuery;
+  onChange: (query: ExerciseQuery) => void;
+}
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+export default function ExerciseFilters({ query, onChange }: ExerciseFiltersProps) {
+  const set = (changes: Partial<ExerciseQuery>) => onChange({ ...query, ...changes });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-4 space-y-3">
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={query.text}
+          onChange={(e) => set({ text: e.target.value })}
+          className={`${inputClass} w-full pl-9`}
+          placeholder="Search workout types and notes, e.g. run"
+        />
+      </div>
+      <div className="flex flex-wrap items-end gap-3 text-sm text-gray-700">
+        <label>
+          Intensity
+          <select
+            value={query.intensity}
+            onChange={(e) => set({ intensity: e.target.value as ExerciseQuery['intensity'] })}
+            className={`${inputClass} block mt-1`}
+          >
+            <option value="">Any</option>
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+          </select>
+        </label>
+        <label>
+          From
+          <input type="date" value={query.from} onChange={(e) => set({ from: e.target.value })} className={`${inputClass} block mt-1`} />
+        </label>
+        <label>
+          To
+          <input type="date" value={query.to} onChange={(e) => set({ to: e.target.value })} className={`${inputClass} block mt-1`} />
+        </label>
+        {isFiltered(query) && (
+          <button
+            onClick={() => onChange(emptyExerciseQuery)}
+            className="flex items-center gap-1 px-3 py-2 text-gray-600 hover:text-gray-900"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
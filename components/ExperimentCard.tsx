@@ -0,0 +1,179 @@
+'use client';
+
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import {
+  analyzeExperiment,
+  experimentEnd,
+  phaseDay,
+  phaseLabels,
+  phaseOn,
+  phaseRanges,
+  protocolViolations,
+  targetLabel,
+  type Experiment,
+  type ExperimentPhase,
+  type ExperimentVerdict,
+  type PhaseComparison,
+} from '@/lib/experiments';
+import type { ConditionDefinition } from '@/lib/conditions';
+import type { NutritionEntry } from '@/lib/storage';
+
+interface ExperimentCardProps {
+  experiment: Experiment;
+  entries: NutritionEntry[];
+  conditions: ConditionDefinition[];
+  onDelete: (experiment: Experiment) => void;
+}
+
+const phaseColors: Record<ExperimentPhase, string> = {
+  baseline: 'bg-gray-300',
+  elimination: 'bg-primary-500',
+  reintroduction: 'bg-amber-400',
+};
+
+const verdictStyles: Record<ExperimentVerdict, { label: string; className: string }> = {
+  'supported': { label: 'Supported', className: 'bg-green-100 text-green-800' },
+  'suggestive': { label: 'Suggestive', className: 'bg-amber-100 text-amber-800' },
+  'not-supported': { label: 'Not supported', className: 'bg-gray-100 text-gray-700' },
+  'not-enough-data': { label: 'Not enough data', className: 'bg-gray-100 text-gray-500' },
+};
+
+function ComparisonRow({ comparison }: { comparison: PhaseComparison }) {
+  const { relativeRisk, p, severityChange } = comparison;
+  return (
+    <tr className="border-b border-gray-100">
+      <td className="py-2 pr-4 text-gray-900">{phaseLabels[comparison.from]} → {phaseLabels[comparison.to]}</td>
+      <td className="py-2 pr-4 text-gray-700">
+        {relativeRisk.value.toFixed(2)} <span className="text-gray-500">({relativeRisk.low.toFixed(2)}–{relativeRisk.high.toFixed(2)})</span>
+      </td>
+      <td className={`py-2 pr-4 ${p < 0.05 ? 'font-medium text-gray-900' : 'text-gray-500'}`}>{p < 0.001 ? '< 0.001' : p.toFixed(3)}</td>
+      <td className="py-2 text-gray-700">{severityChange > 0 ? '+' : ''}{severityChange.toFixed(1)}</td>
+    </tr>
+  );
+}
+
+export default function ExperimentCard({ experiment, entries, conditions, onDelete }: ExperimentCardProps) {
+  const now = new Date();
+  const ranges = phaseRanges(experiment);
+  const totalDays = ranges.reduce((sum, range) => sum + experiment.phaseDays[range.phase], 0);
+  const currentPhase = phaseOn(experiment, now);
+  const results = analyzeExperiment(experiment, entries, conditions, now);
+  const violations = protocolViolations([experiment], entries);
+  const verdict = verdictStyles[results.verdict];
+
+  const status = results.complete
+    ? `Finished ${format(subDays(experimentEnd(experiment), 1), 'MMM d')}`
+    : currentPhase
+    ? `${phaseLabels[currentPhase]}, day ${phaseDay(experiment, now)} of ${experiment.phaseDays[currentPhase]}`
+    : `Starts in ${differenceInCalendarDays(ranges[0].start, now)} days`;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-start justify-between mb-2">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900">{experiment.name}</h3>
+          <p className="text-sm text-gray-500">
+            Removing {targetLabel(experiment.target)}
+            {experiment.condition && <> · {experiment.condition}</>}
+            {' · '}{status}
+          </p>
+        </div>
+        <button
+          onClick={() => onDelete(experiment)}
+          className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-gray-100"
+          aria-label="Delete experiment"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      {experiment.hypothesis && <p className="text-gray-700 italic mb-4">{experiment.hypothesis}</p>}
+
+      {/* Phase timeline */}
+      <div className="flex rounded-full overflow-hidden h-3 mb-1">
+        {ranges.map(range => (
+          <div
+            key={range.phase}
+            className={`${phaseColors[range.phase]} ${currentPhase && currentPhase !== range.phase ? 'opacity-40' : ''}`}
+            style={{ width: `${(experiment.phaseDays[range.phase] / totalDays) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex text-xs text-gray-500 mb-6">
+        {ranges.map(range => (
+          <div key={range.phase} style={{ width: `${(experiment.phaseDays[range.phase] / totalDays) * 100}%` }}>
+            {phaseLabels[range.phase]} · {format(range.start, 'MMM d')}
+          </div>
+        ))}
+      </div>
+
+      {violations.length > 0 && (
+        <div className="mb-6 p-4 bg-amber-50 rounded-lg">
+          <div className="flex items-center gap-2 font-medium text-amber-800 mb-2">
+            <AlertTriangle className="w-4 h-4" />
+            {violations.length} {violations.length === 1 ? 'meal breaks' : 'meals break'} the elimination phase
+          </div>
+          <ul className="text-sm text-amber-700 space-y-1">
+            {violations.map(({ entry, matches }) => (
+              <li key={entry.id}>
+                {format(parseISO(entry.date), 'MMM d, p')} · <span className="capitalize">{entry.meal}</span>: {matches.join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 mb-3">
+        <h4 className="font-semibold text-gray-900">{results.complete ? 'Results' : 'Results so far'}</h4>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${verdict.className}`}>{verdict.label}</span>
+      </div>
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-700 border-b border-gray-200">
+              <th className="py-2 pr-4">Phase</th>
+              <th className="py-2 pr-4">Logged days</th>
+              <th className="py-2 pr-4">Symptom days</th>
+              <th className="py-2 pr-4">Avg severity</th>
+              <th className="py-2">Meals with {targetLabel(experiment.target)}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.phases.map(summary => (
+              <tr key={summary.phase} className="border-b border-gray-100">
+                <td className="py-2 pr-4 text-gray-900">{phaseLabels[summary.phase]}</td>
+                <td className="py-2 pr-4 text-gray-700">{summary.loggedDays}</td>
+                <td className="py-2 pr-4 text-gray-700">
+                  {summary.symptomDays} <span className="text-gray-500">({Math.round(summary.frequency * 100)}%)</span>
+                </td>
+                <td className="py-2 pr-4 text-gray-700">{summary.symptomDays ? summary.meanSeverity.toFixed(1) : '—'}</td>
+                <td className="py-2 text-gray-700">{summary.exposures}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-700 border-b border-gray-200">
+              <th className="py-2 pr-4">Change</th>
+              <th className="py-2 pr-4">Relative risk (95% CI)</th>
+              <th className="py-2 pr-4">p (Fisher)</th>
+              <th className="py-2">Severity change</th>
+            </tr>
+          </thead>
+          <tbody>
+            <ComparisonRow comparison={results.elimination} />
+            <ComparisonRow comparison={results.reintroduction} />
+          </tbody>
+        </table>
+      </div>
+      <ul className="space-y-1 text-sm text-gray-700 list-disc list-inside">
+        {results.summary.map(line => (
+          <li key={line}>{line}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+'use client';
+
+import { useState } from 'react';
+import { Upload, X, AlertCircle, CheckCircle, Copy } from 'lucide-react';
+import { format } from 'date-fns';
+import { parseCSV, detectDelimiter } from '@/lib/csv';
+import {
+  importFields,
+  dateFormats,
+  isHeaderRow,
+  guessMapping,
+  detectDateFormat,
+  detectDurationUnit,
+  detectSleepUnit,
+  validateExerciseRows,
+  validateNutritionRows,
+  missingRequiredFields,
+  type ColumnMapping,
+  type ImportKind,
+  type ImportOptions,
+  type ImportRow,
+} from '@/lib/importer';
+import type { ExerciseEntry, NutritionEntry } from '@/lib/storage';
+
+type EntryFor<K extends ImportKind> = K extends 'exercise' ? ExerciseEntry : NutritionEntry;
+
+interface ImportWizardProps<K extends ImportKind> {
+  kind: K;
+  existing: EntryFor<K>[];
+  onImport: (entries: EntryFor<K>[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+export default function ImportWizard<K extends ImportKind>({ kind, existing, onImport, onClose }: ImportWizardProps<K>) {
+  const fields = importFields[kind];
+  const [step, setStep] = useState<Step>('upload');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [options, setOptions] = useState<ImportOptions>({ dateFormat: 'ISO', durationUnit: 'minutes', sleepUnit: 'hours' });
+  const [results, setResults] = useState<ImportRow<EntryFor<K>>[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [error, setError] = useState('');
+
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && rows[0]?.[i] ? rows[0][i] : `Column ${i + 1}`
+  );
+
+  const columnValues = (index: number | undefined, data = dataRows) =>
+    index !== undefined && index >= 0 ? data.map(row => row[index] ?? '') : [];
+
+  const detectOptions = (nextMapping: ColumnMapping, data: string[][], headerRow: string[]): ImportOptions => ({
+    dateFormat: detectDateFormat(columnValues(nextMapping.date, data)),
+    durationUnit: detectDurationUnit(headerRow[nextMapping.duration] ?? '', columnValues(nextMapping.duration, data)),
+    sleepUnit: detectSleepUnit(columnValues(nextMapping.sleep, data)),
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = event.target?.result as string;
+      const parsed = parseCSV(text, detectDelimiter(text));
+      if (parsed.length === 0) {
+        setError('The file is empty.');
+        return;
+      }
+
+      const header = isHeaderRow(parsed[0], kind);
+      const data = header ? parsed.slice(1) : parsed;
+      // Without a header, assume columns are in the documented order
+      const nextMapping = header
+        ? guessMapping(parsed[0], kind)
+        : Object.fromEntries(fields.map((f, i) => [f.key, i < parsed[0].length ? i : -1]));
+
+      setRows(parsed);
+      setHasHeader(header);
+      setMapping(nextMapping);
+      setOptions(detectOptions(nextMapping, data, header ? parsed[0] : []));
+      setError('');
+      setStep('map');
+    };
+    reader.readAsText(file);
+  };
+
+  const updateMapping = (key: string, index: number) => {
+    const nextMapping = { ...mapping, [key]: index };
+    setMapping(nextMapping);
+    setOptions(detectOptions(nextMapping, dataRows, hasHeader ? rows[0] : []));
+  };
+
+  const goToPreview = () => {
+    const firstRowNumber = hasHeader ? 2 : 1;
+    const validated = kind === 'exercise'
+      ? validateExerciseRows(dataRows, mapping, options, existing as ExerciseEntry[], firstRowNumber)
+      : validateNutritionRows(dataRows, mapping, options, existing as NutritionEntry[], firstRowNumber);
+    setResults(validated as ImportRow<EntryFor<K>>[]);
+    setStep('preview');
+  };
+
+  const importable = results.filter(r => r.entry && !(skipDuplicates && r.duplicate));
+  const invalidCount = results.filter(r => !r.entry).length;
+  const duplicateCount = results.filter(r => r.duplicate).length;
+  const missing = missingRequiredFields(kind, mapping);
+
+  const handleImport = async () => {
+    setError('');
+    try {
+      await onImport(importable.map(r => r.entry!));
+    } catch (err) {
+      setError(`Import failed: ${(err as Error).message}`);
+      return;
+    }
+    onClose();
+  };
+
+  const summarise = (entry: EntryFor<K>) => {
+    if (kind === 'exercise') {
+      const e = entry as ExerciseEntry;
+      return `${e.type}, ${e.duration} min, ${e.intensity}`;
+    }
+    const n = entry as NutritionEntry;
+    return `${n.meal}: ${n.foods.join(', ')}${n.symptoms.length > 0 ? ` (symptoms: ${n.symptoms.join(', ')})` : ''}`;
+  };
+
+  const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-2xl font-bold text-gray-900">
+            Import {kind === 'exercise' ? 'Workouts' : 'Nutrition Entries'} from CSV
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-6 text-sm">
+          {(['upload', 'map', 'preview'] as Step[]).map((s, idx) => (
+            <span
+              key={s}
+              className={`px-3 py-1 rounded-full ${step === s ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-600'}`}
+            >
+              {idx + 1}. {s === 'upload' ? 'Choose file' : s === 'map' ? 'Map columns' : 'Preview'}
+            </span>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 text-red-700">
+            <AlertCircle className="w-5 h-5 mt-0.5" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div>
+            <p className="text-gray-600 mb-4">
+              Any CSV with a header row works. You will match its columns to {kind === 'exercise' ? 'workout' : 'entry'} fields next.
+              Expected fields: {fields.map(f => f.label).join(', ')}.
+            </p>
+            <label className="inline-flex items-center gap-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+              <Upload className="w-5 h-5" />
+              Choose CSV File
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-6">
+            <label className="flex items-center gap-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e) => setHasHeader(e.target.checked)}
+                className="w-5 h-5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+              />
+              First row is a header
+            </label>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {fields.map((field) => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}{field.required && <span className="text-red-600"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? -1}
+                    onChange={(e) => updateMapping(field.key, parseInt(e.target.value))}
+                    className={selectClass}
+                  >
+                    <option value={-1}>{field.required ? 'Select a column' : 'Not imported'}</option>
+                    {headers.map((header, i) => (
+                      <option key={i} value={i}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 bg-blue-50 rounded-lg">
+              <div>
+                <label className="block text-sm font-medium text-blue-900 mb-1">Date format</label>
+                <select
+                  value={options.dateFormat}
+                  onChange={(e) => setOptions({ ...options, dateFormat: e.target.value })}
+                  className={selectClass}
+                >
+                  {dateFormats.map((f) => (
+                    <option key={f} value={f}>{f === 'ISO' ? 'ISO 8601' : f}</option>
+                  ))}
+                </select>
+              </div>
+              {kind === 'exercise' && (
+                <div>
+                  <label className="block text-sm font-medium text-blue-900 mb-1">Duration unit</label>
+                  <select
+                    value={options.durationUnit}
+                    onChange={(e) => setOptions({ ...options, durationUnit: e.target.value as ImportOptions['durationUnit'] })}
+                    className={selectClass}
+                  >
+                    <option value="minutes">Minutes</option>
+                    <option value="seconds">Seconds</option>
+                    <option value="hours">Hours</option>
+                    <option value="clock">h:mm:ss</option>
+                  </select>
+                </div>
+              )}
+              {kind === 'nutrition' && (
+                <div>
+                  <label className="block text-sm font-medium text-blue-900 mb-1">Sleep unit</label>
+                  <select
+                    value={options.sleepUnit}
+                    onChange={(e) => setOptions({ ...options, sleepUnit: e.target.value as ImportOptions['sleepUnit'] })}
+                    className={selectClass}
+                  >
+                    <option value="hours">Hours</option>
+                    <option value="minutes">Minutes</option>
+                  </select>
+                </div>
+              )}
+              <p className="text-xs text-blue-700 md:col-span-1 self-end">
+                Detected from your data. Change these if the preview looks wrong.
+              </p>
+            </div>
+
+            <div className="flex gap-4">
+              <button
+                onClick={goToPreview}
+                disabled={missing.length > 0}
+                className="flex-1 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+              >
+                {missing.length > 0 ? `Map ${missing.join(', ')} to continue` : `Preview ${dataRows.length} rows`}
+              </button>
+              <button
+                onClick={() => setStep('upload')}
+                className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                Back
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="flex items-center gap-1 text-green-700">
+                <CheckCircle className="w-4 h-4" /> {results.length - invalidCount} valid
+              </span>
+              <span className="flex items-center gap-1 text-red-700">
+                <AlertCircle className="w-4 h-4" /> {invalidCount} with errors (skipped)
+              </span>
+              <span className="flex items-center gap-1 text-yellow-700">
+                <Copy className="w-4 h-4" /> {duplicateCount} duplicates
+              </span>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-700">
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Date</th>
+                    <th className="px-3 py-2">Entry</th>
+                    <th className="px-3 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((result) => (
+                    <tr
+                      key={result.rowNumber}
+                      className={`border-t border-gray-100 ${
+                        !result.entry ? 'bg-red-50' : result.duplicate ? 'bg-yellow-50' : ''
+                      }`}
+                    >
+                      <td className="px-3 py-2 text-gray-500">{result.rowNumber}</td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {result.entry ? format(new Date(result.entry.date), 'PP p') : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {result.entry ? summarise(result.entry) : rows[result.rowNumber - 1]?.join(', ')}
+                      </td>
+                      <td className="px-3 py-2">
+                        {!result.entry ? (
+                          <ul className="text-red-700 space-y-1">
+                            {result.errors.map((err, idx) => <li key={idx}>{err}</li>)}
+                          </ul>
+                        ) : result.duplicate ? (
+                          <span className="text-yellow-700">Duplicate</span>
+                        ) : (
+                          <span className="text-green-700">Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <label className="flex items-center gap-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={skipDuplicates}
+                onChange={(e) => setSkipDuplicates(e.target.checked)}
+                className="w-5 h-5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+              />
+              Skip rows that duplicate existing entries or earlier rows
+            </label>
+
+            <div className="flex gap-4">
+              <button
+                onClick={handleImport}
+                disabled={importable.length === 0}
+                className="flex-1 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+              >
+                Import {importable.length} {importable.length === 1 ? 'entry' : 'entries'}
+              </button>
+              <button
+                onClick={() => setStep('map')}
+                className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                Back
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { Clock } from 'lucide-react';
+import type { LagReport } from '@/lib/lagAnalysis';
+
+export default function LagAnalysis({ reports }: { reports: LagReport[] }) {
+  const withSymptoms = reports.filter(report => report.symptomCount > 0);
+  const windows = reports[0]?.windows.map(w => w.window) ?? [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <div className="flex items-center gap-3 mb-2">
+        <Clock className="w-6 h-6 text-teal-600" />
+        <h2 className="text-2xl font-bold text-gray-900">Delayed Reactions</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        Foods and factors logged before a symptom, grouped by how long before. The highlighted lag has the strongest link for each condition.
+      </p>
+
+      {withSymptoms.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No symptoms logged yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-700 border-b border-gray-200">
+                <th className="py-2 pr-4">Condition</th>
+                {windows.map(window => (
+                  <th key={window.label} className="py-2 pr-4">{window.label} before</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {withSymptoms.map(report => (
+                <tr key={report.condition} className="border-b border-gray-100 align-top">
+                  <td className="py-3 pr-4 font-medium text-gray-900">
+                    {report.condition}
+                    <div className="text-xs font-normal text-gray-500">{report.symptomCount} symptomatic entries</div>
+                    {report.strongest && (
+                      <div className="text-xs font-normal text-teal-700">Strongest at {report.strongest.window.label}</div>
+                    )}
+                  </td>
+                  {report.windows.map(({ window, top }) => {
+                    const isStrongest = report.strongest?.window === window;
+                    return (
+                      <td key={window.label} className={`py-3 pr-4 ${isStrongest ? 'bg-teal-50' : ''}`}>
+                        {top.length === 0 ? (
+                          <span className="text-gray-400">No clear link</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {top.map(association => (
+                              <li key={association.exposure} className="text-gray-700">
+                                <span className="capitalize">{association.exposure}</span>
+                                <span className="text-gray-500">
+                                  {' '}{association.relativeRisk.toFixed(1)}× ({association.exposedWithSymptom}/{association.exposed})
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
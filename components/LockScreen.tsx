@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Lock } from 'lucide-react';
+import { getActiveProfile, getProfiles, type Profile } from '@/lib/profiles';
+import { ENCRYPTION_CHANGED_EVENT, getEncryptionSettings, isLocked, lock, switchProfile, unlock } from '@/lib/storage';
+
+const activityEvents = ['pointerdown', 'pointermove', 'keydown', 'wheel'];
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+// Covers the app while an encrypted profile is locked, and locks it again
+// after the configured time without activity
+export default function LockScreen() {
+  const [locked, setLocked] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(0);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const load = () => setAutoLockMinutes(getEncryptionSettings()?.autoLockMinutes ?? 0);
+    setLocked(isLocked());
+    setProfile(getActiveProfile());
+    setProfiles(getProfiles());
+    load();
+    window.addEventListener(ENCRYPTION_CHANGED_EVENT, load);
+    return () => window.removeEventListener(ENCRYPTION_CHANGED_EVENT, load);
+  }, []);
+
+  // Checked on an interval rather than with one long timer, which browsers
+  // pause while the tab is in the background
+  useEffect(() => {
+    if (locked || autoLockMinutes === 0) return;
+    let lastActivity = Date.now();
+    const onActivity = () => {
+      lastActivity = Date.now();
+    };
+    activityEvents.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60 * 1000) lock();
+    }, CHECK_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      activityEvents.forEach(event => window.removeEventListener(event, onActivity));
+    };
+  }, [locked, autoLockMinutes]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    try {
+      await unlock(passphrase);
+      setPassphrase('');
+      setLocked(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!locked) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-xl shadow-lg p-8 text-center">
+        <Lock className="w-12 h-12 mx-auto mb-4 text-primary-600" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">Locked</h1>
+        <p className="text-gray-600 mb-6">Enter the passphrase for {profile?.name ?? 'this profile'}.</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg mb-4 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          autoComplete="current-password"
+          autoFocus
+          required
+        />
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {busy ? 'Unlocking…' : 'Unlock'}
+        </button>
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+        {profiles.length > 1 && (
+          <select
+            value={profile?.id}
+            onChange={(e) => switchProfile(e.target.value)}
+            className="mt-6 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-700"
+            aria-label="Switch profile"
+          >
+            {profiles.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        )}
+      </form>
+    </div>
+  );
+}
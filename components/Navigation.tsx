@@ -1,22 +1,50 @@
 'use client';
 
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Activity, Brain, Heart, TrendingUp, BarChart3 } from 'lucide-react';
+import { Activity, Brain, Heart, TrendingUp, BarChart3, Database, ClipboardCheck, Stethoscope, AlarmClock, FlaskConical, FileText, CalendarDays, Users, Lock } from 'lucide-react';
+import { getActiveProfileId, getProfiles, PROFILES_CHANGED_EVENT, type Profile } from '@/lib/profiles';
+import { ENCRYPTION_CHANGED_EVENT, getEncryptionSettings, lock, switchProfile } from '@/lib/storage';
 
 export default function Navigation() {
   const pathname = usePathname();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfile, setActiveProfile] = useState('');
+  const [encrypted, setEncrypted] = useState(false);
+
+  useEffect(() => {
+    const load = () => {
+      setProfiles(getProfiles());
+      setActiveProfile(getActiveProfileId());
+      setEncrypted(getEncryptionSettings() !== null);
+    };
+    load();
+    window.addEventListener(PROFILES_CHANGED_EVENT, load);
+    window.addEventListener(ENCRYPTION_CHANGED_EVENT, load);
+    return () => {
+      window.removeEventListener(PROFILES_CHANGED_EVENT, load);
+      window.removeEventListener(ENCRYPTION_CHANGED_EVENT, load);
+    };
+  }, []);
 
   const links = [
     { href: '/', label: 'Dashboard', icon: BarChart3 },
+    { href: '/checkin', label: 'Check-in', icon: ClipboardCheck },
+    { href: '/timeline', label: 'Timeline', icon: CalendarDays },
     { href: '/nutrition', label: 'Nutrition', icon: Activity },
     { href: '/exercise', label: 'Exercise', icon: Heart },
     { href: '/predictions', label: 'Predictions', icon: Brain },
     { href: '/remedies', label: 'Remedies', icon: TrendingUp },
+    { href: '/medications', label: 'Medications', icon: AlarmClock },
+    { href: '/experiments', label: 'Experiments', icon: FlaskConical },
+    { href: '/conditions', label: 'Conditions', icon: Stethoscope },
+    { href: '/report', label: 'Report', icon: FileText },
+    { href: '/data', label: 'Data', icon: Database },
   ];
 
   return (
-    <nav className="bg-white shadow-md">
+    <nav className="bg-white shadow-md print:hidden">
       <div className="container mx-auto px-4">
         <div className="flex items-center justify-between h-16">
           <Link href="/" className="text-2xl font-bold text-primary-600">
@@ -42,6 +70,38 @@ export default function Navigation() {
               );
             })}
           </div>
+          <div className="flex items-center gap-2">
+            {encrypted && (
+              <button
+                onClick={lock}
+                className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+                aria-label="Lock"
+                title="Lock"
+              >
+                <Lock className="w-4 h-4" />
+              </button>
+            )}
+            <Link
+              href="/profiles"
+              className={`p-2 rounded-lg transition-colors ${
+                pathname === '/profiles' ? 'bg-primary-100 text-primary-700' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+              aria-label="Manage profiles"
+              title="Manage profiles"
+            >
+              <Users className="w-4 h-4" />
+            </Link>
+            <select
+              value={activeProfile}
+              onChange={(e) => switchProfile(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              aria-label="Profile"
+            >
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
     </nav>
@@ -0,0 +1,97 @@
+'use client';
+
+import { Search, X } from 'lucide-react';
+import { emptyNutritionQuery, isFiltered, type NutritionQuery } from '@/lib/query';
+
+interface NutritionFiltersProps {
+  query: NutritionQuery;
+  onChange: (query: NutritionQuery) => void;
+}
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+export default function NutritionFilters({ query, onChange }: NutritionFiltersProps) {
+  const set = (changes: Partial<NutritionQuery>) => onChange({ ...query, ...changes });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-4 space-y-3">
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={query.text}
+          onChange={(e) => set({ text: e.target.value })}
+          className={`${inputClass} w-full pl-9`}
+          placeholder="Search foods and symptoms, e.g. garlic reflux"
+        />
+      </div>
+      <div className="flex flex-wrap items-end gap-3 text-sm text-gray-700">
+        <label>
+          Meal
+          <select value={query.meal} onChange={(e) => set({ meal: e.target.value })} className={`${inputClass} block mt-1`}>
+            <option value="">Any</option>
+            <option value="breakfast">Breakfast</option>
+            <option value="lunch">Lunch</option>
+            <option value="dinner">Dinner</option>
+            <option value="snack">Snack</option>
+          </select>
+        </label>
+        <label>
+          Caffeine
+          <select
+            value={query.caffeine}
+            onChange={(e) => set({ caffeine: e.target.value as NutritionQuery['caffeine'] })}
+            className={`${inputClass} block mt-1`}
+          >
+            <option value="">Any</option>
+            <option value="yes">With caffeine</option>
+            <option value="no">Without caffeine</option>
+          </select>
+        </label>
+        <label>
+          Severity
+          <div className="flex items-center gap-1 mt-1">
+            <input
+              type="number"
+              min="0"
+              max="10"
+              value={query.minSeverity}
+              onChange={(e) => set({ minSeverity: e.target.value })}
+              className={`${inputClass} w-16`}
+              placeholder="0"
+              aria-label="Minimum severity"
+            />
+            –
+            <input
+              type="number"
+              min="0"
+              max="10"
+              value={query.maxSeverity}
+              onChange={(e) => set({ maxSeverity: e.target.value })}
+              className={`${inputClass} w-16`}
+              placeholder="10"
+              aria-label="Maximum severity"
+            />
+          </div>
+        </label>
+        <label>
+          From
+          <input type="date" value={query.from} onChange={(e) => set({ from: e.target.value })} className={`${inputClass} block mt-1`} />
+        </label>
+        <label>
+          To
+          <input type="date" value={query.to} onChange={(e) => set({ to: e.target.value })} className={`${inputClass} block mt-1`} />
+        </label>
+        {isFiltered(query) && (
+          <button
+            onClick={() => onChange(emptyNutritionQuery)}
+            className="flex items-center gap-1 px-3 py-2 text-gray-600 hover:text-gray-900"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { PAGE_SIZE, type QueryPage } from '@/lib/query';
+
+interface PaginationProps {
+  results: QueryPage<unknown>;
+  onChange: (page: number) => void;
+}
+
+export default function Pagination({ results, onChange }: PaginationProps) {
+  const { page, pageCount, total } = results;
+  const first = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const last = Math.min(page * PAGE_SIZE, total);
+
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-600">
+      <span>
+        {first}–{last} of {total}
+      </span>
+      {pageCount > 1 && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onChange(page - 1)}
+            disabled={page === 1}
+            className="p-2 rounded-lg hover:bg-white disabled:opacity-40"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>
+            Page {page} of {pageCount}
+          </span>
+          <button
+            onClick={() => onChange(page + 1)}
+            disabled={page === pageCount}
+            className="p-2 rounded-lg hover:bg-white disabled:opacity-40"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
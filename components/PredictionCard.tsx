@@ -1,15 +1,41 @@
 'use client';
 
-import { AlertTriangle, CheckCircle, Info } from 'lucide-react';
+import { useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, CheckCircle, Info, X, Clock, Undo2 } from 'lucide-react';
+import type { Prediction } from '@/lib/predictions';
+import type { RemedySuggestion } from '@/lib/recommendations';
 
-interface Prediction {
-  condition: string;
-  probability: number;
-  factors: string[];
-  severity: 'low' | 'medium' | 'high';
+const sourceLabels: Record<Prediction['source'], string> = {
+  rules: 'Rules',
+  model: 'Learned model',
+  blend: 'Rules + learned',
+};
+
+interface PredictionCardProps {
+  prediction: Prediction;
+  // Remedies to suggest; only shown for medium and high risk
+  suggestions?: RemedySuggestion[];
+  onDismiss?: (suggestion: RemedySuggestion) => void;
+  onSnooze?: (suggestion: RemedySuggestion) => void;
+  // Offered right after a suggestion is dismissed or snoozed
+  onUndo?: (suggestion: RemedySuggestion) => void;
 }
 
-export default function PredictionCard({ prediction }: { prediction: Prediction }) {
+export default function PredictionCard({ prediction, suggestions = [], onDismiss, onSnooze, onUndo }: PredictionCardProps) {
+  const [hidden, setHidden] = useState<{ suggestion: RemedySuggestion; snoozed: boolean } | null>(null);
+
+  const hide = (suggestion: RemedySuggestion, snoozed: boolean) => {
+    setHidden({ suggestion, snoozed });
+    (snoozed ? onSnooze : onDismiss)?.(suggestion);
+  };
+
+  const undo = () => {
+    if (!hidden) return;
+    onUndo?.(hidden.suggestion);
+    setHidden(null);
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'high':
@@ -45,6 +71,9 @@ export default function PredictionCard({ prediction }: { prediction: Prediction
         </div>
         <span className="text-2xl font-bold">{prediction.probability}%</span>
       </div>
+      <span className="inline-block mb-2 px-2 py-0.5 rounded-full bg-white bg-opacity-60 text-xs font-medium">
+        {sourceLabels[prediction.source]}
+      </span>
       <div className="mt-2">
         <p className="text-sm font-medium mb-1">Contributing factors:</p>
         <ul className="text-sm space-y-1">
@@ -53,6 +82,58 @@ export default function PredictionCard({ prediction }: { prediction: Prediction
           ))}
         </ul>
       </div>
+      {prediction.severity !== 'low' && (suggestions.length > 0 || (hidden && onUndo)) && (
+        <div className="mt-3 pt-3 border-t border-current border-opacity-20">
+          {suggestions.length > 0 && <p className="text-sm font-medium mb-1">Suggested actions:</p>}
+          <ul className="text-sm space-y-1">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.remedy.id} className="flex items-center justify-between gap-2">
+                <span>
+                  <Link href="/remedies" className="font-medium hover:underline">{suggestion.remedy.name}</Link>
+                  <span className="opacity-75">
+                    {' '}· {suggestion.score.enoughData
+                      ? `helps ${Math.round(suggestion.score.effectiveness.value * 100)}% of the time${suggestion.conditionSpecific ? '' : ' overall'}`
+                      : 'not enough data yet'}
+                  </span>
+                </span>
+                <span className="flex items-center flex-shrink-0">
+                  {onSnooze && (
+                    <button
+                      onClick={() => hide(suggestion, true)}
+                      className="p-1 opacity-60 hover:opacity-100"
+                      title="Snooze for a day"
+                      aria-label={`Snooze ${suggestion.remedy.name}`}
+                    >
+                      <Clock className="w-4 h-4" />
+                    </button>
+                  )}
+                  {onDismiss && (
+                    <button
+                      onClick={() => hide(suggestion, false)}
+                      className="p-1 opacity-60 hover:opacity-100"
+                      title={`Stop suggesting for ${prediction.condition}`}
+                      aria-label={`Dismiss ${suggestion.remedy.name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {hidden && onUndo && (
+            <p className="mt-2 text-sm flex items-center gap-2">
+              <span className="opacity-75">
+                {hidden.suggestion.remedy.name} {hidden.snoozed ? 'snoozed for a day' : 'will no longer be suggested'}.
+              </span>
+              <button onClick={undo} className="flex items-center gap-1 font-medium hover:underline">
+                <Undo2 className="w-4 h-4" />
+                Undo
+              </button>
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -2,21 +2,21 @@
 
 import { useState } from 'react';
 import { Rocket, X } from 'lucide-react';
-import { sampleNutritionEntries, sampleExerciseEntries, sampleRemedies } from '@/lib/sampleData';
-import { saveNutritionEntry, saveExerciseEntry, saveRemedy } from '@/lib/storage';
+import { sampleNutritionEntries, sampleExerciseEntries, sampleRemedies, sampleRemedyOutcomes, sampleRemedyUsages } from '@/lib/sampleData';
+import { saveNutritionEntry, saveExerciseEntry, saveRemedy, saveRemedyOutcomes, saveRemedyUsages, checkIn, draftDailyLog, toDateKey } from '@/lib/storage';
 
 export default function QuickStart() {
   const [showModal, setShowModal] = useState(false);
 
-  const loadSampleData = () => {
-    sampleNutritionEntries.forEach(saveNutritionEntry);
-    sampleExerciseEntries.forEach(saveExerciseEntry);
-    sampleRemedies.forEach(saveRemedy);
+  const loadSampleData = async () => {
+    for (const entry of sampleNutritionEntries) await saveNutritionEntry(entry);
+    for (const entry of sampleExerciseEntries) await saveExerciseEntry(entry);
+    for (const remedy of sampleRemedies) await saveRemedy(remedy);
+    await saveRemedyOutcomes(sampleRemedyOutcomes);
+    await saveRemedyUsages(sampleRemedyUsages);
     
-    localStorage.setItem('todaySleep', '7');
-    localStorage.setItem('todayStress', '5');
-    localStorage.setItem('todayCaffeine', 'true');
-    localStorage.setItem('todayExercise', 'true');
+    const today = toDateKey(new Date());
+    await checkIn({ ...(await draftDailyLog(today)), sleep: 7, stress: 5, caffeine: true, exercise: true });
     
     setShowModal(false);
     window.location.reload();
@@ -52,8 +52,8 @@ export default function QuickStart() {
             <ul className="space-y-2 mb-6 text-sm text-gray-700">
               <li>• 3 nutrition entries with symptoms</li>
               <li>• 2 exercise sessions</li>
-              <li>• 3 remedies with effectiveness data</li>
-              <li>• Today's health metrics for predictions</li>
+              <li>• 3 remedies with a history of outcomes</li>
+              <li>• Today's check-in for predictions</li>
             </ul>
             
             <div className="flex gap-3">
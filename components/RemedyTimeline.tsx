@@ -0,0 +1,106 @@
+'use client';
+
+import { ThumbsUp, ThumbsDown, Trash2 } from 'lucide-react';
+import { differenceInHours, format, parseISO } from 'date-fns';
+import { FOLLOW_UP_HOURS, hasFollowUp, usageHelped } from '@/lib/remedies';
+import type { NutritionEntry, RemedyOutcome, RemedyUsage } from '@/lib/storage';
+
+interface RemedyTimelineProps {
+  usages: RemedyUsage[];
+  outcomes: RemedyOutcome[];
+  entries: NutritionEntry[];
+  onFollowUp: (usageId: string, severityAfter: number) => void;
+  onDelete: (usageId: string) => void;
+}
+
+type TimelineItem = { kind: 'usage'; record: RemedyUsage } | { kind: 'outcome'; record: RemedyOutcome };
+
+const severities = Array.from({ length: 10 }, (_, i) => i + 1);
+
+// Logged uses and quick feedback for one remedy, newest first
+export default function RemedyTimeline({ usages, outcomes, entries, onFollowUp, onDelete }: RemedyTimelineProps) {
+  const items: TimelineItem[] = [
+    ...usages.map(record => ({ kind: 'usage' as const, record })),
+    ...outcomes.map(record => ({ kind: 'outcome' as const, record })),
+  ].sort((a, b) => b.record.timestamp.localeCompare(a.record.timestamp));
+
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">No uses logged yet.</p>;
+  }
+
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4 max-h-80 overflow-y-auto">
+      {items.map(item => {
+        const time = format(parseISO(item.record.timestamp), 'MMM d, p');
+
+        if (item.kind === 'outcome') {
+          return (
+            <li key={item.record.id} className="ml-4 text-sm">
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-gray-300" />
+              <span className="text-gray-500">{time}</span>{' '}
+              {item.record.helped ? (
+                <span className="inline-flex items-center gap-1 text-green-700"><ThumbsUp className="w-3 h-3" /> Helped</span>
+              ) : (
+                <span className="inline-flex items-center gap-1 text-red-700"><ThumbsDown className="w-3 h-3" /> Didn&apos;t help</span>
+              )}
+            </li>
+          );
+        }
+
+        const usage = item.record;
+        const meals = usage.nutritionEntryIds.map(id => entriesById.get(id)).filter((e): e is NutritionEntry => !!e);
+        const followUpDue = differenceInHours(new Date(), parseISO(usage.timestamp)) >= FOLLOW_UP_HOURS;
+        return (
+          <li key={usage.id} className="ml-4 text-sm">
+            <span
+              className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${
+                !hasFollowUp(usage) ? 'bg-amber-400' : usageHelped(usage) ? 'bg-green-500' : 'bg-red-500'
+              }`}
+            />
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <span className="text-gray-500">{time}</span>{' '}
+                <span className="font-medium text-gray-900">{usage.condition}</span>
+                {usage.dose && <span className="text-gray-600"> · {usage.dose}</span>}
+              </div>
+              <button
+                onClick={() => onDelete(usage.id)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                aria-label="Delete use"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+            {hasFollowUp(usage) ? (
+              <div className="text-gray-700">
+                Severity {usage.severityBefore} → {usage.severityAfter}
+                {usage.followUpAt && (
+                  <span className="text-gray-500"> after {differenceInHours(parseISO(usage.followUpAt), parseISO(usage.timestamp))}h</span>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-gray-700">
+                Severity {usage.severityBefore} →
+                <select
+                  defaultValue=""
+                  onChange={(e) => e.target.value && onFollowUp(usage.id, parseInt(e.target.value))}
+                  className="px-2 py-0.5 border border-gray-300 rounded"
+                >
+                  <option value="">{followUpDue ? 'Rate now' : `Rate in ${FOLLOW_UP_HOURS}h`}</option>
+                  {severities.map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {meals.length > 0 && (
+              <div className="text-xs text-gray-500">After: {meals.map(meal => meal.foods.join(', ')).join('; ')}</div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { format, parseISO, subHours } from 'date-fns';
+import { saveRemedyUsage, type NutritionEntry, type Remedy } from '@/lib/storage';
+import { FOLLOW_UP_HOURS } from '@/lib/remedies';
+import type { ConditionDefinition } from '@/lib/conditions';
+
+interface RemedyUsageFormProps {
+  remedy: Remedy;
+  conditions: ConditionDefinition[];
+  entries: NutritionEntry[];
+  onSaved: () => Promise<void>;
+  onClose: () => void;
+}
+
+// Meals this long before a use can be linked to it
+const LINK_WINDOW_HOURS = 24;
+
+const severities = Array.from({ length: 10 }, (_, i) => i + 1);
+
+export default function RemedyUsageForm({ remedy, conditions, entries, onSaved, onClose }: RemedyUsageFormProps) {
+  const conditionNames = remedy.conditions.length > 0 ? remedy.conditions : conditions.map(c => c.name);
+  const [formData, setFormData] = useState({
+    timestamp: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+    condition: conditionNames[0] ?? '',
+    dose: '',
+    severityBefore: 5,
+    severityAfter: '',
+    nutritionEntryIds: [] as string[],
+  });
+
+  const takenAt = new Date(formData.timestamp);
+  const recentEntries = entries
+    .filter(entry => {
+      const date = parseISO(entry.date);
+      return date <= takenAt && date >= subHours(takenAt, LINK_WINDOW_HOURS);
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const toggleEntry = (id: string) => {
+    setFormData({
+      ...formData,
+      nutritionEntryIds: formData.nutritionEntryIds.includes(id)
+        ? formData.nutritionEntryIds.filter(e => e !== id)
+        : [...formData.nutritionEntryIds, id],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const severityAfter = formData.severityAfter ? parseInt(formData.severityAfter) : undefined;
+
+    await saveRemedyUsage({
+      id: `${remedy.id}-use-${Date.now()}`,
+      remedyId: remedy.id,
+      timestamp: takenAt.toISOString(),
+      dose: formData.dose.trim(),
+      condition: formData.condition,
+      nutritionEntryIds: formData.nutritionEntryIds,
+      severityBefore: formData.severityBefore,
+      ...(severityAfter !== undefined && { severityAfter, followUpAt: new Date().toISOString() }),
+    });
+    await onSaved();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-8 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-2xl font-bold text-gray-900">Log {remedy.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Taken at
+              </label>
+              <input
+                type="datetime-local"
+                value={formData.timestamp}
+                onChange={(e) => e.target.value && setFormData({ ...formData, timestamp: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Dose
+              </label>
+              <input
+                type="text"
+                value={formData.dose}
+                onChange={(e) => setFormData({ ...formData, dose: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                placeholder="e.g., 20mg, 1 cup"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Taken for
+            </label>
+            <select
+              value={formData.condition}
+              onChange={(e) => setFormData({ ...formData, condition: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              required
+            >
+              {conditionNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Severity before: {formData.severityBefore}/10
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="10"
+                value={formData.severityBefore}
+                onChange={(e) => setFormData({ ...formData, severityBefore: parseInt(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Severity after
+              </label>
+              <select
+                value={formData.severityAfter}
+                onChange={(e) => setFormData({ ...formData, severityAfter: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                <option value="">Record in {FOLLOW_UP_HOURS}h</option>
+                {severities.map(n => (
+                  <option key={n} value={n}>{n}/10</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {recentEntries.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Related meals (last {LINK_WINDOW_HOURS}h)
+              </label>
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {recentEntries.map(entry => (
+                  <label key={entry.id} className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.nutritionEntryIds.includes(entry.id)}
+                      onChange={() => toggleEntry(entry.id)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="text-gray-500">{format(parseISO(entry.date), 'EEE p')}</span>{' '}
+                      <span className="capitalize">{entry.meal}</span>: {entry.foods.join(', ')}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <button
+              type="submit"
+              className="flex-1 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+            >
+              Save Use
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
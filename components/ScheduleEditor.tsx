@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { saveRemedy, type Remedy } from '@/lib/storage';
+import type { RemedySchedule } from '@/lib/schedules';
+
+interface ScheduleEditorProps {
+  remedy: Remedy;
+  onSaved: () => Promise<void>;
+  onClose: () => void;
+}
+
+// Before- and after-meal schedules share the meals tab
+type Tab = Exclude<RemedySchedule['kind'], 'beforeMeal'>;
+
+const kinds: { kind: Tab; label: string }[] = [
+  { kind: 'times', label: 'At set times' },
+  { kind: 'interval', label: 'Every few hours' },
+  { kind: 'meal', label: 'Around meals' },
+];
+
+export default function ScheduleEditor({ remedy, onSaved, onClose }: ScheduleEditorProps) {
+  const schedule = remedy.schedule;
+  const [kind, setKind] = useState<Tab>(schedule?.kind === 'beforeMeal' ? 'meal' : schedule?.kind ?? 'times');
+  const [times, setTimes] = useState(schedule?.kind === 'times' ? schedule.times : ['08:00']);
+  const [everyHours, setEveryHours] = useState(schedule?.kind === 'interval' ? schedule.everyHours : 8);
+  const [startTime, setStartTime] = useState(schedule?.kind === 'interval' ? schedule.startTime : '08:00');
+  const [offset, setOffset] = useState(
+    schedule?.kind === 'meal' ? schedule.offsetMinutes : schedule?.kind === 'beforeMeal' ? schedule.minutesBefore : 30
+  );
+  const [before, setBefore] = useState(schedule?.kind !== 'meal');
+  const [mealTimes, setMealTimes] = useState(
+    schedule?.kind === 'beforeMeal' ? schedule.mealTimes : ['08:00', '12:30', '18:30']
+  );
+
+  const [error, setError] = useState('');
+
+  const save = async (next?: RemedySchedule) => {
+    setError('');
+    try {
+      await saveRemedy({ ...remedy, schedule: next });
+      await onSaved();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (kind === 'times') await save({ kind, times: Array.from(new Set(times)).sort() });
+    else if (kind === 'interval') await save({ kind, everyHours, startTime });
+    else if (before) await save({ kind: 'beforeMeal', minutesBefore: offset, mealTimes: Array.from(new Set(mealTimes)).sort() });
+    else await save({ kind, offsetMinutes: offset });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-2xl font-bold text-gray-900">Schedule {remedy.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="flex gap-2">
+            {kinds.map(option => (
+              <button
+                key={option.kind}
+                type="button"
+                onClick={() => setKind(option.kind)}
+                className={`flex-1 px-3 py-2 rounded-lg border-2 text-sm transition-colors ${
+                  kind === option.kind
+                    ? 'bg-primary-100 border-primary-500 text-primary-700'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-primary-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'times' && <TimeList times={times} onChange={setTimes} />}
+
+          {kind === 'interval' && (
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm text-gray-700">
+                Every (hours)
+                <input
+                  type="number"
+                  min="1"
+                  max="24"
+                  value={everyHours}
+                  onChange={(e) => setEveryHours(Math.min(24, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  required
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Starting at
+                <input
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  required
+                />
+              </label>
+            </div>
+          )}
+
+          {kind === 'meal' && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="number"
+                  min="0"
+                  max="240"
+                  value={offset}
+                  onChange={(e) => setOffset(parseInt(e.target.value) || 0)}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+                minutes
+                <select
+                  value={before ? 'before' : 'after'}
+                  onChange={(e) => setBefore(e.target.value === 'before')}
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="before">before</option>
+                  <option value="after">after</option>
+                </select>
+                {before ? 'meals at' : 'each logged meal'}
+              </div>
+              {before && (
+                <>
+                  <TimeList times={mealTimes} onChange={setMealTimes} />
+                  <p className="text-xs text-gray-500">
+                    Meals are logged once eaten, so reminders go by your usual meal times.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">Could not save the schedule: {error}</p>}
+
+          <div className="flex gap-4">
+            <button
+              type="submit"
+              className="flex-1 bg-primary-600 text-white py-3 rounded-lg hover:bg-primary-700 transition-colors font-medium"
+            >
+              Save Schedule
+            </button>
+            {schedule && (
+              <button
+                type="button"
+                onClick={() => save(undefined)}
+                className="flex-1 bg-gray-200 text-gray-700 py-3 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function TimeList({ times, onChange }: { times: string[]; onChange: (times: string[]) => void }) {
+  return (
+    <div className="space-y-2">
+      {times.map((time, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => onChange(times.map((t, j) => (j === i ? e.target.value : t)))}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            required
+          />
+          {times.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(times.filter((_, j) => j !== i))}
+              className="p-2 text-gray-400 hover:text-red-600"
+              aria-label="Remove time"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...times, '20:00'])}
+        className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+      >
+        <Plus className="w-4 h-4" />
+        Add time
+      </button>
+    </div>
+  );
+}
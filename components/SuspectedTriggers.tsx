@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Utensils } from 'lucide-react';
+import { format } from 'date-fns';
+import { DEFAULT_MIN_OCCURRENCES, type FoodTrigger } from '@/lib/triggers';
+import type { NutritionEntry } from '@/lib/storage';
+
+interface SuspectedTriggersProps {
+  triggers: Record<string, FoodTrigger[]>;
+  entries: NutritionEntry[];
+}
+
+export default function SuspectedTriggers({ triggers, entries }: SuspectedTriggersProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+  const conditions = Object.keys(triggers).filter(condition => triggers[condition].length > 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <div className="flex items-center gap-3 mb-2">
+        <Utensils className="w-6 h-6 text-orange-600" />
+        <h2 className="text-2xl font-bold text-gray-900">Suspected Triggers</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        Foods followed by a condition more often than your usual rate. Foods eaten fewer than {DEFAULT_MIN_OCCURRENCES} times are left out.
+      </p>
+
+      {conditions.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">
+          No food stands out yet. Keep listing the foods in each meal to find your triggers.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {conditions.map(condition => (
+            <div key={condition} className="border border-gray-200 rounded-lg p-4">
+              <h3 className="font-semibold text-gray-900 mb-3">{condition}</h3>
+              <div className="space-y-2">
+                {triggers[condition].map(trigger => {
+                  const key = `${condition}:${trigger.food}`;
+                  const isOpen = expanded === key;
+                  return (
+                    <div key={key}>
+                      <button
+                        onClick={() => setExpanded(isOpen ? null : key)}
+                        className="w-full flex items-center justify-between text-left px-3 py-2 bg-orange-50 rounded-lg hover:bg-orange-100 transition-colors"
+                      >
+                        <div>
+                          <div className="font-medium text-gray-900 capitalize">{trigger.food}</div>
+                          <div className="text-xs text-gray-600">
+                            {trigger.matches} of {trigger.occurrences} times ({Math.round(trigger.confidence * 100)}%)
+                            {' · '}support {Math.round(trigger.support * 100)}%
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-semibold text-orange-700">{trigger.lift.toFixed(1)}× usual</span>
+                          {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        </div>
+                      </button>
+                      {isOpen && (
+                        <ul className="mt-2 ml-3 space-y-1 text-sm text-gray-600">
+                          {trigger.entryIds.map(id => {
+                            const entry = entriesById.get(id);
+                            if (!entry) return null;
+                            return (
+                              <li key={id}>
+                                <span className="font-medium text-gray-800">{format(new Date(entry.date), 'PP')}</span>
+                                {' '}<span className="capitalize">{entry.meal}</span>: {entry.foods.join(', ')}
+                                <span className="text-red-600"> → {entry.symptoms.join(', ')}</span>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
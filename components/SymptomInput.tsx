@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import type { SymptomVocabulary } from '@/lib/symptoms';
+
+interface SymptomInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  vocabulary: SymptomVocabulary;
+  placeholder?: string;
+  className?: string;
+}
+
+// Comma-separated symptom field that suggests known symptoms for the one being typed
+export default function SymptomInput({ value, onChange, vocabulary, placeholder, className }: SymptomInputProps) {
+  const [focused, setFocused] = useState(false);
+
+  const parts = value.split(',');
+  const current = parts[parts.length - 1];
+  const suggestions = focused ? vocabulary.suggest(current) : [];
+
+  const choose = (term: string) => {
+    const done = parts.slice(0, -1).map(p => p.trim()).filter(p => p);
+    onChange([...done, vocabulary.normalize(term)].join(', ') + ', ');
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        className={className}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map(term => {
+            const canonical = vocabulary.normalize(term);
+            const conditions = vocabulary.conditionsFor(canonical);
+            return (
+              <li key={term}>
+                <button
+                  type="button"
+                  // Keep focus on the input so the list stays open for the click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => choose(term)}
+                  className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100"
+                >
+                  <span className="text-gray-900">{term}</span>
+                  {canonical !== term && <span className="text-gray-500"> → {canonical}</span>}
+                  {conditions.length > 0 && (
+                    <span className="block text-xs text-gray-400">{conditions.join(', ')}</span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
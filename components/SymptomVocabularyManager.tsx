@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Trash2, Plus } from 'lucide-react';
+import { canonicalSymptoms, type SymptomSynonym, type SymptomVocabulary } from '@/lib/symptoms';
+import { addSymptomSynonym, deleteSymptomSynonym } from '@/lib/storage';
+
+interface SymptomVocabularyManagerProps {
+  vocabulary: SymptomVocabulary;
+  synonyms: SymptomSynonym[];
+  // Symptoms in logged entries that map to no known symptom
+  unrecognized: string[];
+  onChange: () => Promise<void>;
+  onClose: () => void;
+}
+
+export default function SymptomVocabularyManager({ vocabulary, synonyms, unrecognized, onChange, onClose }: SymptomVocabularyManagerProps) {
+  const [synonym, setSynonym] = useState('');
+  const [symptom, setSymptom] = useState(canonicalSymptoms[0].name);
+  const [message, setMessage] = useState('');
+
+  const add = async (word: string, target: string) => {
+    const updated = await addSymptomSynonym(word, target);
+    setMessage(`"${word}" now counts as ${target}${updated > 0 ? `; ${updated} entries updated` : ''}.`);
+    await onChange();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!synonym.trim()) return;
+    await add(synonym, symptom);
+    setSynonym('');
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteSymptomSynonym(id);
+    await onChange();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-8 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-2xl font-bold text-gray-900">Symptom Vocabulary</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-gray-600 mb-6">
+          Symptoms are saved under a standard name so predictions know which condition they belong to.
+          Teach the app your own words for them below.
+        </p>
+
+        {message && <p className="mb-4 text-sm text-green-700">{message}</p>}
+
+        {unrecognized.length > 0 && (
+          <div className="mb-8">
+            <h4 className="font-semibold text-gray-900 mb-2">Unrecognised symptoms in your entries</h4>
+            <div className="space-y-2">
+              {unrecognized.map(word => (
+                <div key={word} className="flex items-center gap-3 text-sm">
+                  <span className="w-40 font-medium text-gray-800">{word}</span>
+                  <select
+                    defaultValue=""
+                    onChange={(e) => e.target.value && add(word, e.target.value)}
+                    className="px-3 py-1 border border-gray-300 rounded-lg"
+                  >
+                    <option value="">Means…</option>
+                    {canonicalSymptoms.map(s => (
+                      <option key={s.name} value={s.name}>{s.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 mb-8">
+          <label className="text-sm text-gray-700">
+            Your word
+            <input
+              type="text"
+              value={synonym}
+              onChange={(e) => setSynonym(e.target.value)}
+              className="mt-1 block px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="e.g., tummy ache"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Means
+            <select
+              value={symptom}
+              onChange={(e) => setSymptom(e.target.value)}
+              className="mt-1 block px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              {canonicalSymptoms.map(s => (
+                <option key={s.name} value={s.name}>{s.name}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Synonym
+          </button>
+        </form>
+
+        {synonyms.length > 0 && (
+          <div className="mb-8">
+            <h4 className="font-semibold text-gray-900 mb-2">Your synonyms</h4>
+            <ul className="space-y-1 text-sm">
+              {synonyms.map(s => (
+                <li key={s.id} className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded-lg">
+                  <span>{s.synonym} → <strong>{s.symptom}</strong></span>
+                  <button
+                    onClick={() => handleDelete(s.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${s.synonym}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <h4 className="font-semibold text-gray-900 mb-2">Known symptoms</h4>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-700 border-b border-gray-200">
+              <th className="py-2 pr-4">Symptom</th>
+              <th className="py-2 pr-4">Also recognised as</th>
+              <th className="py-2">Counts toward</th>
+            </tr>
+          </thead>
+          <tbody>
+            {canonicalSymptoms.map(s => (
+              <tr key={s.name} className="border-b border-gray-100 text-gray-600 align-top">
+                <td className="py-2 pr-4 font-medium text-gray-900">{s.name}</td>
+                <td className="py-2 pr-4">{s.synonyms.join(', ')}</td>
+                <td className="py-2">{vocabulary.conditionsFor(s.name).join(', ') || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
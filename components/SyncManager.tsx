@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect } from 'react';
+import { getSyncSettings, isLocked } from '@/lib/storage';
+import { syncNow } from '@/lib/sync';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+// Syncs in the background when the app opens, every few minutes, and when
+// the device comes back online. Renders nothing.
+export default function SyncManager() {
+  useEffect(() => {
+    const sync = () => {
+      if (!getSyncSettings() || isLocked() || !navigator.onLine) return;
+      // syncNow keeps the error in the sync settings, where the Data page shows it
+      syncNow().catch(() => undefined);
+    };
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') sync();
+    };
+
+    sync();
+    const timer = setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', sync);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', sync);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, []);
+
+  return null;
+}
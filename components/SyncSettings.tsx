@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RefreshCw, Cloud, CloudOff } from 'lucide-react';
+import { format } from 'date-fns';
+import { ENCRYPTION_CHANGED_EVENT, getEncryptionSettings, getSyncSettings } from '@/lib/storage';
+import { SPACE_PATTERN } from '@/lib/syncProtocol';
+import {
+  allowPlaintextSync,
+  connectSync,
+  createSyncCode,
+  disconnectSync,
+  syncNow,
+  SYNC_COMPLETED_EVENT,
+  type SyncSettings as Settings,
+} from '@/lib/sync';
+
+// Connects the active profile to a sync space on this app's server
+export default function SyncSettings() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [encrypted, setEncrypted] = useState(false);
+  const [code, setCode] = useState('');
+  const [token, setToken] = useState('');
+  const [allowPlaintext, setAllowPlaintext] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = () => {
+      setSettings(getSyncSettings());
+      setEncrypted(getEncryptionSettings() !== null);
+    };
+    load();
+    window.addEventListener(SYNC_COMPLETED_EVENT, load);
+    window.addEventListener(ENCRYPTION_CHANGED_EVENT, load);
+    return () => {
+      window.removeEventListener(SYNC_COMPLETED_EVENT, load);
+      window.removeEventListener(ENCRYPTION_CHANGED_EVENT, load);
+    };
+  }, []);
+
+  const sync = async () => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      const result = await syncNow();
+      setMessage(
+        `Sent ${result.pushed} and received ${result.pulled} changes` +
+          (result.conflicts > 0 ? `; ${result.conflicts} older edits were replaced by newer ones from other devices.` : '.') +
+          (result.invalid > 0 ? ` Skipped ${result.invalid} malformed records from other devices.` : '')
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+      setSettings(getSyncSettings());
+    }
+  };
+
+  const handleConnect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!SPACE_PATTERN.test(code.trim())) return;
+    await connectSync(code, token, encrypted && allowPlaintext);
+    setSettings(getSyncSettings());
+    setCode('');
+    setToken('');
+    setAllowPlaintext(false);
+    await sync();
+  };
+
+  const handleAllowPlaintext = async () => {
+    allowPlaintextSync();
+    await sync();
+  };
+
+  const handleDisconnect = async () => {
+    if (!confirm('Stop syncing this profile? Data already on this device and on the server is kept.')) return;
+    await disconnectSync();
+    setSettings(null);
+    setMessage('');
+    setError('');
+  };
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+  const invalidCode = code.trim() !== '' && !SPACE_PATTERN.test(code.trim());
+  const blocked = encrypted && !!settings && !settings.allowPlaintext;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <div className="flex items-center gap-2 mb-2">
+        {settings ? <Cloud className="w-6 h-6 text-primary-600" /> : <CloudOff className="w-6 h-6 text-gray-400" />}
+        <h2 className="text-2xl font-bold text-gray-900">Sync Between Devices</h2>
+      </div>
+      <p className="text-gray-600 mb-6">
+        Keep this profile in step on your phone and computer through this app&apos;s own server. Everything keeps working
+        offline; changes are exchanged when a device is online, and the most recent edit wins.
+      </p>
+      {encrypted && (
+        <p className="mb-6 text-sm text-amber-700">
+          Encryption only protects this browser. Synced records are stored on the server as readable data, so this
+          profile only syncs once you allow that. Only sync with a server you run yourself.
+        </p>
+      )}
+
+      {settings ? (
+        <>
+          <dl className="grid grid-cols-1 md:grid-cols-[10rem_1fr] gap-x-4 gap-y-2 text-sm mb-6">
+            <dt className="text-gray-600">Sync code</dt>
+            <dd className="font-mono text-gray-900 break-all">{settings.space}</dd>
+            <dt className="text-gray-600">Last synced</dt>
+            <dd className="text-gray-900">
+              {settings.lastSyncedAt ? format(new Date(settings.lastSyncedAt), 'PPP p') : 'Not yet'}
+            </dd>
+          </dl>
+          <p className="mb-6 text-xs text-gray-500">Enter the sync code on your other devices to share this profile with them.</p>
+          <div className="flex gap-4">
+            <button
+              onClick={sync}
+              disabled={busy}
+              className="flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-5 h-5 ${busy ? 'animate-spin' : ''}`} />
+              Sync Now
+            </button>
+            <button
+              onClick={handleDisconnect}
+              disabled={busy}
+              className="bg-gray-200 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              Stop Syncing
+            </button>
+          </div>
+          {blocked && (
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-amber-700">
+              <span>This profile was encrypted after sync was set up, so it has stopped syncing.</span>
+              <button
+                onClick={handleAllowPlaintext}
+                disabled={busy}
+                className="px-4 py-2 rounded-lg border border-amber-300 hover:bg-amber-50 disabled:opacity-50"
+              >
+                Allow Readable Copies
+              </button>
+            </div>
+          )}
+          {settings.lastError && !error && !blocked && (
+            <p className="mt-4 text-sm text-red-600">Last sync failed: {settings.lastError}</p>
+          )}
+        </>
+      ) : (
+        <form onSubmit={handleConnect} className="space-y-4 max-w-lg">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Sync code</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={`${inputClass} font-mono`}
+                placeholder="From another device, or create one"
+                required
+              />
+              <button
+                type="button"
+                onClick={() => setCode(createSyncCode())}
+                className="whitespace-nowrap px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                New Code
+              </button>
+            </div>
+            {invalidCode && (
+              <p className="mt-1 text-sm text-red-600">Codes are 16 to 64 letters, digits, dashes or underscores.</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Server token (optional)</label>
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              className={inputClass}
+              placeholder="Only if the server sets SYNC_TOKEN"
+              autoComplete="off"
+            />
+          </div>
+          {encrypted && (
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={allowPlaintext}
+                onChange={(e) => setAllowPlaintext(e.target.checked)}
+                className="mt-0.5 rounded"
+              />
+              <span>
+                Send readable copies of this profile&apos;s records to the sync server.{' '}
+                <span className="text-red-600">Anyone with access to the server can read your health history.</span>
+              </span>
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={busy || invalidCode || (encrypted && !allowPlaintext)}
+            className="flex items-center gap-2 bg-primary-600 text-white px-6 py-3 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            <Cloud className="w-5 h-5" />
+            Start Syncing
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      {message && <p className="mt-4 text-sm text-green-700">{message}</p>}
+    </div>
+  );
+}
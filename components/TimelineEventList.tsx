@@ -0,0 +1,119 @@
+'use client';
+
+import { Utensils, Dumbbell, Pill, ThumbsUp, ThumbsDown, Check, X, Coffee } from 'lucide-react';
+import { format } from 'date-fns';
+import type { TimelineEvent } from '@/lib/timeline';
+
+interface TimelineEventListProps {
+  events: TimelineEvent[];
+}
+
+function EventIcon({ event }: { event: TimelineEvent }) {
+  const className = 'w-4 h-4';
+  switch (event.kind) {
+    case 'meal':
+      return <Utensils className={className} />;
+    case 'exercise':
+      return <Dumbbell className={className} />;
+    case 'remedy-use':
+      return <Pill className={className} />;
+    case 'remedy-outcome':
+      return event.outcome.helped ? <ThumbsUp className={className} /> : <ThumbsDown className={className} />;
+    case 'dose':
+      return event.record.status === 'taken' ? <Check className={className} /> : <X className={className} />;
+  }
+}
+
+const iconColors: Record<TimelineEvent['kind'], string> = {
+  'meal': 'bg-blue-100 text-blue-700',
+  'exercise': 'bg-green-100 text-green-700',
+  'remedy-use': 'bg-purple-100 text-purple-700',
+  'remedy-outcome': 'bg-purple-50 text-purple-600',
+  'dose': 'bg-gray-100 text-gray-600',
+};
+
+function EventBody({ event }: { event: TimelineEvent }) {
+  switch (event.kind) {
+    case 'meal': {
+      const { entry } = event;
+      return (
+        <>
+          <div className="font-medium text-gray-900 capitalize">
+            {entry.meal}
+            {entry.caffeine && <Coffee className="inline w-4 h-4 ml-2 text-amber-600" />}
+          </div>
+          <div className="text-gray-600">{entry.foods.join(', ')}</div>
+          {entry.symptoms.length > 0 && (
+            <div className="text-red-600">
+              {entry.symptoms.join(', ')} (severity {entry.severity}/10)
+            </div>
+          )}
+        </>
+      );
+    }
+    case 'exercise': {
+      const { entry } = event;
+      return (
+        <>
+          <div className="font-medium text-gray-900">{entry.type}</div>
+          <div className="text-gray-600">
+            {entry.duration} min · {entry.intensity} intensity · recovery {entry.recovery}/10
+          </div>
+          {entry.notes && <div className="text-gray-500 italic">{entry.notes}</div>}
+        </>
+      );
+    }
+    case 'remedy-use': {
+      const { usage, remedy } = event;
+      return (
+        <>
+          <div className="font-medium text-gray-900">
+            {remedy?.name ?? 'Deleted remedy'}{usage.dose && <span className="font-normal text-gray-600"> · {usage.dose}</span>}
+          </div>
+          <div className="text-gray-600">
+            For {usage.condition}, severity {usage.severityBefore}
+            {usage.severityAfter !== undefined && <> → {usage.severityAfter}</>}
+          </div>
+        </>
+      );
+    }
+    case 'remedy-outcome':
+      return (
+        <div className="text-gray-900">
+          <span className="font-medium">{event.remedy?.name ?? 'Deleted remedy'}</span>{' '}
+          {event.outcome.helped ? 'helped' : 'did not help'}
+        </div>
+      );
+    case 'dose':
+      return (
+        <div className="text-gray-900">
+          <span className="font-medium">{event.remedy?.name ?? 'Deleted remedy'}</span>{' '}
+          dose {event.record.status === 'taken' ? 'taken' : 'skipped'}
+          <span className="text-gray-500"> (due {format(new Date(event.record.dueAt), 'p')})</span>
+        </div>
+      );
+  }
+}
+
+// Events in the order given, each with its time and an icon for its kind
+export default function TimelineEventList({ events }: TimelineEventListProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing logged.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {events.map(event => (
+        <li key={event.id} className="flex items-start gap-3 text-sm">
+          <span className="w-16 flex-shrink-0 pt-1 font-mono text-gray-500">{format(event.time, 'HH:mm')}</span>
+          <span className={`flex-shrink-0 p-1.5 rounded-full ${iconColors[event.kind]}`}>
+            <EventIcon event={event} />
+          </span>
+          <div className="min-w-0">
+            <EventBody event={event} />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,271 @@
+import { addHours, format } from 'date-fns';
+import { isZip, listZipEntries, openZipEntry } from './zip';
+import type { ExerciseEntry, SleepRecord } from './storage';
+
+// Streaming importer for the Health app's "Export All Health Data" archive.
+// export.xml is scanned tag by tag as it is inflated, so memory use stays
+// flat and the tab keeps responding between chunks even for very large files.
+
+export interface AppleHealthResult {
+  workouts: ExerciseEntry[];
+  sleep: SleepRecord[];
+}
+
+export type ProgressCallback = (fraction: number) => void;
+
+interface WorkoutDraft {
+  attributes: Record<string, string>;
+  averageHeartRate?: number;
+  energyKcal?: number;
+}
+
+const ASLEEP_VALUES = [
+  'HKCategoryValueSleepAnalysisAsleep',
+  'HKCategoryValueSleepAnalysisAsleepUnspecified',
+  'HKCategoryValueSleepAnalysisAsleepCore',
+  'HKCategoryValueSleepAnalysisAsleepDeep',
+  'HKCategoryValueSleepAnalysisAsleepREM',
+];
+const IN_BED_VALUE = 'HKCategoryValueSleepAnalysisInBed';
+
+const SLEEP_RECORD_PREFIX = 'Record type="HKCategoryTypeIdentifierSleepAnalysis"';
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(tag: string) {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:]+)="([^"]*)"/g;
+  let match;
+  while ((match = pattern.exec(tag))) attributes[match[1]] = decodeEntities(match[2]);
+  return attributes;
+}
+
+// Health dates look like "2024-03-01 07:15:02 -0500"
+export function parseHealthDate(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// HKWorkoutActivityTypeTraditionalStrengthTraining -> Traditional Strength Training
+export function workoutTypeName(activityType: string | undefined) {
+  if (!activityType) return 'Workout';
+  return activityType.replace(/^HKWorkoutActivityType/, '').replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+function toMinutes(value: number, unit: string | undefined) {
+  if (unit === 's') return value / 60;
+  if (unit === 'hr' || unit === 'h') return value * 60;
+  return value;
+}
+
+function toKcal(value: number, unit: string | undefined) {
+  return unit === 'kJ' ? value / 4.184 : value;
+}
+
+// Heart rate is the better signal; energy burned per minute is the fallback
+// for workouts recorded without one.
+export function deriveIntensity(averageHeartRate: number | undefined, kcalPerMinute: number | undefined): ExerciseEntry['intensity'] {
+  if (averageHeartRate) {
+    return averageHeartRate >= 140 ? 'high' : averageHeartRate >= 110 ? 'medium' : 'low';
+  }
+  if (kcalPerMinute) {
+    return kcalPerMinute >= 10 ? 'high' : kcalPerMinute >= 5 ? 'medium' : 'low';
+  }
+  return 'medium';
+}
+
+function buildWorkout(draft: WorkoutDraft): ExerciseEntry | null {
+  const { attributes } = draft;
+  const start = parseHealthDate(attributes.startDate);
+  const end = parseHealthDate(attributes.endDate);
+  if (!start) return null;
+
+  const rawDuration = parseFloat(attributes.duration);
+  const duration = Number.isFinite(rawDuration)
+    ? toMinutes(rawDuration, attributes.durationUnit)
+    : end ? (end.getTime() - start.getTime()) / 60000 : 0;
+  if (duration <= 0) return null;
+
+  const rawEnergy = parseFloat(attributes.totalEnergyBurned);
+  const energy = draft.energyKcal ?? (Number.isFinite(rawEnergy) ? toKcal(rawEnergy, attributes.totalEnergyBurnedUnit) : undefined);
+
+  const details = [
+    draft.averageHeartRate ? `avg HR ${Math.round(draft.averageHeartRate)} bpm` : '',
+    energy ? `${Math.round(energy)} kcal` : '',
+  ].filter(d => d);
+
+  return {
+    // Stable id so importing the same export twice does not duplicate workouts
+    id: `apple-${start.toISOString()}-${attributes.workoutActivityType ?? 'workout'}`,
+    date: start.toISOString(),
+    type: workoutTypeName(attributes.workoutActivityType),
+    duration: Math.round(duration),
+    intensity: deriveIntensity(draft.averageHeartRate, energy ? energy / duration : undefined),
+    recovery: 5,
+    notes: `Imported from Apple Health${attributes.sourceName ? ` (${attributes.sourceName})` : ''}${details.length ? `: ${details.join(', ')}` : ''}`,
+  };
+}
+
+// Total of the union of intervals, so overlapping samples from a watch and
+// a phone are not counted twice
+function coveredMilliseconds(intervals: [number, number][]) {
+  const sorted = intervals.slice().sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const [start, end] of sorted) {
+    if (!current || start > current[1]) {
+      if (current) total += current[1] - current[0];
+      current = [start, end];
+    } else {
+      current[1] = Math.max(current[1], end);
+    }
+  }
+  if (current) total += current[1] - current[0];
+  return total;
+}
+
+// Nights run noon to noon and are dated by the morning they end on, so a
+// night that starts before midnight is not split across two days
+const nightOf = (start: Date) => format(addHours(start, 12), 'yyyy-MM-dd');
+
+class SleepAccumulator {
+  // Keyed by nightOf ("last night" for that day)
+  private asleep = new Map<string, [number, number][]>();
+  private inBed = new Map<string, [number, number][]>();
+  private sources = new Map<string, string>();
+
+  add(attributes: Record<string, string>) {
+    const start = parseHealthDate(attributes.startDate);
+    const end = parseHealthDate(attributes.endDate);
+    if (!start || !end || end <= start) return;
+
+    const target = ASLEEP_VALUES.includes(attributes.value)
+      ? this.asleep
+      : attributes.value === IN_BED_VALUE ? this.inBed : null;
+    if (!target) return;
+
+    const night = nightOf(start);
+    if (!target.has(night)) target.set(night, []);
+    target.get(night)!.push([start.getTime(), end.getTime()]);
+    if (attributes.sourceName && !this.sources.has(night)) this.sources.set(night, attributes.sourceName);
+  }
+
+  nights(): SleepRecord[] {
+    const dates = new Set([...Array.from(this.asleep.keys()), ...Array.from(this.inBed.keys())]);
+    return Array.from(dates).sort().map(date => {
+      // Older sources only record time in bed
+      const intervals = this.asleep.get(date) ?? this.inBed.get(date)!;
+      const hours = Math.round((coveredMilliseconds(intervals) / 3600000) * 10) / 10;
+      return { id: date, date, hours, source: `Apple Health${this.sources.has(date) ? ` (${this.sources.get(date)})` : ''}` };
+    }).filter(night => night.hours > 0);
+  }
+}
+
+// Index of the '>' closing the tag opened at `open`, or -1 when the tag runs
+// past the end of the buffer. Attribute values may contain '>' themselves.
+// Comments and declarations are not made of attributes, so end at the first.
+function findTagEnd(buffer: string, open: number) {
+  if (buffer[open + 1] === '!' || buffer[open + 1] === '?') return buffer.indexOf('>', open);
+  const special = /["'>]/g;
+  special.lastIndex = open;
+  let match;
+  while ((match = special.exec(buffer))) {
+    if (match[0] === '>') return match.index;
+    const closingQuote = buffer.indexOf(match[0], match.index + 1);
+    if (closingQuote < 0) return -1;
+    special.lastIndex = closingQuote + 1;
+  }
+  return -1;
+}
+
+async function scanExport(stream: ReadableStream<Uint8Array>): Promise<AppleHealthResult> {
+  const reader = stream
+    .pipeThrough(new TextDecoderStream() as unknown as TransformStream<Uint8Array, string>)
+    .getReader();
+  const workouts: ExerciseEntry[] = [];
+  const sleep = new SleepAccumulator();
+  let workout: WorkoutDraft | null = null;
+  let buffer = '';
+
+  const finishWorkout = () => {
+    const entry = workout && buildWorkout(workout);
+    if (entry) workouts.push(entry);
+    workout = null;
+  };
+
+  const handleTag = (start: number, end: number) => {
+    // `start` is the index just after '<'
+    if (buffer.startsWith('Workout ', start)) {
+      const tag = buffer.slice(start, end);
+      workout = { attributes: parseAttributes(tag) };
+      if (tag.endsWith('/')) finishWorkout();
+    } else if (buffer.startsWith('/Workout>', start)) {
+      finishWorkout();
+    } else if (workout && buffer.startsWith('WorkoutStatistics ', start)) {
+      const stats = parseAttributes(buffer.slice(start, end));
+      if (stats.type === 'HKQuantityTypeIdentifierHeartRate' && stats.average) {
+        workout.averageHeartRate = parseFloat(stats.average);
+      } else if (stats.type === 'HKQuantityTypeIdentifierActiveEnergyBurned' && stats.sum) {
+        workout.energyKcal = toKcal(parseFloat(stats.sum), stats.unit);
+      }
+    } else if (buffer.startsWith(SLEEP_RECORD_PREFIX, start)) {
+      sleep.add(parseAttributes(buffer.slice(start, end)));
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let pos = 0;
+    for (;;) {
+      const open = buffer.indexOf('<', pos);
+      if (open < 0) {
+        pos = buffer.length;
+        break;
+      }
+      const close = findTagEnd(buffer, open);
+      if (close < 0) {
+        // Tag continues in the next chunk
+        pos = open;
+        break;
+      }
+      handleTag(open + 1, close);
+      pos = close + 1;
+    }
+    buffer = buffer.slice(pos);
+  }
+
+  return { workouts, sleep: sleep.nights() };
+}
+
+// Accepts either the export.zip straight from the Health app or an
+// already extracted export.xml
+export async function parseAppleHealthExport(file: Blob, onProgress?: ProgressCallback): Promise<AppleHealthResult> {
+  if (await isZip(file)) {
+    const entries = await listZipEntries(file);
+    const entry = entries.find(e => /(^|\/)export\.xml$/.test(e.name));
+    if (!entry) throw new Error('No export.xml found in this archive. Is it an Apple Health export?');
+    return scanExport(await openZipEntry(file, entry, onProgress));
+  }
+
+  let consumed = 0;
+  const counted = file.stream().pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      consumed += chunk.byteLength;
+      onProgress?.(file.size > 0 ? consumed / file.size : 1);
+      controller.enqueue(chunk);
+    },
+  }));
+  return scanExport(counted);
+}
@@ -0,0 +1,302 @@
+import { format } from 'date-fns';
+import {
+  getBackend,
+  getEncryptionKeys,
+  getEncryptionSettings,
+  getSchemaVersion,
+  setSchemaVersion,
+  withProfileBackend,
+} from './storage';
+import { getActiveProfileId, getProfiles } from './profiles';
+import { dataCollectionNames, type CollectionName } from './repository';
+import {
+  CURRENT_SCHEMA_VERSION,
+  planMigrations,
+  restoreSnapshot,
+  takeSnapshot,
+  type Snapshot,
+  type StoredRecord,
+} from './migrations';
+import { recordProblem } from './recordValidation';
+import { decryptText, deriveKeys, encryptText, PassphraseError, PBKDF2_ITERATIONS, type EncryptedValue } from './encryption';
+
+export const BACKUP_FORMAT = 'health-tracker-backup';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  // Name of the profile the data came from; restores go to the active profile
+  profile?: string;
+  collections: Snapshot;
+}
+
+// Backups of an encrypted profile keep their records encrypted with a key
+// from the same passphrase; the salt travels with the file so it can be
+// restored on another device
+export interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  profile?: string;
+  encryption: { salt: string; iterations: number };
+  collections: EncryptedValue;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface CollectionRestoreSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  backupVersion: number;
+  exportedAt: string;
+  // Dry run of the migrations that bring an older backup's records up to date
+  upgrades: { version: number; description: string; changed: number }[];
+  collections: Record<CollectionName, CollectionRestoreSummary>;
+}
+
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+// Encrypted profiles get an encrypted backup unless `plaintext` is set
+export async function createBackup(
+  profileId = getActiveProfileId(),
+  plaintext = false
+): Promise<BackupFile | EncryptedBackupFile> {
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    schemaVersion: getSchemaVersion(profileId),
+    exportedAt: new Date().toISOString(),
+    profile: getProfiles().find(profile => profile.id === profileId)?.name,
+    collections: await withProfileBackend(profileId, backend => takeSnapshot(backend, dataCollectionNames)),
+  };
+  // withProfileBackend only returns data for an encrypted profile once it is unlocked
+  const settings = getEncryptionSettings(profileId);
+  const keys = getEncryptionKeys();
+  if (plaintext || !settings || !keys) return backup;
+  return {
+    ...backup,
+    encryption: { salt: settings.salt, iterations: settings.iterations },
+    collections: await encryptText(keys.backup, JSON.stringify(backup.collections), BACKUP_FORMAT),
+  };
+}
+
+export function downloadBackup(backup: BackupFile | EncryptedBackupFile) {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  const profile = backup.profile ? `${backup.profile.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-` : '';
+  link.download = `health-tracker-backup-${profile}${format(new Date(backup.exportedAt), 'yyyy-MM-dd')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// A parsed file whose fields have not been checked yet
+type BackupJson = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readBackupJson(text: string): BackupJson {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError('File is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError('File is not a Health Tracker backup');
+  }
+  return data;
+}
+
+// The encryption settings themselves are checked by decryptBackup
+function isEncrypted(data: BackupJson) {
+  return 'encryption' in data;
+}
+
+export function isEncryptedBackup(text: string) {
+  return isEncrypted(readBackupJson(text));
+}
+
+// Checks the file shape and upgrades its records to the current schema
+export function parseBackup(text: string): BackupFile {
+  const data = readBackupJson(text);
+  if (isEncrypted(data)) {
+    throw new BackupValidationError('Backup is encrypted; enter its passphrase to restore it');
+  }
+  return validateBackup(data);
+}
+
+// Throws PassphraseError when the passphrase does not match the one the
+// backup was made with
+export async function decryptBackup(text: string, passphrase: string): Promise<BackupFile> {
+  const data = readBackupJson(text);
+  if (!isEncrypted(data)) return validateBackup(data);
+  const { encryption, collections: sealed } = data;
+  const { salt, iterations } = isObject(encryption) ? encryption : { salt: undefined, iterations: undefined };
+  // A huge iteration count would freeze the page
+  if (
+    typeof salt !== 'string' ||
+    typeof iterations !== 'number' ||
+    !Number.isInteger(iterations) ||
+    iterations < 1 ||
+    iterations > PBKDF2_ITERATIONS * 10
+  ) {
+    throw new BackupValidationError('Backup has invalid encryption settings');
+  }
+  if (!isObject(sealed) || typeof sealed.iv !== 'string' || typeof sealed.data !== 'string') {
+    throw new BackupValidationError('Backup has no encrypted records');
+  }
+  const keys = await deriveKeys(passphrase, salt, iterations);
+  let collections: unknown;
+  try {
+    collections = JSON.parse(await decryptText(keys.backup, { iv: sealed.iv, data: sealed.data }, BACKUP_FORMAT));
+  } catch {
+    throw new PassphraseError();
+  }
+  return validateBackup({ ...data, collections });
+}
+
+const isStoredRecord = (value: unknown): value is StoredRecord =>
+  isObject(value) && typeof value.id === 'string' && value.id !== '';
+
+function validateBackup(data: BackupJson): BackupFile {
+  const { schemaVersion } = data;
+  if (typeof schemaVersion !== 'number' || schemaVersion < 1) {
+    throw new BackupValidationError('Backup has no valid schema version');
+  }
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupValidationError(
+      `Backup was made by a newer version of the app (schema ${schemaVersion}, this app supports ${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+  if (data.collections !== undefined && !isObject(data.collections)) {
+    throw new BackupValidationError('Backup has no valid collections');
+  }
+
+  const collections = {} as Snapshot;
+  for (const name of dataCollectionNames) {
+    const records = data.collections?.[name] ?? [];
+    if (!Array.isArray(records)) {
+      throw new BackupValidationError(`"${name}" must be a list of records`);
+    }
+    const invalid = records.findIndex(record => !isStoredRecord(record));
+    if (invalid >= 0) {
+      throw new BackupValidationError(`Record ${invalid + 1} in "${name}" has no id`);
+    }
+    const valid = records.filter(isStoredRecord);
+    const ids = new Set(valid.map(record => record.id));
+    if (ids.size !== valid.length) {
+      throw new BackupValidationError(`"${name}" contains duplicate ids`);
+    }
+    collections[name] = valid;
+  }
+
+  // Older backups also carry undated "today" inputs; they are ignored.
+  // Records are checked as they will be once upgraded; the upgrade itself
+  // happens on restore, so the preview can report it.
+  let upgraded: Snapshot;
+  try {
+    upgraded = planMigrations(collections, schemaVersion).result;
+  } catch (error) {
+    throw new BackupValidationError(`Backup could not be upgraded: ${(error as Error).message}`);
+  }
+
+  for (const name of dataCollectionNames) {
+    upgraded[name].forEach((record, i) => {
+      const problem = recordProblem(name, record);
+      if (problem) throw new BackupValidationError(`Record ${i + 1} in "${name}" ${problem}`);
+    });
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    profile: typeof data.profile === 'string' ? data.profile : undefined,
+    collections,
+  };
+}
+
+function mergeRecords(existing: StoredRecord[], incoming: StoredRecord[], mode: RestoreMode) {
+  const current = new Map(existing.map(r => [r.id, r]));
+  const summary: CollectionRestoreSummary = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+
+  incoming.forEach(record => {
+    const match = current.get(record.id);
+    if (!match) summary.added++;
+    else if (JSON.stringify(match) === JSON.stringify(record)) summary.unchanged++;
+    else summary.updated++;
+  });
+
+  if (mode === 'replace') {
+    const incomingIds = new Set(incoming.map(r => r.id));
+    summary.removed = existing.filter(r => !incomingIds.has(r.id)).length;
+    return { records: incoming, summary };
+  }
+
+  // Merge: backup records win on id clashes, everything else is kept
+  incoming.forEach(record => current.set(record.id, record));
+  return { records: Array.from(current.values()), summary };
+}
+
+async function buildRestore(backup: BackupFile, mode: RestoreMode) {
+  const existing = await takeSnapshot(await getBackend(), dataCollectionNames);
+  // Already checked to succeed by validateBackup
+  const { report, result: upgraded } = planMigrations(backup.collections, backup.schemaVersion);
+  const result = {} as Snapshot;
+  const collections = {} as Record<CollectionName, CollectionRestoreSummary>;
+
+  dataCollectionNames.forEach(name => {
+    const merged = mergeRecords(existing[name], upgraded[name], mode);
+    result[name] = merged.records;
+    collections[name] = merged.summary;
+  });
+
+  const plan: RestorePlan = {
+    mode,
+    backupVersion: backup.schemaVersion,
+    exportedAt: backup.exportedAt,
+    upgrades: report.steps.map(step => ({
+      version: step.version,
+      description: step.description,
+      changed: step.changes.length,
+    })),
+    collections,
+  };
+
+  return { plan, result, existing };
+}
+
+// Summary of what a restore would do, without writing anything
+export async function planRestore(backup: BackupFile, mode: RestoreMode): Promise<RestorePlan> {
+  return (await buildRestore(backup, mode)).plan;
+}
+
+export async function applyRestore(backup: BackupFile, mode: RestoreMode): Promise<RestorePlan> {
+  const backend = await getBackend();
+  const { plan, result, existing } = await buildRestore(backup, mode);
+  try {
+    await restoreSnapshot(backend, result, dataCollectionNames);
+  } catch (error) {
+    await restoreSnapshot(backend, existing, dataCollectionNames);
+    throw error;
+  }
+
+  setSchemaVersion(CURRENT_SCHEMA_VERSION);
+
+  return plan;
+}
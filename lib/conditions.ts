@@ -0,0 +1,184 @@
+import { builtinVocabulary } from './symptoms';
+import type { DailyData } from './predictions';
+import type { NutritionEntry } from './storage';
+
+// Condition registry: every tracked condition, its display settings and the
+// rules that estimate its daily risk. Rules are plain data so user-defined
+// conditions can be stored alongside the built-ins.
+
+export type RuleFactor = keyof DailyData;
+export type RuleComparison = '<' | '<=' | '>' | '>=' | '==';
+
+export interface RuleTest {
+  factor: RuleFactor;
+  comparison: RuleComparison;
+  value: number | boolean;
+}
+
+export interface RiskRule {
+  label: string;
+  // All tests must pass for the rule to apply
+  when: RuleTest[];
+  // Percentage points added to the baseline (negative for protective factors)
+  points: number;
+  // Only the first matching rule in a group applies, which expresses
+  // "either/or" rules such as "coffee with poor sleep, else coffee"
+  group?: string;
+}
+
+export interface ConditionDefinition {
+  // Stable key used for chart series and storage
+  id: string;
+  // Display name; also what remedies and symptoms refer to
+  name: string;
+  color: string;
+  baseline: number;
+  // Probability above which the risk is rated high / medium
+  thresholds: { high: number; medium: number };
+  rules: RiskRule[];
+  // Canonical symptoms that count toward this condition, on top of the
+  // mapping in symptoms.ts
+  symptoms: string[];
+  builtin: boolean;
+}
+
+const test = (factor: RuleFactor, comparison: RuleComparison, value: number | boolean): RuleTest => ({ factor, comparison, value });
+
+export const builtinConditions: ConditionDefinition[] = [
+  {
+    id: 'acid-reflux',
+    name: 'Acid Reflux',
+    color: '#ef4444',
+    baseline: 20,
+    thresholds: { high: 60, medium: 35 },
+    rules: [
+      { label: 'Coffee + less than 6 hours sleep', when: [test('caffeine', '==', true), test('sleep', '<', 6)], points: 30, group: 'caffeine' },
+      { label: 'Caffeine consumption', when: [test('caffeine', '==', true)], points: 15, group: 'caffeine' },
+      { label: 'Poor sleep (<6 hours)', when: [test('sleep', '<', 6)], points: 15 },
+      { label: 'High stress levels', when: [test('stress', '>', 7)], points: 20 },
+      { label: 'Exercise (protective)', when: [test('exercise', '==', true)], points: -10 },
+    ],
+    symptoms: [],
+    builtin: true,
+  },
+  {
+    id: 'migraine',
+    name: 'Migraine',
+    color: '#8b5cf6',
+    baseline: 15,
+    thresholds: { high: 55, medium: 30 },
+    rules: [
+      { label: 'Irregular sleep pattern', when: [test('sleep', '<', 7)], points: 25, group: 'sleep' },
+      { label: 'Irregular sleep pattern', when: [test('sleep', '>', 9)], points: 25, group: 'sleep' },
+      { label: 'Elevated stress', when: [test('stress', '>', 6)], points: 20 },
+      { label: 'Caffeine + sleep deprivation', when: [test('caffeine', '==', true), test('sleep', '<', 7)], points: 15 },
+      { label: 'Exercise (protective)', when: [test('exercise', '==', true)], points: -15 },
+    ],
+    symptoms: [],
+    builtin: true,
+  },
+  {
+    id: 'ibs',
+    name: 'IBS Symptoms',
+    color: '#f59e0b',
+    baseline: 25,
+    thresholds: { high: 60, medium: 40 },
+    rules: [
+      { label: 'High stress (major trigger)', when: [test('stress', '>', 7)], points: 30 },
+      { label: 'Sleep deprivation', when: [test('sleep', '<', 6)], points: 15 },
+      { label: 'Lack of physical activity', when: [test('exercise', '==', false)], points: 10 },
+      { label: 'Regular exercise (protective)', when: [test('exercise', '==', true)], points: 0 },
+    ],
+    symptoms: [],
+    builtin: true,
+  },
+  {
+    id: 'skin',
+    name: 'Skin Flare-ups',
+    color: '#10b981',
+    baseline: 20,
+    thresholds: { high: 55, medium: 35 },
+    rules: [
+      { label: 'High stress levels', when: [test('stress', '>', 7)], points: 25 },
+      { label: 'Insufficient sleep', when: [test('sleep', '<', 7)], points: 20 },
+      { label: 'Exercise improves circulation', when: [test('exercise', '==', true)], points: -10 },
+    ],
+    symptoms: [],
+    builtin: true,
+  },
+];
+
+export const ruleFactors: { factor: RuleFactor; label: string; kind: 'number' | 'boolean' }[] = [
+  { factor: 'sleep', label: 'Sleep (hours)', kind: 'number' },
+  { factor: 'stress', label: 'Stress (1-10)', kind: 'number' },
+  { factor: 'caffeine', label: 'Caffeine', kind: 'boolean' },
+  { factor: 'exercise', label: 'Exercise', kind: 'boolean' },
+];
+
+function passes({ factor, comparison, value }: RuleTest, data: DailyData) {
+  const actual = data[factor];
+  switch (comparison) {
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '==': return actual === value;
+  }
+}
+
+const comparisons: RuleComparison[] = ['<', '<=', '>', '>=', '=='];
+
+// Checks a rule from outside this device (a backup or sync) before it is stored
+export function isValidRule(rule: RiskRule) {
+  return (
+    typeof rule.label === 'string' &&
+    Number.isFinite(rule.points) &&
+    (rule.group === undefined || typeof rule.group === 'string') &&
+    Array.isArray(rule.when) &&
+    rule.when.every(
+      t =>
+        typeof t === 'object' &&
+        t !== null &&
+        ruleFactors.some(f => f.factor === t.factor) &&
+        comparisons.includes(t.comparison) &&
+        (Number.isFinite(t.value) || typeof t.value === 'boolean')
+    )
+  );
+}
+
+export function isValidThresholds(thresholds: ConditionDefinition['thresholds']) {
+  return Number.isFinite(thresholds.high) && Number.isFinite(thresholds.medium);
+}
+
+// Rules that apply to `data`, honouring groups
+export function matchingRules(condition: ConditionDefinition, data: DailyData) {
+  const usedGroups = new Set<string>();
+  return condition.rules.filter(rule => {
+    if (rule.group && usedGroups.has(rule.group)) return false;
+    if (!rule.when.every(t => passes(t, data))) return false;
+    if (rule.group) usedGroups.add(rule.group);
+    return true;
+  });
+}
+
+export function getSeverity(condition: ConditionDefinition, probability: number): 'low' | 'medium' | 'high' {
+  const { high, medium } = condition.thresholds;
+  return probability > high ? 'high' : probability > medium ? 'medium' : 'low';
+}
+
+export function symptomCountsToward(symptom: string, condition: ConditionDefinition) {
+  const canonical = builtinVocabulary.normalize(symptom);
+  return builtinVocabulary.conditionsFor(canonical).includes(condition.name) || condition.symptoms.includes(canonical);
+}
+
+export function hasSymptomFor(entry: NutritionEntry, condition: ConditionDefinition) {
+  return entry.symptoms.some(symptom => symptomCountsToward(symptom, condition));
+}
+
+// URL-safe id for a user-defined condition, unique among `existing`
+export function conditionId(name: string, existing: ConditionDefinition[]) {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'condition';
+  let id = base;
+  for (let n = 2; existing.some(c => c.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
@@ -0,0 +1,95 @@
+import { builtinConditions, hasSymptomFor, type ConditionDefinition } from './conditions';
+import {
+  adjustPValues,
+  contingencyTable,
+  correlationInference,
+  fisherExact,
+  phiCoefficient,
+  pointBiserial,
+  relativeRisk,
+  type ContingencyTable,
+  type Estimate,
+} from './statistics';
+import { toDateKey, type NutritionEntry, type ExerciseEntry } from './storage';
+
+// Tests every logged factor against every condition, comparing entries with
+// the factor to entries without it rather than counting co-occurrences.
+
+interface Observation {
+  entry: NutritionEntry;
+  exercised: boolean;
+}
+
+interface Factor {
+  label: string;
+  kind: 'binary' | 'continuous';
+  value: (o: Observation) => number;
+}
+
+export const correlationFactors: Factor[] = [
+  { label: 'Low sleep (<6h)', kind: 'binary', value: o => (o.entry.sleep < 6 ? 1 : 0) },
+  { label: 'High stress (>7)', kind: 'binary', value: o => (o.entry.stress > 7 ? 1 : 0) },
+  { label: 'Caffeine', kind: 'binary', value: o => (o.entry.caffeine ? 1 : 0) },
+  { label: 'Exercise that day', kind: 'binary', value: o => (o.exercised ? 1 : 0) },
+  { label: 'Sleep hours', kind: 'continuous', value: o => o.entry.sleep },
+  { label: 'Stress level', kind: 'continuous', value: o => o.entry.stress },
+];
+
+export interface FactorAssociation {
+  factor: string;
+  condition: string;
+  kind: Factor['kind'];
+  n: number;
+  // Phi for binary factors, point-biserial for continuous ones
+  correlation: Estimate;
+  // Binary factors only
+  relativeRisk?: Estimate;
+  table?: ContingencyTable;
+  p: number;
+  // Benjamini–Hochberg adjusted across every factor and condition pair
+  adjustedP: number;
+  significant: boolean;
+}
+
+export function analyzeFactorAssociations(
+  nutrition: NutritionEntry[],
+  exercise: ExerciseEntry[],
+  conditions: ConditionDefinition[] = builtinConditions,
+  alpha = 0.05
+): FactorAssociation[] {
+  const exerciseDays = new Set(exercise.map(entry => toDateKey(entry.date)));
+  const observations = nutrition.map(entry => ({ entry, exercised: exerciseDays.has(toDateKey(entry.date)) }));
+  const n = observations.length;
+
+  const results: Omit<FactorAssociation, 'adjustedP' | 'significant'>[] = [];
+  conditions.forEach(condition => {
+    const outcomes = observations.map(o => hasSymptomFor(o.entry, condition));
+    // Nothing to compare when the condition never or always shows up
+    if (!outcomes.includes(true) || !outcomes.includes(false)) return;
+
+    correlationFactors.forEach(factor => {
+      const values = observations.map(factor.value);
+      if (new Set(values).size < 2) return;
+
+      if (factor.kind === 'binary') {
+        const table = contingencyTable(observations, o => factor.value(o) === 1, o => hasSymptomFor(o.entry, condition));
+        results.push({
+          factor: factor.label,
+          condition: condition.name,
+          kind: factor.kind,
+          n,
+          correlation: correlationInference(phiCoefficient(table), n).estimate,
+          relativeRisk: relativeRisk(table),
+          table,
+          p: fisherExact(table),
+        });
+      } else {
+        const inference = correlationInference(pointBiserial(values, outcomes), n);
+        results.push({ factor: factor.label, condition: condition.name, kind: factor.kind, n, correlation: inference.estimate, p: inference.p });
+      }
+    });
+  });
+
+  const adjusted = adjustPValues(results.map(r => r.p));
+  return results.map((r, i) => ({ ...r, adjustedP: adjusted[i], significant: adjusted[i] < alpha }));
+}
@@ -0,0 +1,58 @@
+// RFC 4180 CSV parsing: quoted fields may contain delimiters, line breaks
+// and doubled quotes ("") for a literal quote. CRLF and LF are both accepted.
+export function parseCSV(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // skip BOM
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    // Ignore blank lines rather than returning a row with one empty field
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n') {
+      endRow();
+    } else if (char === '\r') {
+      if (text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+// Picks the delimiter that splits the first line into the most columns
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const columns = (delimiter: string) => parseCSV(firstLine, delimiter)[0]?.length ?? 0;
+  return [',', ';', '\t'].reduce((best, candidate) => (columns(candidate) > columns(best) ? candidate : best));
+}
@@ -0,0 +1,64 @@
+import { inRange, type CollectionName, type Repository, type StorageBackend } from './repository';
+import { decryptText, encryptText, hashId, type EncryptedValue, type EncryptionKeys } from './encryption';
+
+// Wraps another backend so every record is stored as AES-GCM ciphertext
+// under an HMAC of its id. Stored records carry no readable fields, so the
+// underlying indexes are unused and range queries decrypt and filter the
+// whole collection, like the localStorage backend.
+interface EncryptedRecord extends EncryptedValue {
+  id: string;
+}
+
+function createRepository<T extends { id: string }>(
+  inner: Repository<EncryptedRecord>,
+  collection: CollectionName,
+  keys: EncryptionKeys
+): Repository<T> {
+  const key = keys.collections[collection];
+  const storedId = (id: string) => hashId(keys, collection, id);
+  // The hashed id is authenticated too, so records cannot be swapped
+  const seal = async (record: T): Promise<EncryptedRecord> => {
+    const id = await storedId(record.id);
+    return { id, ...(await encryptText(key, JSON.stringify(record), id)) };
+  };
+  const open = async (record: EncryptedRecord): Promise<T> => JSON.parse(await decryptText(key, record, record.id));
+  const list = async () => Promise.all((await inner.list()).map(open));
+
+  return {
+    async get(id) {
+      const record = await inner.get(await storedId(id));
+      return record && open(record);
+    },
+    list,
+    async put(record) {
+      await inner.put(await seal(record));
+    },
+    async putMany(records) {
+      await inner.putMany(await Promise.all(records.map(seal)));
+    },
+    async delete(id) {
+      await inner.delete(await storedId(id));
+    },
+    clear() {
+      return inner.clear();
+    },
+    async range(field, lower, upper) {
+      const value = (record: T) => String((record as Record<string, unknown>)[field]);
+      return (await list())
+        .filter(record => inRange(value(record), lower, upper))
+        .sort((a, b) => value(a).localeCompare(value(b)));
+    },
+  };
+}
+
+export function createEncryptedBackend(inner: StorageBackend, keys: EncryptionKeys): StorageBackend {
+  return {
+    name: inner.name,
+    repository(collection) {
+      return createRepository(inner.repository(collection) as unknown as Repository<EncryptedRecord>, collection, keys);
+    },
+    close() {
+      inner.close();
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import { collectionNames, type CollectionName } from './repository';
+
+// Passphrase-based encryption with WebCrypto. PBKDF2 turns the passphrase
+// into a master secret; HKDF derives one AES-GCM key per collection from it,
+// plus an HMAC key that hides record ids and keys for the passphrase check
+// and for backups. The passphrase and keys are only ever held in memory.
+
+export interface EncryptionSettings {
+  salt: string; // base64
+  iterations: number;
+  // A known value encrypted with the check key, to verify the passphrase
+  check: EncryptedValue;
+  // Minutes without activity before the app locks; 0 never locks
+  autoLockMinutes: number;
+}
+
+export interface EncryptedValue {
+  iv: string; // base64
+  data: string; // base64
+}
+
+export interface EncryptionKeys {
+  collections: Record<CollectionName, CryptoKey>;
+  ids: CryptoKey;
+  check: CryptoKey;
+  backup: CryptoKey;
+}
+
+export const PBKDF2_ITERATIONS = 600000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+export const autoLockOptions = [1, 5, 15, 30, 60, 0];
+
+const CHECK_VALUE = 'health-tracker';
+
+export class PassphraseError extends Error {
+  constructor(message = 'Incorrect passphrase') {
+    super(message);
+    this.name = 'PassphraseError';
+  }
+}
+
+export function isEncryptionSupported() {
+  return typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+}
+
+export function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(text: string) {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function deriveMasterKey(passphrase: string, salt: BufferSource, iterations: number) {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey']);
+}
+
+function hkdf(master: CryptoKey, purpose: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) {
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode(purpose) },
+    master,
+    algorithm,
+    false,
+    usages
+  );
+}
+
+const aes = (master: CryptoKey, purpose: string) =>
+  hkdf(master, purpose, { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']);
+
+export async function deriveKeys(passphrase: string, salt: string, iterations: number): Promise<EncryptionKeys> {
+  const master = await deriveMasterKey(passphrase, fromBase64(salt), iterations);
+  const collections = {} as Record<CollectionName, CryptoKey>;
+  for (const name of collectionNames) {
+    collections[name] = await aes(master, `collection:${name}`);
+  }
+  return {
+    collections,
+    ids: await hkdf(master, 'ids', { name: 'HMAC', hash: 'SHA-256' }, ['sign']),
+    check: await aes(master, 'check'),
+    backup: await aes(master, 'backup'),
+  };
+}
+
+// `context` is authenticated but not stored, so a value only decrypts in
+// the place it was written for
+export async function encryptText(key: CryptoKey, text: string, context = ''): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    key,
+    encoder.encode(text)
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+export async function decryptText(key: CryptoKey, value: EncryptedValue, context = '') {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(value.iv), additionalData: encoder.encode(context) },
+    key,
+    fromBase64(value.data)
+  );
+  return decoder.decode(data);
+}
+
+// Stable, unreadable stand-in for a record id
+export async function hashId(keys: EncryptionKeys, collection: CollectionName, id: string) {
+  const signature = await crypto.subtle.sign('HMAC', keys.ids, encoder.encode(`${collection}:${id}`));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createEncryptionSettings(
+  passphrase: string,
+  autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES
+): Promise<{ settings: EncryptionSettings; keys: EncryptionKeys }> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const keys = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+  const check = await encryptText(keys.check, CHECK_VALUE);
+  return { settings: { salt, iterations: PBKDF2_ITERATIONS, check, autoLockMinutes }, keys };
+}
+
+// Throws PassphraseError when the passphrase does not match
+export async function unlockKeys(passphrase: string, settings: EncryptionSettings) {
+  const keys = await deriveKeys(passphrase, settings.salt, settings.iterations);
+  try {
+    if ((await decryptText(keys.check, settings.check)) === CHECK_VALUE) return keys;
+  } catch {
+    // AES-GCM rejects a wrong key, which is the expected failure
+  }
+  throw new PassphraseError();
+}
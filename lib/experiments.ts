@@ -0,0 +1,274 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { hasSymptomFor, type ConditionDefinition } from './conditions';
+import { contingencyTable, fisherExact, relativeRisk, type Estimate } from './statistics';
+import { normalizeFood } from './triggers';
+import { toDateKey, type NutritionEntry } from './storage';
+
+// N-of-1 elimination experiments: log as usual for a baseline, cut one food
+// or factor out, then bring it back, and compare symptoms between phases.
+
+export type ExperimentPhase = 'baseline' | 'elimination' | 'reintroduction';
+
+// What is removed. Foods match any logged food containing one of the terms,
+// so "milk" also catches "oat milk latte".
+export type ExperimentTarget =
+  | { kind: 'foods'; foods: string[] }
+  | { kind: 'caffeine' };
+
+export interface Experiment {
+  id: string;
+  name: string;
+  hypothesis: string;
+  target: ExperimentTarget;
+  // Condition name the hypothesis is about; any symptom counts when absent
+  condition?: string;
+  startDate: string; // yyyy-MM-dd
+  phaseDays: Record<ExperimentPhase, number>;
+  createdAt: string;
+}
+
+export interface PhaseRange {
+  phase: ExperimentPhase;
+  start: Date;
+  // Exclusive
+  end: Date;
+}
+
+export interface ProtocolViolation {
+  experiment: Experiment;
+  entry: NutritionEntry;
+  // Logged foods that match the target, or 'caffeine'
+  matches: string[];
+}
+
+export interface PhaseSummary {
+  phase: ExperimentPhase;
+  // Days with at least one nutrition entry
+  loggedDays: number;
+  symptomDays: number;
+  frequency: number;
+  // Mean of each symptom day's highest severity
+  meanSeverity: number;
+  // Entries containing the target
+  exposures: number;
+}
+
+export interface PhaseComparison {
+  from: ExperimentPhase;
+  to: ExperimentPhase;
+  // Risk of a symptom day in `to` relative to `from`
+  relativeRisk: Estimate;
+  p: number;
+  severityChange: number;
+}
+
+export type ExperimentVerdict = 'supported' | 'suggestive' | 'not-supported' | 'not-enough-data';
+
+export interface ExperimentResults {
+  phases: PhaseSummary[];
+  elimination: PhaseComparison;
+  reintroduction: PhaseComparison;
+  violations: number;
+  complete: boolean;
+  verdict: ExperimentVerdict;
+  summary: string[];
+}
+
+export const experimentPhases: ExperimentPhase[] = ['baseline', 'elimination', 'reintroduction'];
+
+export const phaseLabels: Record<ExperimentPhase, string> = {
+  baseline: 'Baseline',
+  elimination: 'Elimination',
+  reintroduction: 'Reintroduction',
+};
+
+export const DEFAULT_PHASE_DAYS: Record<ExperimentPhase, number> = {
+  baseline: 7,
+  elimination: 14,
+  reintroduction: 7,
+};
+
+// Phases with fewer logged days than this make the results inconclusive
+export const MIN_LOGGED_DAYS = 3;
+
+// Checks for experiments from outside this device (a backup or sync)
+export function isValidTarget(target: ExperimentTarget) {
+  switch (target.kind) {
+    case 'caffeine':
+      return true;
+    case 'foods':
+      return Array.isArray(target.foods) && target.foods.every(food => typeof food === 'string');
+    default:
+      return false;
+  }
+}
+
+export function isValidPhaseDays(phaseDays: Record<ExperimentPhase, number>) {
+  return experimentPhases.every(phase => Number.isFinite(phaseDays[phase]) && phaseDays[phase] >= 0);
+}
+
+// "milk, cheese or yogurt"
+export function targetLabel(target: ExperimentTarget) {
+  if (target.kind === 'caffeine') return 'caffeine';
+  const foods = target.foods;
+  return foods.length > 1 ? `${foods.slice(0, -1).join(', ')} or ${foods[foods.length - 1]}` : foods.join('');
+}
+
+export function phaseRanges(experiment: Experiment): PhaseRange[] {
+  let start = parseISO(experiment.startDate);
+  return experimentPhases.map(phase => {
+    const end = addDays(start, experiment.phaseDays[phase]);
+    const range = { phase, start, end };
+    start = end;
+    return range;
+  });
+}
+
+export function experimentEnd(experiment: Experiment) {
+  return phaseRanges(experiment)[experimentPhases.length - 1].end;
+}
+
+export function phaseOn(experiment: Experiment, date: Date): ExperimentPhase | undefined {
+  return phaseRanges(experiment).find(range => date >= range.start && date < range.end)?.phase;
+}
+
+// Day number within the current phase, from 1
+export function phaseDay(experiment: Experiment, date: Date) {
+  const range = phaseRanges(experiment).find(r => date >= r.start && date < r.end);
+  return range ? differenceInCalendarDays(date, range.start) + 1 : undefined;
+}
+
+export function targetMatches(target: ExperimentTarget, entry: NutritionEntry): string[] {
+  if (target.kind === 'caffeine') return entry.caffeine ? ['caffeine'] : [];
+  const terms = target.foods.map(normalizeFood).filter(Boolean);
+  return entry.foods.filter(food => terms.some(term => normalizeFood(food).includes(term)));
+}
+
+// Entries logged during an elimination phase that contain what was removed
+export function protocolViolations(experiments: Experiment[], entries: NutritionEntry[]): ProtocolViolation[] {
+  return experiments.flatMap(experiment =>
+    entries
+      .filter(entry => phaseOn(experiment, parseISO(entry.date)) === 'elimination')
+      .map(entry => ({ experiment, entry, matches: targetMatches(experiment.target, entry) }))
+      .filter(violation => violation.matches.length > 0)
+  );
+}
+
+interface DayObservation {
+  phase: ExperimentPhase;
+  symptomatic: boolean;
+  severity: number;
+}
+
+function observeDays(experiment: Experiment, entries: NutritionEntry[], condition?: ConditionDefinition) {
+  const days = new Map<string, DayObservation>();
+  entries.forEach(entry => {
+    const phase = phaseOn(experiment, parseISO(entry.date));
+    if (!phase) return;
+    const key = toDateKey(entry.date);
+    const day = days.get(key) ?? { phase, symptomatic: false, severity: 0 };
+    const symptomatic = condition ? hasSymptomFor(entry, condition) : entry.symptoms.length > 0;
+    if (symptomatic) {
+      day.symptomatic = true;
+      day.severity = Math.max(day.severity, entry.severity);
+    }
+    days.set(key, day);
+  });
+  return Array.from(days.values());
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function summarizePhase(phase: ExperimentPhase, days: DayObservation[], exposures: number): PhaseSummary {
+  const inPhase = days.filter(day => day.phase === phase);
+  const symptomatic = inPhase.filter(day => day.symptomatic);
+  return {
+    phase,
+    loggedDays: inPhase.length,
+    symptomDays: symptomatic.length,
+    frequency: inPhase.length ? symptomatic.length / inPhase.length : 0,
+    meanSeverity: mean(symptomatic.map(day => day.severity)),
+    exposures,
+  };
+}
+
+function comparePhases(days: DayObservation[], summaries: PhaseSummary[], from: ExperimentPhase, to: ExperimentPhase): PhaseComparison {
+  const table = contingencyTable(
+    days.filter(day => day.phase === from || day.phase === to),
+    day => day.phase === to,
+    day => day.symptomatic
+  );
+  const summary = (phase: ExperimentPhase) => summaries.find(s => s.phase === phase)!;
+  return {
+    from,
+    to,
+    relativeRisk: relativeRisk(table),
+    p: fisherExact(table),
+    severityChange: summary(to).meanSeverity - summary(from).meanSeverity,
+  };
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function describe(summary: PhaseSummary) {
+  return `${summary.symptomDays} of ${summary.loggedDays} logged days (${percent(summary.frequency)})`;
+}
+
+export function analyzeExperiment(
+  experiment: Experiment,
+  entries: NutritionEntry[],
+  conditions: ConditionDefinition[],
+  now = new Date()
+): ExperimentResults {
+  const condition = conditions.find(c => c.name === experiment.condition);
+  const days = observeDays(experiment, entries, condition);
+  const exposures = (phase: ExperimentPhase) =>
+    entries.filter(entry => phaseOn(experiment, parseISO(entry.date)) === phase && targetMatches(experiment.target, entry).length > 0).length;
+
+  const phases = experimentPhases.map(phase => summarizePhase(phase, days, exposures(phase)));
+  const [baseline, elimination, reintroduction] = phases;
+  const eliminationComparison = comparePhases(days, phases, 'baseline', 'elimination');
+  const reintroductionComparison = comparePhases(days, phases, 'elimination', 'reintroduction');
+  const violations = elimination.exposures;
+  const complete = now >= experimentEnd(experiment);
+
+  let verdict: ExperimentVerdict;
+  if (phases.some(summary => summary.loggedDays < MIN_LOGGED_DAYS)) {
+    verdict = 'not-enough-data';
+  } else if (elimination.frequency < baseline.frequency && reintroduction.frequency > elimination.frequency) {
+    verdict = eliminationComparison.p < 0.05 && reintroductionComparison.p < 0.05 ? 'supported' : 'suggestive';
+  } else {
+    verdict = 'not-supported';
+  }
+
+  const target = targetLabel(experiment.target);
+  const symptoms = experiment.condition ? `${experiment.condition} symptoms` : 'Symptoms';
+  const summary = [
+    `${symptoms} on ${describe(baseline)} at baseline, ${describe(elimination)} without ${target} and ${describe(reintroduction)} after reintroducing it.`,
+    `Average severity on symptom days: ${baseline.meanSeverity.toFixed(1)} → ${elimination.meanSeverity.toFixed(1)} → ${reintroduction.meanSeverity.toFixed(1)}.`,
+  ];
+  if (violations > 0) {
+    summary.push(`${violations} ${violations === 1 ? 'meal' : 'meals'} during elimination contained ${target}, which weakens the comparison.`);
+  }
+  if (reintroduction.loggedDays > 0 && reintroduction.exposures === 0) {
+    summary.push(`No meals with ${target} were logged during reintroduction.`);
+  }
+  summary.push({
+    'supported': `Consistent with the hypothesis: symptoms fell when ${target} was removed and returned with it, beyond what chance explains (p < 0.05 both ways).`,
+    'suggestive': `Symptoms fell without ${target} and rose again after reintroduction, but the difference could still be chance. A longer run would help.`,
+    'not-supported': `Symptoms did not fall without ${target} and return after reintroducing it, so the data do not support the hypothesis.`,
+    'not-enough-data': `Each phase needs at least ${MIN_LOGGED_DAYS} logged days before the phases can be compared.`,
+  }[verdict]);
+
+  return {
+    phases,
+    elimination: eliminationComparison,
+    reintroduction: reintroductionComparison,
+    violations,
+    complete,
+    verdict,
+    summary,
+  };
+}
@@ -0,0 +1,307 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+import type { ExerciseEntry, NutritionEntry } from './storage';
+
+export type ImportKind = 'exercise' | 'nutrition';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Lower-case header names that map to this field automatically
+  aliases: string[];
+}
+
+export const importFields: Record<ImportKind, ImportField[]> = {
+  exercise: [
+    { key: 'date', label: 'Date', required: true, aliases: ['date', 'start', 'start date', 'start time', 'timestamp', 'day'] },
+    { key: 'type', label: 'Exercise type', required: true, aliases: ['type', 'activity', 'activity type', 'workout', 'exercise', 'sport'] },
+    { key: 'duration', label: 'Duration', required: true, aliases: ['duration', 'time', 'minutes', 'duration (min)', 'duration (s)', 'elapsed time'] },
+    { key: 'intensity', label: 'Intensity', required: false, aliases: ['intensity', 'effort', 'level', 'rpe'] },
+    { key: 'recovery', label: 'Recovery (1-10)', required: false, aliases: ['recovery', 'recovery score', 'feeling'] },
+    { key: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comment', 'comments', 'description'] },
+  ],
+  nutrition: [
+    { key: 'date', label: 'Date', required: true, aliases: ['date', 'time', 'timestamp', 'datetime', 'day'] },
+    { key: 'meal', label: 'Meal type', required: true, aliases: ['meal', 'meal type', 'mealtype'] },
+    { key: 'foods', label: 'Foods', required: true, aliases: ['foods', 'food', 'items', 'ingredients'] },
+    { key: 'symptoms', label: 'Symptoms', required: false, aliases: ['symptoms', 'symptom'] },
+    { key: 'severity', label: 'Severity (1-10)', required: false, aliases: ['severity', 'symptom severity'] },
+    { key: 'sleep', label: 'Sleep', required: false, aliases: ['sleep', 'sleep hours', 'hours slept', 'sleep (h)'] },
+    { key: 'stress', label: 'Stress (1-10)', required: false, aliases: ['stress', 'stress level'] },
+    { key: 'caffeine', label: 'Caffeine', required: false, aliases: ['caffeine', 'coffee', 'caffeinated'] },
+  ],
+};
+
+// Field key -> column index, or -1 when the field is not imported
+export type ColumnMapping = Record<string, number>;
+
+export const dateFormats = [
+  'ISO',
+  'yyyy-MM-dd',
+  'yyyy-MM-dd HH:mm',
+  'yyyy-MM-dd HH:mm:ss',
+  'MM/dd/yyyy',
+  'MM/dd/yyyy HH:mm',
+  'dd/MM/yyyy',
+  'dd/MM/yyyy HH:mm',
+  'dd.MM.yyyy',
+  'dd.MM.yyyy HH:mm',
+  'M/d/yyyy',
+  'd/M/yyyy',
+];
+
+export type DurationUnit = 'minutes' | 'seconds' | 'hours' | 'clock';
+export type SleepUnit = 'hours' | 'minutes';
+
+export interface ImportOptions {
+  dateFormat: string;
+  durationUnit: DurationUnit;
+  sleepUnit: SleepUnit;
+}
+
+export interface ImportRow<T> {
+  rowNumber: number;
+  entry: T | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+export function isHeaderRow(row: string[], kind: ImportKind) {
+  const aliases = importFields[kind].flatMap(f => f.aliases);
+  return row.some(cell => aliases.includes(normalise(cell)));
+}
+
+export function guessMapping(headers: string[], kind: ImportKind): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  importFields[kind].forEach(field => {
+    const index = headers.findIndex((h, i) => !used.has(i) && field.aliases.includes(normalise(h)));
+    mapping[field.key] = index;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+}
+
+export function parseDate(value: string, dateFormat: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const date = dateFormat === 'ISO' ? parseISO(trimmed) : parse(trimmed, dateFormat, new Date());
+  return isValid(date) ? date : null;
+}
+
+// First format that parses every sample. Day-first and month-first formats
+// only differ when a day is above 12, which puts the matching one ahead.
+export function detectDateFormat(values: string[]): string {
+  const samples = values.map(v => v.trim()).filter(v => v).slice(0, 50);
+  return dateFormats.find(f => samples.length > 0 && samples.every(v => parseDate(v, f))) ?? 'ISO';
+}
+
+// The unit a header names: "Duration (s)", "duration_min", "Time hrs" or
+// just "minutes". Anything else, such as "(hrs / s)", names no unit.
+function headerUnit(header: string) {
+  const h = normalise(header);
+  const unit = h.match(/[([]([^)\]]*)[)\]]$/)?.[1] ?? h.match(/[\s_-]([a-z]+)$/)?.[1] ?? h;
+  return unit.trim();
+}
+
+export function detectDurationUnit(header: string, values: string[]): DurationUnit {
+  if (values.some(v => v.includes(':'))) return 'clock';
+  const unit = headerUnit(header);
+  if (['s', 'sec', 'secs', 'seconds'].includes(unit)) return 'seconds';
+  if (['h', 'hr', 'hrs', 'hours'].includes(unit)) return 'hours';
+  if (['min', 'mins', 'minutes'].includes(unit)) return 'minutes';
+
+  const numbers = values.map(v => parseFloat(v)).filter(n => Number.isFinite(n));
+  if (numbers.length === 0) return 'minutes';
+  // A workout of more than 10 hours is unlikely; these are seconds
+  if (numbers.every(n => n > 600)) return 'seconds';
+  if (numbers.every(n => n <= 5) && numbers.some(n => !Number.isInteger(n))) return 'hours';
+  return 'minutes';
+}
+
+export function detectSleepUnit(values: string[]): SleepUnit {
+  const numbers = values.map(v => parseFloat(v)).filter(n => Number.isFinite(n));
+  return numbers.length > 0 && numbers.every(n => n > 24) ? 'minutes' : 'hours';
+}
+
+function parseDuration(value: string, unit: DurationUnit): number | null {
+  const trimmed = value.trim();
+  if (unit === 'clock') {
+    const parts = trimmed.split(':').map(p => parseFloat(p));
+    if (parts.length < 2 || parts.length > 3 || parts.some(p => !Number.isFinite(p))) return null;
+    // h:mm:ss or mm:ss
+    const seconds = parts.length === 3
+      ? parts[0] * 3600 + parts[1] * 60 + parts[2]
+      : parts[0] * 60 + parts[1];
+    return Math.round(seconds / 60);
+  }
+  const n = parseFloat(trimmed);
+  if (!Number.isFinite(n) || n < 0) return null;
+  if (unit === 'seconds') return Math.round(n / 60);
+  if (unit === 'hours') return Math.round(n * 60);
+  return Math.round(n);
+}
+
+function parseIntensity(value: string): ExerciseEntry['intensity'] | null {
+  const v = normalise(value);
+  if (['low', 'light', 'easy'].includes(v)) return 'low';
+  if (['medium', 'moderate', 'med'].includes(v)) return 'medium';
+  if (['high', 'hard', 'vigorous', 'intense'].includes(v)) return 'high';
+  // Numeric effort scales (RPE 1-10)
+  const n = parseFloat(v);
+  if (Number.isFinite(n) && n >= 1 && n <= 10) return n <= 4 ? 'low' : n <= 7 ? 'medium' : 'high';
+  return null;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const v = normalise(value);
+  if (['true', 'yes', 'y', '1', 'x'].includes(v)) return true;
+  if (['false', 'no', 'n', '0', ''].includes(v)) return false;
+  return null;
+}
+
+function parseScore(value: string, min: number, max: number, label: string, errors: string[]) {
+  const n = parseFloat(value);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    errors.push(`${label} must be a number from ${min} to ${max} (got "${value}")`);
+    return null;
+  }
+  return n;
+}
+
+// Splits a list cell on commas, semicolons or pipes
+const splitList = (value: string) => value.split(/[,;|]/).map(v => v.trim()).filter(v => v);
+
+export function exerciseKey(entry: ExerciseEntry) {
+  return [format(new Date(entry.date), 'yyyy-MM-dd'), normalise(entry.type), entry.duration].join('|');
+}
+
+export function nutritionKey(entry: NutritionEntry) {
+  return [format(new Date(entry.date), 'yyyy-MM-dd HH:mm'), normalise(entry.meal), entry.foods.map(normalise).join(',')].join('|');
+}
+
+function cell(row: string[], mapping: ColumnMapping, key: string) {
+  const index = mapping[key];
+  return index !== undefined && index >= 0 ? (row[index] ?? '').trim() : '';
+}
+
+function buildExercise(row: string[], mapping: ColumnMapping, options: ImportOptions, id: string, errors: string[]) {
+  const date = parseDate(cell(row, mapping, 'date'), options.dateFormat);
+  if (!date) errors.push(`Date "${cell(row, mapping, 'date')}" does not match ${options.dateFormat}`);
+
+  const type = cell(row, mapping, 'type');
+  if (!type) errors.push('Exercise type is empty');
+
+  const duration = parseDuration(cell(row, mapping, 'duration'), options.durationUnit);
+  if (duration === null) errors.push(`Duration "${cell(row, mapping, 'duration')}" is not a valid ${options.durationUnit} value`);
+
+  const rawIntensity = cell(row, mapping, 'intensity');
+  const intensity = rawIntensity ? parseIntensity(rawIntensity) : 'medium';
+  if (!intensity) errors.push(`Intensity "${rawIntensity}" must be low, medium or high`);
+
+  const rawRecovery = cell(row, mapping, 'recovery');
+  const recovery = rawRecovery ? parseScore(rawRecovery, 1, 10, 'Recovery', errors) : 5;
+
+  if (errors.length > 0) return null;
+  const entry: ExerciseEntry = {
+    id,
+    date: date!.toISOString(),
+    type,
+    duration: duration!,
+    intensity: intensity!,
+    recovery: recovery!,
+    notes: cell(row, mapping, 'notes') || 'Imported from CSV',
+  };
+  return entry;
+}
+
+function buildNutrition(row: string[], mapping: ColumnMapping, options: ImportOptions, id: string, errors: string[]) {
+  const date = parseDate(cell(row, mapping, 'date'), options.dateFormat);
+  if (!date) errors.push(`Date "${cell(row, mapping, 'date')}" does not match ${options.dateFormat}`);
+
+  const meal = normalise(cell(row, mapping, 'meal'));
+  if (!['breakfast', 'lunch', 'dinner', 'snack'].includes(meal)) {
+    errors.push(`Meal "${cell(row, mapping, 'meal')}" must be breakfast, lunch, dinner or snack`);
+  }
+
+  const foods = splitList(cell(row, mapping, 'foods'));
+  if (foods.length === 0) errors.push('Foods is empty');
+
+  const symptoms = splitList(cell(row, mapping, 'symptoms'));
+  const rawSeverity = cell(row, mapping, 'severity');
+  // Symptoms need a severity from 1 to 10, as in the meal form; 0 means none
+  const severity = rawSeverity
+    ? parseScore(rawSeverity, symptoms.length > 0 ? 1 : 0, 10, 'Severity', errors)
+    : symptoms.length > 0 ? 5 : 0;
+
+  const rawSleep = cell(row, mapping, 'sleep');
+  let sleep = rawSleep ? parseScore(rawSleep, 0, options.sleepUnit === 'minutes' ? 1440 : 24, 'Sleep', errors) : 7;
+  if (sleep !== null && rawSleep && options.sleepUnit === 'minutes') sleep = Math.round((sleep / 60) * 10) / 10;
+
+  const rawStress = cell(row, mapping, 'stress');
+  const stress = rawStress ? parseScore(rawStress, 1, 10, 'Stress', errors) : 5;
+
+  const rawCaffeine = cell(row, mapping, 'caffeine');
+  const caffeine = parseBoolean(rawCaffeine);
+  if (caffeine === null) errors.push(`Caffeine "${rawCaffeine}" must be yes or no`);
+
+  if (errors.length > 0) return null;
+  const entry: NutritionEntry = {
+    id,
+    date: date!.toISOString(),
+    meal,
+    foods,
+    symptoms,
+    severity: severity!,
+    sleep: sleep!,
+    stress: stress!,
+    caffeine: caffeine!,
+  };
+  return entry;
+}
+
+// Validates every data row and flags duplicates, both against entries
+// already stored and against earlier rows in the same file
+export function validateExerciseRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  existing: ExerciseEntry[],
+  firstRowNumber = 1
+): ImportRow<ExerciseEntry>[] {
+  const seen = new Set(existing.map(exerciseKey));
+  const batch = Date.now();
+  return rows.map((row, i) => {
+    const errors: string[] = [];
+    const entry = buildExercise(row, mapping, options, `import-${batch}-${i}`, errors);
+    const key = entry ? exerciseKey(entry) : '';
+    const duplicate = !!entry && seen.has(key);
+    if (entry) seen.add(key);
+    return { rowNumber: firstRowNumber + i, entry, errors, duplicate };
+  });
+}
+
+export function validateNutritionRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  existing: NutritionEntry[],
+  firstRowNumber = 1
+): ImportRow<NutritionEntry>[] {
+  const seen = new Set(existing.map(nutritionKey));
+  const batch = Date.now();
+  return rows.map((row, i) => {
+    const errors: string[] = [];
+    const entry = buildNutrition(row, mapping, options, `import-${batch}-${i}`, errors);
+    const key = entry ? nutritionKey(entry) : '';
+    const duplicate = !!entry && seen.has(key);
+    if (entry) seen.add(key);
+    return { rowNumber: firstRowNumber + i, entry, errors, duplicate };
+  });
+}
+
+export function missingRequiredFields(kind: ImportKind, mapping: ColumnMapping) {
+  return importFields[kind].filter(f => f.required && !(mapping[f.key] >= 0)).map(f => f.label);
+}
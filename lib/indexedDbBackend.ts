@@ -0,0 +1,100 @@
+import { collections, collectionNames, type Repository, type StorageBackend } from './repository';
+
+// Bump when a collection or index is added to `collections`
+const DB_VERSION = 12;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function keyRange(lower?: string, upper?: string) {
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper);
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper);
+  return undefined;
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const tx = request.transaction!;
+      collectionNames.forEach(name => {
+        const store = db.objectStoreNames.contains(name)
+          ? tx.objectStore(name)
+          : db.createObjectStore(name, { keyPath: 'id' });
+        collections[name].indexes.forEach(index => {
+          if (!store.indexNames.contains(index)) store.createIndex(index, index);
+        });
+      });
+    };
+
+    request.onsuccess = () => {
+      // Let another tab upgrade or delete the database
+      request.result.onversionchange = () => request.result.close();
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+  });
+}
+
+function createRepository<T extends { id: string }>(db: IDBDatabase, name: string): Repository<T> {
+  const read = () => db.transaction(name, 'readonly').objectStore(name);
+
+  const write = async (apply: (store: IDBObjectStore) => void) => {
+    const tx = db.transaction(name, 'readwrite');
+    apply(tx.objectStore(name));
+    await completion(tx);
+  };
+
+  return {
+    get(id) {
+      return promisify<T | undefined>(read().get(id));
+    },
+    list() {
+      return promisify<T[]>(read().getAll());
+    },
+    put(record) {
+      return write(store => store.put(record));
+    },
+    putMany(records) {
+      return write(store => records.forEach(record => store.put(record)));
+    },
+    delete(id) {
+      return write(store => store.delete(id));
+    },
+    clear() {
+      return write(store => store.clear());
+    },
+    range(field, lower, upper) {
+      return promisify<T[]>(read().index(field).getAll(keyRange(lower, upper)));
+    },
+  };
+}
+
+export async function openIndexedDbBackend(name: string): Promise<StorageBackend> {
+  const db = await openDatabase(name);
+  return {
+    name: 'indexeddb',
+    repository(collection) {
+      return createRepository(db, collection);
+    },
+    close() {
+      db.close();
+    },
+  };
+}
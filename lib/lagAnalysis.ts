@@ -0,0 +1,145 @@
+import { builtinConditions, hasSymptomFor, type ConditionDefinition } from './conditions';
+import { normalizeFood } from './triggers';
+import { relativeRisk } from './statistics';
+import type { NutritionEntry, ExerciseEntry } from './storage';
+
+// Links symptoms to foods and factors logged earlier, since a trigger often
+// acts hours before the symptom is written down. Every nutrition entry is an
+// observation; an exposure from another entry counts for a window when it
+// was logged between `startHours` and `endHours` before that observation.
+// Foods eaten with the symptom itself are covered by triggers.ts.
+
+export interface LagWindow {
+  label: string;
+  startHours: number;
+  endHours: number;
+}
+
+export const DEFAULT_LAG_WINDOWS: LagWindow[] = [
+  { label: '0–4h', startHours: 0, endHours: 4 },
+  { label: '4–12h', startHours: 4, endHours: 12 },
+  { label: 'Next day', startHours: 12, endHours: 36 },
+];
+
+export interface LaggedAssociation {
+  exposure: string;
+  window: LagWindow;
+  // Observations with the exposure in the window, and how many of them had the condition
+  exposed: number;
+  exposedWithSymptom: number;
+  unexposed: number;
+  unexposedWithSymptom: number;
+  // P(condition | exposed) / P(condition | not exposed)
+  relativeRisk: number;
+}
+
+export interface LagReport {
+  condition: string;
+  symptomCount: number;
+  windows: { window: LagWindow; top: LaggedAssociation[] }[];
+  // Association with the highest relative risk across all windows
+  strongest: LaggedAssociation | null;
+}
+
+export interface LagOptions {
+  conditions?: ConditionDefinition[];
+  windows?: LagWindow[];
+  minExposed?: number;
+  minExposedWithSymptom?: number;
+  limit?: number;
+}
+
+interface ExposureEvent {
+  id: string;
+  time: number;
+  exposures: string[];
+}
+
+const HOUR = 3600000;
+
+function exposureEvents(nutrition: NutritionEntry[], exercise: ExerciseEntry[]): ExposureEvent[] {
+  const meals = nutrition.map(entry => ({
+    id: entry.id,
+    time: new Date(entry.date).getTime(),
+    exposures: [
+      ...Array.from(new Set(entry.foods.map(normalizeFood).filter(f => f))),
+      ...(entry.caffeine ? ['Caffeine'] : []),
+    ],
+  }));
+  const workouts = exercise.map(entry => ({
+    id: `exercise-${entry.id}`,
+    time: new Date(entry.date).getTime(),
+    exposures: entry.intensity === 'high' ? ['Exercise', 'High-intensity exercise'] : ['Exercise'],
+  }));
+  return [...meals, ...workouts].sort((a, b) => a.time - b.time);
+}
+
+export function analyzeLags(
+  nutrition: NutritionEntry[],
+  exercise: ExerciseEntry[],
+  { conditions = builtinConditions, windows = DEFAULT_LAG_WINDOWS, minExposed = 3, minExposedWithSymptom = 2, limit = 3 }: LagOptions = {}
+): LagReport[] {
+  const events = exposureEvents(nutrition, exercise);
+  const observations = nutrition.map(entry => ({ entry, time: new Date(entry.date).getTime() }));
+
+  // Exposures seen in each window before each observation
+  const exposedBy = windows.map(window => observations.map(({ entry, time }) => {
+    const seen = new Set<string>();
+    events.forEach(event => {
+      if (event.id === entry.id) return;
+      const lag = (time - event.time) / HOUR;
+      if (lag >= window.startHours && lag < window.endHours) event.exposures.forEach(e => seen.add(e));
+    });
+    return seen;
+  }));
+
+  const allExposures = new Set(events.flatMap(event => event.exposures));
+
+  return conditions.map(condition => {
+    const outcomes = observations.map(({ entry }) => hasSymptomFor(entry, condition));
+    const symptomCount = outcomes.filter(Boolean).length;
+
+    const perWindow = windows.map((window, w) => {
+      const associations: LaggedAssociation[] = [];
+      allExposures.forEach(exposure => {
+        let exposed = 0, exposedWithSymptom = 0, unexposedWithSymptom = 0;
+        exposedBy[w].forEach((seen, i) => {
+          if (seen.has(exposure)) {
+            exposed++;
+            if (outcomes[i]) exposedWithSymptom++;
+          } else if (outcomes[i]) {
+            unexposedWithSymptom++;
+          }
+        });
+        if (exposed < minExposed || exposedWithSymptom < minExposedWithSymptom) return;
+
+        const unexposed = observations.length - exposed;
+        const risk = relativeRisk({
+          a: exposedWithSymptom,
+          b: exposed - exposedWithSymptom,
+          c: unexposedWithSymptom,
+          d: unexposed - unexposedWithSymptom,
+        }).value;
+        if (risk <= 1) return;
+        associations.push({
+          exposure,
+          window,
+          exposed,
+          exposedWithSymptom,
+          unexposed,
+          unexposedWithSymptom,
+          relativeRisk: risk,
+        });
+      });
+      associations.sort((a, b) => b.relativeRisk - a.relativeRisk);
+      return { window, top: associations.slice(0, limit) };
+    });
+
+    const strongest = perWindow
+      .map(({ top }) => top[0])
+      .filter((a): a is LaggedAssociation => !!a)
+      .reduce<LaggedAssociation | null>((best, a) => (!best || a.relativeRisk > best.relativeRisk ? a : best), null);
+
+    return { condition: condition.name, symptomCount, windows: perWindow, strongest };
+  });
+}
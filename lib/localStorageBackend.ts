@@ -0,0 +1,62 @@
+import { inRange, type CollectionName, type Repository, type StorageBackend } from './repository';
+
+// Fallback backend for browsers without IndexedDB. Each collection is a
+// single JSON array, so every write rewrites the whole collection.
+function createRepository<T extends { id: string }>(key: string): Repository<T> {
+  const read = (): T[] => {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : [];
+  };
+  const write = (records: T[]) => {
+    localStorage.setItem(key, JSON.stringify(records));
+  };
+  const upsert = (records: T[], record: T) => {
+    const index = records.findIndex(r => r.id === record.id);
+    if (index >= 0) {
+      records[index] = record;
+    } else {
+      records.push(record);
+    }
+  };
+
+  return {
+    async get(id) {
+      return read().find(r => r.id === id);
+    },
+    async list() {
+      return read();
+    },
+    async put(record) {
+      const records = read();
+      upsert(records, record);
+      write(records);
+    },
+    async putMany(newRecords) {
+      const records = read();
+      newRecords.forEach(record => upsert(records, record));
+      write(records);
+    },
+    async delete(id) {
+      write(read().filter(r => r.id !== id));
+    },
+    async clear() {
+      localStorage.removeItem(key);
+    },
+    async range(field, lower, upper) {
+      const value = (record: T) => String((record as Record<string, unknown>)[field]);
+      return read()
+        .filter(record => inRange(value(record), lower, upper))
+        .sort((a, b) => value(a).localeCompare(value(b)));
+    },
+  };
+}
+
+export function createLocalStorageBackend(keys: Record<CollectionName, string>): StorageBackend {
+  return {
+    name: 'localstorage',
+    repository(collection) {
+      return createRepository(keys[collection]);
+    },
+    close() {},
+  };
+}
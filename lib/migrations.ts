@@ -0,0 +1,194 @@
+import { collectionNames, type CollectionName, type Repository, type StorageBackend } from './repository';
+import { normalizeSymptoms } from './symptoms';
+
+export interface StoredRecord {
+  id: string;
+  [field: string]: unknown;
+}
+
+export type Snapshot = Record<CollectionName, StoredRecord[]>;
+
+export interface Migration {
+  // Schema version the data is at after this migration has run
+  version: number;
+  description: string;
+  // Per-collection upgrade. Must not mutate its input.
+  up: Partial<Record<CollectionName, (record: StoredRecord) => StoredRecord>>;
+}
+
+export interface MigrationChange {
+  collection: CollectionName;
+  id: string;
+  before: StoredRecord;
+  after: StoredRecord;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  steps: { version: number; description: string; changes: MigrationChange[] }[];
+}
+
+export class MigrationError extends Error {
+  constructor(public version: number, public cause: unknown) {
+    super(`Migration to schema version ${version} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'MigrationError';
+  }
+}
+
+// Migrations work on raw stored shapes, not the current interfaces
+function rawRepository(backend: StorageBackend, name: CollectionName) {
+  return backend.repository(name) as unknown as Repository<StoredRecord>;
+}
+
+const toList = (value: unknown) =>
+  Array.isArray(value) ? value.map(v => String(v).trim()).filter(v => v) : [];
+
+const toNumber = (value: unknown, fallback: number) => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? n : fallback;
+};
+
+// Names the Remedies page used before it shared the prediction conditions
+const legacyConditionNames: Record<string, string> = {
+  'IBS': 'IBS Symptoms',
+  'Skin Issues': 'Skin Flare-ups',
+};
+
+// Data written before versioning was introduced is schema version 1.
+// Append new migrations to the end; never edit one that has shipped.
+export const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Drop blank foods and symptoms, coerce numeric fields and default invalid exercise intensity',
+    up: {
+      nutrition: record => ({
+        ...record,
+        foods: toList(record.foods),
+        symptoms: toList(record.symptoms),
+        severity: toNumber(record.severity, 0),
+        sleep: toNumber(record.sleep, 7),
+        stress: toNumber(record.stress, 5),
+        caffeine: record.caffeine === true || record.caffeine === 'true',
+      }),
+      exercise: record => {
+        const intensity = String(record.intensity).trim().toLowerCase();
+        return {
+          ...record,
+          duration: toNumber(record.duration, 30),
+          intensity: ['low', 'medium', 'high'].includes(intensity) ? intensity : 'medium',
+          recovery: toNumber(record.recovery, 5),
+          notes: typeof record.notes === 'string' ? record.notes : '',
+        };
+      },
+      remedies: record => ({
+        ...record,
+        effectiveness: Math.max(0, Math.min(100, toNumber(record.effectiveness, 50))),
+        usageCount: toNumber(record.usageCount, 0),
+        conditions: toList(record.conditions),
+        notes: typeof record.notes === 'string' ? record.notes : '',
+      }),
+    },
+  },
+  {
+    version: 3,
+    description: 'Store symptoms under canonical names and use prediction condition names on remedies',
+    up: {
+      nutrition: record => ({
+        ...record,
+        symptoms: normalizeSymptoms(toList(record.symptoms)),
+      }),
+      remedies: record => ({
+        ...record,
+        conditions: Array.from(new Set(toList(record.conditions).map(c => legacyConditionNames[c] ?? c))),
+      }),
+    },
+  },
+  {
+    version: 4,
+    description: 'Replace the running remedy effectiveness score with helped / not helped counts',
+    up: {
+      remedies: ({ effectiveness, usageCount, ...record }) => {
+        const uses = toNumber(usageCount, 0);
+        // The old score started at 50 and moved 5 points per response
+        const net = Math.round((toNumber(effectiveness, 50) - 50) / 5);
+        const helped = Math.max(0, Math.min(uses, Math.round((uses + net) / 2)));
+        return { ...record, legacyFeedback: { helped, notHelped: uses - helped } };
+      },
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations.reduce((latest, m) => Math.max(latest, m.version), 1);
+
+// Pass `names` to copy only some collections; the others are left out
+export async function takeSnapshot(backend: StorageBackend, names = collectionNames): Promise<Snapshot> {
+  const snapshot = {} as Snapshot;
+  for (const name of names) {
+    snapshot[name] = await rawRepository(backend, name).list();
+  }
+  return snapshot;
+}
+
+export async function restoreSnapshot(backend: StorageBackend, snapshot: Snapshot, names = collectionNames) {
+  for (const name of names) {
+    const repository = rawRepository(backend, name);
+    await repository.clear();
+    await repository.putMany(snapshot[name]);
+  }
+}
+
+// Runs pending migrations in memory and reports every record they change.
+// Nothing is written, so this doubles as the dry run (the restore preview
+// uses it to show how an older backup will be upgraded).
+export function planMigrations(snapshot: Snapshot, fromVersion: number) {
+  const pending = migrations
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const result = { ...snapshot };
+  const report: MigrationReport = { fromVersion, toVersion: fromVersion, steps: [] };
+
+  for (const migration of pending) {
+    const changes: MigrationChange[] = [];
+    try {
+      for (const name of collectionNames) {
+        const up = migration.up[name];
+        if (!up) continue;
+        result[name] = result[name].map(before => {
+          const after = up(before);
+          if (JSON.stringify(before) !== JSON.stringify(after)) {
+            changes.push({ collection: name, id: before.id, before, after });
+          }
+          return after;
+        });
+      }
+    } catch (error) {
+      throw new MigrationError(migration.version, error);
+    }
+    report.steps.push({ version: migration.version, description: migration.description, changes });
+    report.toVersion = migration.version;
+  }
+
+  return { report, result };
+}
+
+// Upgrades stored records to CURRENT_SCHEMA_VERSION. If any write fails the
+// pre-migration snapshot is put back, so history is never left half-migrated.
+export async function runMigrations(backend: StorageBackend, fromVersion: number): Promise<MigrationReport> {
+  const snapshot = await takeSnapshot(backend);
+  const { report, result } = planMigrations(snapshot, fromVersion);
+
+  const changed = new Set(report.steps.flatMap(step => step.changes.map(c => `${c.collection}:${c.id}`)));
+  try {
+    for (const name of collectionNames) {
+      const records = result[name].filter(r => changed.has(`${name}:${r.id}`));
+      if (records.length > 0) await rawRepository(backend, name).putMany(records);
+    }
+  } catch (error) {
+    await restoreSnapshot(backend, snapshot);
+    throw new MigrationError(report.toVersion, error);
+  }
+
+  return report;
+}
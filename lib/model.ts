@@ -0,0 +1,136 @@
+import type { DailyData } from './predictions';
+import type { NutritionEntry, ExerciseEntry } from './storage';
+import { builtinConditions, hasSymptomFor, type ConditionDefinition } from './conditions';
+
+// Entries needed before the learned model starts to count, and the point
+// at which it fully replaces the hand-written rules.
+export const MIN_TRAINING_ENTRIES = 10;
+export const FULL_TRAINING_ENTRIES = 60;
+
+interface Feature {
+  label: string;
+  value: (data: DailyData) => number;
+}
+
+const features: Feature[] = [
+  { label: 'Caffeine consumption', value: d => (d.caffeine ? 1 : 0) },
+  { label: 'Poor sleep (<6 hours)', value: d => (d.sleep < 6 ? 1 : 0) },
+  { label: 'Short sleep (<7 hours)', value: d => (d.sleep < 7 ? 1 : 0) },
+  { label: 'Long sleep (>9 hours)', value: d => (d.sleep > 9 ? 1 : 0) },
+  { label: 'Stress level', value: d => d.stress / 10 },
+  { label: 'High stress levels', value: d => (d.stress > 7 ? 1 : 0) },
+  { label: 'Coffee + less than 6 hours sleep', value: d => (d.caffeine && d.sleep < 6 ? 1 : 0) },
+  { label: 'Exercise', value: d => (d.exercise ? 1 : 0) },
+];
+
+export interface ConditionModel {
+  bias: number;
+  weights: number[];
+  positives: number;
+}
+
+export interface PersonalModel {
+  sampleCount: number;
+  conditions: Record<string, ConditionModel>;
+}
+
+interface TrainingOptions {
+  iterations?: number;
+  learningRate?: number;
+  l2?: number;
+}
+
+function sigmoid(z: number) {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function featureVector(data: DailyData) {
+  return features.map(f => f.value(data));
+}
+
+function dayKey(date: string) {
+  return new Date(date).toDateString();
+}
+
+// Fits an L2-regularised logistic regression with batch gradient descent.
+// The bias is not penalised so a condition that never shows up still learns
+// a sensible (low) base rate.
+export function trainLogisticRegression(
+  samples: number[][],
+  labels: number[],
+  { iterations = 400, learningRate = 0.5, l2 = 0.1 }: TrainingOptions = {}
+): ConditionModel {
+  const n = samples.length;
+  const weights = new Array(features.length).fill(0);
+  let bias = 0;
+
+  for (let iter = 0; iter < iterations && n > 0; iter++) {
+    const gradW = new Array(weights.length).fill(0);
+    let gradB = 0;
+
+    for (let i = 0; i < n; i++) {
+      const x = samples[i];
+      const z = bias + x.reduce((sum, xi, j) => sum + xi * weights[j], 0);
+      const error = sigmoid(z) - labels[i];
+      gradB += error;
+      for (let j = 0; j < weights.length; j++) gradW[j] += error * x[j];
+    }
+
+    bias -= (learningRate * gradB) / n;
+    for (let j = 0; j < weights.length; j++) {
+      weights[j] -= learningRate * (gradW[j] / n + l2 * weights[j]);
+    }
+  }
+
+  return { bias, weights, positives: labels.filter(l => l === 1).length };
+}
+
+export function trainPersonalModel(
+  nutrition: NutritionEntry[],
+  exercise: ExerciseEntry[],
+  conditionList: ConditionDefinition[] = builtinConditions
+): PersonalModel {
+  const exerciseDays = new Set(exercise.map(e => dayKey(e.date)));
+  const samples = nutrition.map(entry =>
+    featureVector({
+      sleep: entry.sleep,
+      stress: entry.stress,
+      caffeine: entry.caffeine,
+      exercise: exerciseDays.has(dayKey(entry.date)),
+    })
+  );
+
+  const conditions: Record<string, ConditionModel> = {};
+  conditionList.forEach(condition => {
+    const labels = nutrition.map(entry => (hasSymptomFor(entry, condition) ? 1 : 0));
+    conditions[condition.name] = trainLogisticRegression(samples, labels);
+  });
+
+  return { sampleCount: nutrition.length, conditions };
+}
+
+// Share of the final probability that comes from the learned model (0-1)
+export function modelWeight(model: PersonalModel) {
+  const { sampleCount } = model;
+  if (sampleCount < MIN_TRAINING_ENTRIES) return 0;
+  if (sampleCount >= FULL_TRAINING_ENTRIES) return 1;
+  return (sampleCount - MIN_TRAINING_ENTRIES) / (FULL_TRAINING_ENTRIES - MIN_TRAINING_ENTRIES);
+}
+
+export function predictWithModel(model: PersonalModel, condition: string, data: DailyData) {
+  const conditionModel = model.conditions[condition];
+  if (!conditionModel) return null;
+
+  const x = featureVector(data);
+  const z = conditionModel.bias + x.reduce((sum, xi, j) => sum + xi * conditionModel.weights[j], 0);
+
+  // Largest contributions to today's score, positive or protective
+  const factors = x
+    .map((xi, j) => ({ label: features[j].label, contribution: xi * conditionModel.weights[j] }))
+    .filter(f => Math.abs(f.contribution) >= 0.1)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, 3)
+    .map(f => `${f.label} (learned, ${f.contribution > 0 ? 'raises' : 'lowers'} risk)`);
+
+  return { probability: sigmoid(z) * 100, factors };
+}
@@ -0,0 +1,168 @@
+// Minimal PDF writer for text, filled rectangles and lines on A4 pages. It
+// only uses the standard Helvetica fonts, which every viewer ships, so the
+// file needs no embedded fonts and stays self-contained. Coordinates are in
+// points from the top-left corner of the page.
+
+export interface PdfTextStyle {
+  size?: number;
+  bold?: boolean;
+  // #rrggbb
+  color?: string;
+}
+
+export interface PdfDocument {
+  width: number;
+  height: number;
+  addPage(): void;
+  text(x: number, y: number, text: string, style?: PdfTextStyle): void;
+  rect(x: number, y: number, width: number, height: number, color: string): void;
+  line(x1: number, y1: number, x2: number, y2: number, color?: string, lineWidth?: number): void;
+  toBlob(): Blob;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em (from the AFM)
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const winAnsiExtras: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+};
+
+function encodeChar(char: string) {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code < 127) return char;
+  if (code >= 0xa0 && code <= 0xff) return String.fromCharCode(code);
+  if (winAnsiExtras[char]) return String.fromCharCode(winAnsiExtras[char]);
+  if (char === '→') return '->';
+  if (char === '≥') return '>=';
+  if (char === '≤') return '<=';
+  return '?';
+}
+
+function encodeText(text: string) {
+  return Array.from(text).map(encodeChar).join('');
+}
+
+// Width of `text` in points. Bold is approximated from the regular metrics,
+// which is close enough for wrapping and truncating.
+export function measureText(text: string, size: number, bold = false) {
+  const units = Array.from(encodeText(text)).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code < 127 ? helveticaWidths[code - 32] : 556);
+  }, 0);
+  return (units * size * (bold ? 1.06 : 1)) / 1000;
+}
+
+// Shortens `text` with an ellipsis so it fits in `width` points
+export function fitText(text: string, width: number, size: number, bold = false) {
+  if (measureText(text, size, bold) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}…`, size, bold) > width) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+}
+
+// Splits `text` into lines no wider than `width` points, breaking at spaces
+export function wrapText(text: string, width: number, size: number, bold = false) {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(candidate, size, bold) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+function escapeString(text: string) {
+  return encodeText(text).replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function rgb(color: string) {
+  const value = parseInt(color.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => (c / 255).toFixed(3)).join(' ');
+}
+
+const n = (value: number) => value.toFixed(2);
+
+export function createPdfDocument(title: string): PdfDocument {
+  const pages: string[][] = [];
+  const current = () => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+  const flip = (y: number) => PAGE_HEIGHT - y;
+
+  return {
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+
+    addPage() {
+      pages.push([]);
+    },
+
+    text(x, y, text, { size = 10, bold = false, color = '#111827' } = {}) {
+      current().push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${rgb(color)} rg ${n(x)} ${n(flip(y) - size)} Td (${escapeString(text)}) Tj ET`);
+    },
+
+    rect(x, y, width, height, color) {
+      current().push(`${rgb(color)} rg ${n(x)} ${n(flip(y + height))} ${n(width)} ${n(height)} re f`);
+    },
+
+    line(x1, y1, x2, y2, color = '#d1d5db', lineWidth = 0.5) {
+      current().push(`${rgb(color)} RG ${n(lineWidth)} w ${n(x1)} ${n(flip(y1))} m ${n(x2)} ${n(flip(y2))} l S`);
+    },
+
+    toBlob() {
+      if (pages.length === 0) pages.push([]);
+
+      // Objects 1-4 are fixed; each page then takes a page and a content object
+      const objects: string[] = [];
+      const pageIds = pages.map((_, i) => 5 + i * 2);
+      objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+      objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+      pages.forEach((operations, i) => {
+        const content = operations.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+        );
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      });
+      objects.push(`<< /Title (${escapeString(title)}) /Producer (Health Tracker) >>`);
+
+      // Every character is one byte, so string lengths are byte offsets
+      let output = '%PDF-1.4\n';
+      const offsets = objects.map((object, i) => {
+        const offset = output.length;
+        output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+      const xref = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      const bytes = new Uint8Array(output.length);
+      for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+      return new Blob([bytes], { type: 'application/pdf' });
+    },
+  };
+}
@@ -1,3 +1,6 @@
+import { modelWeight, predictWithModel, type PersonalModel } from './model';
+import { builtinConditions, getSeverity, matchingRules, type ConditionDefinition } from './conditions';
+
 export interface DailyData {
   sleep: number;
   stress: number;
@@ -5,142 +8,58 @@ export interface DailyData {
   exercise: boolean;
 }
 
+export type PredictionSource = 'rules' | 'model' | 'blend';
+
 export interface Prediction {
   condition: string;
   probability: number;
   factors: string[];
   severity: 'low' | 'medium' | 'high';
+  source: PredictionSource;
 }
 
-export function calculatePredictions(data: DailyData): Prediction[] {
-  const predictions: Prediction[] = [];
-
-  // Acid Reflux Prediction
-  let refluxProbability = 20; // baseline
-  const refluxFactors: string[] = [];
-
-  if (data.caffeine && data.sleep < 6) {
-    refluxProbability += 30;
-    refluxFactors.push('Coffee + less than 6 hours sleep');
-  } else if (data.caffeine) {
-    refluxProbability += 15;
-    refluxFactors.push('Caffeine consumption');
-  }
-
-  if (data.sleep < 6) {
-    refluxProbability += 15;
-    refluxFactors.push('Poor sleep (<6 hours)');
-  }
-
-  if (data.stress > 7) {
-    refluxProbability += 20;
-    refluxFactors.push('High stress levels');
-  }
-
-  if (data.exercise) {
-    refluxProbability -= 10;
-    refluxFactors.push('Exercise (protective)');
-  }
-
-  refluxProbability = Math.max(0, Math.min(100, refluxProbability));
-
-  predictions.push({
-    condition: 'Acid Reflux',
-    probability: refluxProbability,
-    factors: refluxFactors.length > 0 ? refluxFactors : ['No significant risk factors'],
-    severity: refluxProbability > 60 ? 'high' : refluxProbability > 35 ? 'medium' : 'low',
-  });
-
-  // Migraine Prediction
-  let migraineProbability = 15; // baseline
-  const migraineFactors: string[] = [];
-
-  if (data.sleep < 7 || data.sleep > 9) {
-    migraineProbability += 25;
-    migraineFactors.push('Irregular sleep pattern');
-  }
-
-  if (data.stress > 6) {
-    migraineProbability += 20;
-    migraineFactors.push('Elevated stress');
-  }
-
-  if (data.caffeine && data.sleep < 7) {
-    migraineProbability += 15;
-    migraineFactors.push('Caffeine + sleep deprivation');
-  }
-
-  if (data.exercise) {
-    migraineProbability -= 15;
-    migraineFactors.push('Exercise (protective)');
-  }
-
-  migraineProbability = Math.max(0, Math.min(100, migraineProbability));
-
-  predictions.push({
-    condition: 'Migraine',
-    probability: migraineProbability,
-    factors: migraineFactors.length > 0 ? migraineFactors : ['No significant risk factors'],
-    severity: migraineProbability > 55 ? 'high' : migraineProbability > 30 ? 'medium' : 'low',
-  });
-
-  // IBS Symptoms Prediction
-  let ibsProbability = 25; // baseline
-  const ibsFactors: string[] = [];
-
-  if (data.stress > 7) {
-    ibsProbability += 30;
-    ibsFactors.push('High stress (major trigger)');
-  }
-
-  if (data.sleep < 6) {
-    ibsProbability += 15;
-    ibsFactors.push('Sleep deprivation');
-  }
-
-  if (!data.exercise) {
-    ibsProbability += 10;
-    ibsFactors.push('Lack of physical activity');
-  } else {
-    ibsFactors.push('Regular exercise (protective)');
-  }
-
-  ibsProbability = Math.max(0, Math.min(100, ibsProbability));
-
-  predictions.push({
-    condition: 'IBS Symptoms',
-    probability: ibsProbability,
-    factors: ibsFactors.length > 0 ? ibsFactors : ['No significant risk factors'],
-    severity: ibsProbability > 60 ? 'high' : ibsProbability > 40 ? 'medium' : 'low',
-  });
-
-  // Skin Issues Prediction
-  let skinProbability = 20; // baseline
-  const skinFactors: string[] = [];
-
-  if (data.stress > 7) {
-    skinProbability += 25;
-    skinFactors.push('High stress levels');
-  }
-
-  if (data.sleep < 7) {
-    skinProbability += 20;
-    skinFactors.push('Insufficient sleep');
-  }
-
-  if (data.exercise) {
-    skinProbability -= 10;
-    skinFactors.push('Exercise improves circulation');
-  }
-
-  skinProbability = Math.max(0, Math.min(100, skinProbability));
+// Mixes the rule-based estimate with the user's learned model. The model's
+// share grows with the amount of logged history (see modelWeight).
+function applyModel(prediction: Prediction, condition: ConditionDefinition, data: DailyData, model: PersonalModel): Prediction {
+  const weight = modelWeight(model);
+  const learned = predictWithModel(model, prediction.condition, data);
+  if (weight === 0 || !learned) return prediction;
+
+  const probability = Math.round((1 - weight) * prediction.probability + weight * learned.probability);
+  const ruleFactors = prediction.factors.filter(f => f !== 'No significant risk factors');
+  const factors = weight === 1 ? learned.factors : [...ruleFactors, ...learned.factors];
+
+  return {
+    condition: prediction.condition,
+    probability,
+    factors: factors.length > 0 ? factors : ['No significant risk factors'],
+    severity: getSeverity(condition, probability),
+    source: weight === 1 ? 'model' : 'blend',
+  };
+}
 
-  predictions.push({
-    condition: 'Skin Flare-ups',
-    probability: skinProbability,
-    factors: skinFactors.length > 0 ? skinFactors : ['No significant risk factors'],
-    severity: skinProbability > 55 ? 'high' : skinProbability > 35 ? 'medium' : 'low',
+export function calculatePredictions(
+  data: DailyData,
+  model?: PersonalModel,
+  conditions: ConditionDefinition[] = builtinConditions
+): Prediction[] {
+  return conditions.map(condition => {
+    const prediction = calculateRulePrediction(condition, data);
+    return model ? applyModel(prediction, condition, data, model) : prediction;
   });
+}
 
-  return predictions;
+function calculateRulePrediction(condition: ConditionDefinition, data: DailyData): Prediction {
+  const rules = matchingRules(condition, data);
+  const total = rules.reduce((sum, rule) => sum + rule.points, condition.baseline);
+  const probability = Math.max(0, Math.min(100, total));
+  const factors = Array.from(new Set(rules.map(rule => rule.label)));
+
+  return {
+    condition: condition.name,
+    probability,
+    factors: factors.length > 0 ? factors : ['No significant risk factors'],
+    severity: getSeverity(condition, probability),
+    source: 'rules',
+  };
 }
@@ -0,0 +1,74 @@
+// People tracked on this device. Each profile has its own IndexedDB database
+// and localStorage keys; the registry itself is shared by all of them.
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// The profile that existed before profiles were added. Its data keeps the
+// original database name and keys.
+export const DEFAULT_PROFILE_ID = 'default';
+
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'active-profile';
+
+// Fired on window when profiles are added, renamed or removed
+export const PROFILES_CHANGED_EVENT = 'profiles-changed';
+
+const defaultProfile: Profile = { id: DEFAULT_PROFILE_ID, name: 'Me', createdAt: new Date(0).toISOString() };
+
+export function getProfiles(): Profile[] {
+  if (typeof window === 'undefined') return [defaultProfile];
+  const data = localStorage.getItem(PROFILES_KEY);
+  const profiles: Profile[] = data ? JSON.parse(data) : [];
+  return profiles.some(profile => profile.id === DEFAULT_PROFILE_ID) ? profiles : [defaultProfile, ...profiles];
+}
+
+export function profileExists(id: string) {
+  return getProfiles().some(profile => profile.id === id);
+}
+
+function saveProfiles(profiles: Profile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  window.dispatchEvent(new Event(PROFILES_CHANGED_EVENT));
+}
+
+export function getActiveProfileId() {
+  if (typeof window === 'undefined') return DEFAULT_PROFILE_ID;
+  const id = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return id && profileExists(id) ? id : DEFAULT_PROFILE_ID;
+}
+
+export function getActiveProfile(): Profile {
+  const id = getActiveProfileId();
+  return getProfiles().find(profile => profile.id === id) ?? defaultProfile;
+}
+
+export function setActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+export function createProfile(name: string): Profile {
+  const profile = { id: Date.now().toString(36), name: name.trim(), createdAt: new Date().toISOString() };
+  saveProfiles([...getProfiles(), profile]);
+  return profile;
+}
+
+export function renameProfile(id: string, name: string) {
+  saveProfiles(getProfiles().map(profile => (profile.id === id ? { ...profile, name: name.trim() } : profile)));
+}
+
+// Only removes the registry entry; see deleteProfile in storage.ts
+export function removeProfile(id: string) {
+  saveProfiles(getProfiles().filter(profile => profile.id !== id));
+}
+
+export function profileDatabaseName(id: string) {
+  return id === DEFAULT_PROFILE_ID ? 'health-tracker' : `health-tracker-${id}`;
+}
+
+export function profileKey(key: string, id: string) {
+  return id === DEFAULT_PROFILE_ID ? key : `profile-${id}:${key}`;
+}
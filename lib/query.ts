@@ -0,0 +1,147 @@
+import { endOfDay, isValid, parseISO, startOfDay } from 'date-fns';
+import { getRepository, type ExerciseEntry, type NutritionEntry } from './storage';
+
+// Filtered, paginated reads of the nutrition and exercise collections. Date
+// bounds go to the repository's date index; the remaining filters run over
+// the entries in range. Queries round-trip through URL parameters so a
+// filtered view can be bookmarked. Empty strings mean "any".
+
+export interface NutritionQuery {
+  // Every word must appear in the foods, symptoms or meal
+  text: string;
+  meal: string;
+  caffeine: '' | 'yes' | 'no';
+  // Entries without symptoms count as severity 0
+  minSeverity: string;
+  maxSeverity: string;
+  from: string; // yyyy-MM-dd
+  to: string;
+}
+
+export interface ExerciseQuery {
+  // Every word must appear in the type or notes
+  text: string;
+  intensity: '' | ExerciseEntry['intensity'];
+  from: string;
+  to: string;
+}
+
+export interface QueryPage<T> {
+  items: T[];
+  total: number;
+  // From 1
+  page: number;
+  pageCount: number;
+}
+
+export const PAGE_SIZE = 20;
+
+export const emptyNutritionQuery: NutritionQuery = {
+  text: '',
+  meal: '',
+  caffeine: '',
+  minSeverity: '',
+  maxSeverity: '',
+  from: '',
+  to: '',
+};
+
+export const emptyExerciseQuery: ExerciseQuery = {
+  text: '',
+  intensity: '',
+  from: '',
+  to: '',
+};
+
+function matchesText(fields: string[], text: string) {
+  const haystack = fields.join(' ').toLowerCase();
+  return text.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+export function nutritionMatches(entry: NutritionEntry, query: NutritionQuery) {
+  const severity = entry.symptoms.length > 0 ? entry.severity : 0;
+  return (
+    matchesText([...entry.foods, ...entry.symptoms, entry.meal], query.text) &&
+    (!query.meal || entry.meal === query.meal) &&
+    (!query.caffeine || entry.caffeine === (query.caffeine === 'yes')) &&
+    (query.minSeverity === '' || severity >= Number(query.minSeverity)) &&
+    (query.maxSeverity === '' || severity <= Number(query.maxSeverity))
+  );
+}
+
+export function exerciseMatches(entry: ExerciseEntry, query: ExerciseQuery) {
+  return matchesText([entry.type, entry.notes], query.text) && (!query.intensity || entry.intensity === query.intensity);
+}
+
+export function isFiltered(query: NutritionQuery | ExerciseQuery) {
+  return Object.values(query).some(value => value !== '');
+}
+
+// ISO bounds for the date index; the range is inclusive of both days
+function dateBounds({ from, to }: { from: string; to: string }): [string | undefined, string | undefined] {
+  const lower = from && isValid(parseISO(from)) ? startOfDay(parseISO(from)).toISOString() : undefined;
+  const upper = to && isValid(parseISO(to)) ? endOfDay(parseISO(to)).toISOString() : undefined;
+  return [lower, upper];
+}
+
+// Newest first
+export function paginate<T extends { date: string }>(items: T[], page: number, pageSize = PAGE_SIZE): QueryPage<T> {
+  const sorted = items.slice().sort((a, b) => b.date.localeCompare(a.date));
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return {
+    items: sorted.slice((current - 1) * pageSize, current * pageSize),
+    total: sorted.length,
+    page: current,
+    pageCount,
+  };
+}
+
+export async function queryNutrition(query: NutritionQuery, page = 1): Promise<QueryPage<NutritionEntry>> {
+  if (typeof window === 'undefined') return paginate([], page);
+  const entries = await (await getRepository('nutrition')).range('date', ...dateBounds(query));
+  return paginate(entries.filter(entry => nutritionMatches(entry, query)), page);
+}
+
+export async function queryExercise(query: ExerciseQuery, page = 1): Promise<QueryPage<ExerciseEntry>> {
+  if (typeof window === 'undefined') return paginate([], page);
+  const entries = await (await getRepository('exercise')).range('date', ...dateBounds(query));
+  return paginate(entries.filter(entry => exerciseMatches(entry, query)), page);
+}
+
+// Reads the fields of `empty` from the URL, keeping only allowed values
+export function queryFromParams<Q extends object>(
+  params: URLSearchParams,
+  empty: Q,
+  allowed: Partial<Record<keyof Q, string[]>> = {}
+): { query: Q; page: number } {
+  const query = { ...empty };
+  (Object.keys(empty) as (keyof Q & string)[]).forEach(key => {
+    const value = params.get(key);
+    const options = allowed[key];
+    if (value !== null && (!options || options.includes(value))) {
+      (query as Record<string, string>)[key] = value;
+    }
+  });
+  return { query, page: Math.max(1, parseInt(params.get('page') || '1') || 1) };
+}
+
+// Writes the non-empty fields and page to the address bar without adding a
+// history entry for every keystroke
+export function syncQueryToUrl(query: object, page: number) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== '') params.set(key, String(value));
+  });
+  if (page > 1) params.set('page', page.toString());
+  const search = params.toString();
+  window.history.replaceState(null, '', search ? `?${search}` : window.location.pathname);
+}
+
+export const nutritionQueryOptions: Partial<Record<keyof NutritionQuery, string[]>> = {
+  caffeine: ['yes', 'no'],
+};
+
+export const exerciseQueryOptions: Partial<Record<keyof ExerciseQuery, string[]>> = {
+  intensity: ['low', 'medium', 'high'],
+};
@@ -0,0 +1,131 @@
+import { scoreByCondition, scoreRemedy, type RemedyScore } from './remedies';
+import { calculatePredictions, type Prediction } from './predictions';
+import { trainPersonalModel, type PersonalModel } from './model';
+import type { ConditionDefinition } from './conditions';
+import {
+  dailyInputs,
+  getConditions,
+  getDailyLog,
+  getExerciseEntries,
+  getNutritionEntries,
+  getRecommendationData,
+  toDateKey,
+  type ExerciseEntry,
+  type NutritionEntry,
+  type Remedy,
+  type RemedyOutcome,
+  type RemedyUsage,
+} from './storage';
+
+// Suggests remedies for the conditions at medium or high risk today, ranked
+// by how surely they work (the lower bound of their effectiveness) with a
+// preference for gentler remedy types when the risk is only medium.
+
+// A dismissed or snoozed suggestion of one remedy for one condition
+export interface SuggestionDismissal {
+  // `${remedyId}:${condition}`
+  id: string;
+  remedyId: string;
+  condition: string;
+  // Snoozed until this time; permanent when absent
+  until?: string;
+  createdAt: string;
+}
+
+export interface RemedySuggestion {
+  remedy: Remedy;
+  condition: string;
+  score: RemedyScore;
+  // Whether the score is specific to the condition rather than overall
+  conditionSpecific: boolean;
+  rank: number;
+}
+
+export interface RecommendationData {
+  remedies: Remedy[];
+  outcomes: RemedyOutcome[];
+  usages: RemedyUsage[];
+  dismissals: SuggestionDismissal[];
+}
+
+// Added to a remedy's rank by type at each risk level
+const typePreference: Record<'medium' | 'high', Record<Remedy['type'], number>> = {
+  medium: { lifestyle: 0.2, food: 0.1, supplement: 0.05, medication: 0 },
+  high: { lifestyle: 0, food: 0, supplement: 0, medication: 0 },
+};
+
+export const SUGGESTIONS_PER_CONDITION = 3;
+export const SNOOZE_HOURS = 24;
+
+export function dismissalId(remedyId: string, condition: string) {
+  return `${remedyId}:${condition}`;
+}
+
+function isDismissed(dismissals: SuggestionDismissal[], remedyId: string, condition: string, now: Date) {
+  const dismissal = dismissals.find(d => d.id === dismissalId(remedyId, condition));
+  return !!dismissal && (!dismissal.until || new Date(dismissal.until) > now);
+}
+
+// Everything the dashboard and predictions page need for today's risks.
+// The model and history are returned for pages that analyse further.
+export interface TodaysOutlook {
+  // False while today's predictions use a draft with typical values
+  checkedIn: boolean;
+  predictions: Prediction[];
+  recommendationData: RecommendationData;
+  conditions: ConditionDefinition[];
+  model: PersonalModel;
+  nutrition: NutritionEntry[];
+  exercise: ExerciseEntry[];
+}
+
+export async function loadTodaysOutlook(): Promise<TodaysOutlook> {
+  const today = toDateKey(new Date());
+  const nutrition = await getNutritionEntries();
+  const exercise = await getExerciseEntries();
+  const conditions = await getConditions();
+  const model = trainPersonalModel(nutrition, exercise, conditions);
+  return {
+    checkedIn: !!(await getDailyLog(today))?.checkedInAt,
+    predictions: calculatePredictions(await dailyInputs(today), model, conditions),
+    recommendationData: await getRecommendationData(),
+    conditions,
+    model,
+    nutrition,
+    exercise,
+  };
+}
+
+// Suggestions keyed by condition name, for predictions at medium or high risk
+export function recommendRemedies(
+  predictions: Prediction[],
+  { remedies, outcomes, usages, dismissals }: RecommendationData,
+  now = new Date()
+): Record<string, RemedySuggestion[]> {
+  const result: Record<string, RemedySuggestion[]> = {};
+
+  predictions.forEach(prediction => {
+    if (prediction.severity === 'low') return;
+    const { condition, severity } = prediction;
+
+    result[condition] = remedies
+      .filter(remedy => remedy.conditions.includes(condition))
+      .filter(remedy => !isDismissed(dismissals, remedy.id, condition, now))
+      .map(remedy => {
+        // Prefer evidence from uses against this condition once there is enough
+        const specific = scoreByCondition(remedy, usages).find(s => s.condition === condition);
+        const score = specific?.enoughData ? specific : scoreRemedy(remedy, outcomes, usages);
+        return {
+          remedy,
+          condition,
+          score,
+          conditionSpecific: score === specific,
+          rank: score.effectiveness.low + typePreference[severity][remedy.type],
+        };
+      })
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, SUGGESTIONS_PER_CONDITION);
+  });
+
+  return result;
+}
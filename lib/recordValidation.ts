@@ -0,0 +1,153 @@
+import type { CollectionName } from './repository';
+import type { StoredRecord } from './migrations';
+import { isValidSchedule, type RemedySchedule } from './schedules';
+import { isValidRule, isValidThresholds, type ConditionDefinition, type RiskRule } from './conditions';
+import { isValidPhaseDays, isValidTarget, type Experiment, type ExperimentTarget } from './experiments';
+
+// Field checks for records that arrive from outside this device (backups and
+// sync), run once they are at the current schema. Unknown fields are kept.
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'object' | 'object[]';
+
+// A trailing ? marks an optional field; a list of values is an enum
+type Field = FieldType | `${FieldType}?` | readonly string[];
+
+type Shape = Record<string, Field>;
+
+const shapes: Record<Exclude<CollectionName, 'syncRecords'>, Shape> = {
+  nutrition: {
+    date: 'string',
+    meal: 'string',
+    foods: 'string[]',
+    symptoms: 'string[]',
+    severity: 'number',
+    sleep: 'number',
+    stress: 'number',
+    caffeine: 'boolean',
+  },
+  exercise: {
+    date: 'string',
+    type: 'string',
+    duration: 'number',
+    intensity: ['low', 'medium', 'high'],
+    recovery: 'number',
+    notes: 'string',
+  },
+  remedies: {
+    name: 'string',
+    type: ['medication', 'supplement', 'lifestyle', 'food'],
+    conditions: 'string[]',
+    notes: 'string',
+    legacyFeedback: 'object?',
+    schedule: 'object?',
+  },
+  sleep: { date: 'string', hours: 'number', source: 'string' },
+  dailyLogs: {
+    date: 'string',
+    sleep: 'number',
+    stress: 'number',
+    caffeine: 'boolean',
+    exercise: 'boolean',
+    updatedAt: 'string',
+    checkedInAt: 'string?',
+  },
+  symptomSynonyms: { synonym: 'string', symptom: 'string' },
+  conditions: {
+    name: 'string',
+    color: 'string',
+    baseline: 'number',
+    thresholds: 'object',
+    rules: 'object[]',
+    symptoms: 'string[]',
+    builtin: 'boolean',
+  },
+  ruleSets: { source: 'string', updatedAt: 'string' },
+  remedyOutcomes: { remedyId: 'string', helped: 'boolean', timestamp: 'string' },
+  remedyUsages: {
+    remedyId: 'string',
+    timestamp: 'string',
+    dose: 'string',
+    condition: 'string',
+    nutritionEntryIds: 'string[]',
+    severityBefore: 'number',
+    severityAfter: 'number?',
+    followUpAt: 'string?',
+  },
+  suggestionDismissals: { remedyId: 'string', condition: 'string', until: 'string?', createdAt: 'string' },
+  doses: { remedyId: 'string', dueAt: 'string', status: ['taken', 'skipped'], recordedAt: 'string' },
+  experiments: {
+    name: 'string',
+    hypothesis: 'string',
+    target: 'object',
+    condition: 'string?',
+    startDate: 'string',
+    phaseDays: 'object',
+    createdAt: 'string',
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expected: Record<FieldType, string> = {
+  string: 'text',
+  number: 'a number',
+  boolean: 'true or false',
+  'string[]': 'a list of text',
+  object: 'an object',
+  'object[]': 'a list of objects',
+};
+
+function matches(value: unknown, type: FieldType) {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'object':
+      return isObject(value);
+    case 'object[]':
+      return Array.isArray(value) && value.every(isObject);
+  }
+}
+
+// What is wrong with `record`, or undefined when it can be stored as
+// `collection`. Collections without a shape (device-local ones) always pass.
+export function recordProblem(collection: CollectionName, record: StoredRecord): string | undefined {
+  const shape: Shape | undefined = shapes[collection as keyof typeof shapes];
+  if (!shape) return undefined;
+
+  for (const [field, spec] of Object.entries(shape)) {
+    const value = record[field];
+    if (typeof spec !== 'string') {
+      if (!spec.includes(value as string)) return `has an invalid "${field}" (expected one of ${spec.join(', ')})`;
+      continue;
+    }
+    const optional = spec.endsWith('?');
+    const type = (optional ? spec.slice(0, -1) : spec) as FieldType;
+    if (value === undefined) {
+      if (optional) continue;
+      return `has no "${field}"`;
+    }
+    if (!matches(value, type)) return `has an invalid "${field}" (expected ${expected[type]})`;
+  }
+
+  if (collection === 'remedies' && record.schedule !== undefined && !isValidSchedule(record.schedule as RemedySchedule)) {
+    return 'has an invalid "schedule"';
+  }
+  if (collection === 'conditions') {
+    if (!isValidThresholds(record.thresholds as ConditionDefinition['thresholds'])) return 'has an invalid "thresholds"';
+    const rules = record.rules as RiskRule[];
+    const invalid = rules.findIndex(rule => !isValidRule(rule));
+    if (invalid >= 0) return `has an invalid rule ${invalid + 1}`;
+  }
+  if (collection === 'experiments') {
+    if (!isValidTarget(record.target as ExperimentTarget)) return 'has an invalid "target"';
+    if (!isValidPhaseDays(record.phaseDays as Experiment['phaseDays'])) return 'has an invalid "phaseDays"';
+  }
+  return undefined;
+}
@@ -0,0 +1,92 @@
+import { betaPosterior, type Estimate } from './statistics';
+import type { Remedy, RemedyOutcome, RemedyUsage } from './storage';
+
+// Effectiveness as the probability that a use of the remedy helps, estimated
+// with a uniform Beta(1, 1) prior from thumbs-up / thumbs-down outcomes and
+// from logged uses whose follow-up severity was recorded. Unlike a running
+// score, the result does not depend on the order of the responses.
+
+// Fewer responses than this leave the interval too wide to rank on
+export const MIN_TRIALS = 5;
+
+// Suggested wait before rating severity again after a use
+export const FOLLOW_UP_HOURS = 4;
+
+export interface RemedyScore {
+  helped: number;
+  notHelped: number;
+  trials: number;
+  // Posterior mean with a 95% credible interval, as proportions
+  effectiveness: Estimate;
+  enoughData: boolean;
+  lastUsed?: string;
+}
+
+export interface ConditionScore extends RemedyScore {
+  condition: string;
+  // Mean drop in severity from before to after, on the 1-10 scale
+  averageImprovement: number;
+}
+
+export function hasFollowUp(usage: RemedyUsage): usage is RemedyUsage & { severityAfter: number } {
+  return typeof usage.severityAfter === 'number';
+}
+
+export function usageHelped(usage: RemedyUsage & { severityAfter: number }) {
+  return usage.severityAfter < usage.severityBefore;
+}
+
+function score(helped: number, notHelped: number, timestamps: string[]): RemedyScore {
+  const trials = helped + notHelped;
+  return {
+    helped,
+    notHelped,
+    trials,
+    effectiveness: betaPosterior(helped, notHelped),
+    enoughData: trials >= MIN_TRIALS,
+    lastUsed: timestamps.reduce<string | undefined>((latest, t) => (!latest || t > latest ? t : latest), undefined),
+  };
+}
+
+export function scoreRemedy(remedy: Remedy, outcomes: RemedyOutcome[], usages: RemedyUsage[] = []): RemedyScore {
+  const own = outcomes.filter(outcome => outcome.remedyId === remedy.id);
+  const ownUsages = usages.filter(usage => usage.remedyId === remedy.id);
+  const rated = ownUsages.filter(hasFollowUp);
+  const positive = own.filter(outcome => outcome.helped).length + rated.filter(usageHelped).length;
+  const helped = positive + (remedy.legacyFeedback?.helped ?? 0);
+  const notHelped = own.length + rated.length - positive + (remedy.legacyFeedback?.notHelped ?? 0);
+  return score(helped, notHelped, [...own, ...ownUsages].map(record => record.timestamp));
+}
+
+export function scoreRemedies(remedies: Remedy[], outcomes: RemedyOutcome[], usages: RemedyUsage[] = []): Record<string, RemedyScore> {
+  const scores: Record<string, RemedyScore> = {};
+  remedies.forEach(remedy => {
+    scores[remedy.id] = scoreRemedy(remedy, outcomes, usages);
+  });
+  return scores;
+}
+
+// Effectiveness against each condition the remedy has been logged for,
+// from followed-up uses only
+export function scoreByCondition(remedy: Remedy, usages: RemedyUsage[]): ConditionScore[] {
+  const rated = usages.filter(usage => usage.remedyId === remedy.id).filter(hasFollowUp);
+  const conditions = Array.from(new Set(rated.map(usage => usage.condition)));
+  return conditions.map(condition => {
+    const forCondition = rated.filter(usage => usage.condition === condition);
+    const helped = forCondition.filter(usageHelped).length;
+    const totalImprovement = forCondition.reduce((sum, usage) => sum + usage.severityBefore - usage.severityAfter, 0);
+    return {
+      condition,
+      ...score(helped, forCondition.length - helped, forCondition.map(usage => usage.timestamp)),
+      averageImprovement: totalImprovement / forCondition.length,
+    };
+  });
+}
+
+// Ranks by the lower end of the credible interval, so a remedy that helped
+// 3 times out of 3 does not outrank one that helped 25 times out of 30.
+// Remedies without enough data go last.
+export function compareByLowerBound(a: RemedyScore, b: RemedyScore) {
+  if (a.enoughData !== b.enoughData) return a.enoughData ? -1 : 1;
+  return b.effectiveness.low - a.effectiveness.low;
+}
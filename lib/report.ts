@@ -0,0 +1,173 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { hasSymptomFor, symptomCountsToward, type ConditionDefinition } from './conditions';
+import { compareByLowerBound, hasFollowUp, scoreRemedy, type RemedyScore } from './remedies';
+import { analyzeFoodTriggers, type FoodTrigger } from './triggers';
+import { toDateKey, type DailyLog, type ExerciseEntry, type NutritionEntry, type Remedy, type RemedyOutcome, type RemedyUsage, type SleepRecord } from './storage';
+
+// Summary of a date range for a clinician, built from stored entries. The
+// report page renders it as HTML for printing and as a PDF.
+
+export interface ReportData {
+  nutrition: NutritionEntry[];
+  exercise: ExerciseEntry[];
+  dailyLogs: DailyLog[];
+  sleep: SleepRecord[];
+  remedies: Remedy[];
+  outcomes: RemedyOutcome[];
+  usages: RemedyUsage[];
+  conditions: ConditionDefinition[];
+}
+
+export interface ConditionSummary {
+  condition: string;
+  color: string;
+  symptomDays: number;
+  // Share of days with any nutrition entry
+  frequency: number;
+  episodes: number;
+  meanSeverity: number;
+  maxSeverity: number;
+  topSymptoms: { symptom: string; count: number }[];
+}
+
+export interface LifestyleSummary {
+  checkInDays: number;
+  averageSleep?: number;
+  averageStress?: number;
+  caffeineDays: number;
+  // Nights recorded by a wearable
+  wearableNights: number;
+  averageWearableSleep?: number;
+}
+
+export interface ExerciseSummary {
+  sessions: number;
+  totalMinutes: number;
+  minutesPerWeek: number;
+  byIntensity: Record<ExerciseEntry['intensity'], number>;
+  topTypes: { type: string; sessions: number; minutes: number }[];
+}
+
+export interface RemedySummary {
+  remedy: Remedy;
+  // Over all history, so short ranges still show how well it works
+  score: RemedyScore;
+  usesInRange: number;
+  averageImprovement?: number;
+}
+
+export interface ClinicianReport {
+  from: string;
+  to: string;
+  days: number;
+  loggedDays: number;
+  meals: number;
+  conditions: ConditionSummary[];
+  triggers: FoodTrigger[];
+  lifestyle: LifestyleSummary;
+  exercise: ExerciseSummary;
+  remedies: RemedySummary[];
+}
+
+// Suspected triggers listed per condition
+export const REPORT_TRIGGERS_PER_CONDITION = 3;
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+}
+
+function inRange(date: string, from: string, to: string) {
+  const key = toDateKey(date);
+  return key >= from && key <= to;
+}
+
+function summarizeCondition(condition: ConditionDefinition, entries: NutritionEntry[], loggedDays: number): ConditionSummary {
+  const episodes = entries.filter(entry => hasSymptomFor(entry, condition));
+  const counts = new Map<string, number>();
+  episodes.forEach(entry => entry.symptoms.forEach(symptom => {
+    if (symptomCountsToward(symptom, condition)) counts.set(symptom, (counts.get(symptom) ?? 0) + 1);
+  }));
+  const symptomDays = new Set(episodes.map(entry => toDateKey(entry.date))).size;
+  return {
+    condition: condition.name,
+    color: condition.color,
+    symptomDays,
+    frequency: loggedDays ? symptomDays / loggedDays : 0,
+    episodes: episodes.length,
+    meanSeverity: mean(episodes.map(entry => entry.severity)) ?? 0,
+    maxSeverity: Math.max(0, ...episodes.map(entry => entry.severity)),
+    topSymptoms: Array.from(counts, ([symptom, count]) => ({ symptom, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5),
+  };
+}
+
+function summarizeExercise(entries: ExerciseEntry[], days: number): ExerciseSummary {
+  const byType = new Map<string, { sessions: number; minutes: number }>();
+  entries.forEach(entry => {
+    const type = byType.get(entry.type) ?? { sessions: 0, minutes: 0 };
+    type.sessions++;
+    type.minutes += entry.duration;
+    byType.set(entry.type, type);
+  });
+  const totalMinutes = entries.reduce((sum, entry) => sum + entry.duration, 0);
+  return {
+    sessions: entries.length,
+    totalMinutes,
+    minutesPerWeek: days ? (totalMinutes / days) * 7 : 0,
+    byIntensity: {
+      low: entries.filter(entry => entry.intensity === 'low').length,
+      medium: entries.filter(entry => entry.intensity === 'medium').length,
+      high: entries.filter(entry => entry.intensity === 'high').length,
+    },
+    topTypes: Array.from(byType, ([type, totals]) => ({ type, ...totals }))
+      .sort((a, b) => b.minutes - a.minutes)
+      .slice(0, 5),
+  };
+}
+
+// `from` and `to` are inclusive yyyy-MM-dd dates
+export function buildClinicianReport(from: string, to: string, data: ReportData): ClinicianReport {
+  const nutrition = data.nutrition.filter(entry => inRange(entry.date, from, to));
+  const exercise = data.exercise.filter(entry => inRange(entry.date, from, to));
+  const logs = data.dailyLogs.filter(log => log.checkedInAt && log.date >= from && log.date <= to);
+  const sleep = data.sleep.filter(record => record.date >= from && record.date <= to);
+  const days = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+  const loggedDays = new Set(nutrition.map(entry => toDateKey(entry.date))).size;
+
+  const triggers = analyzeFoodTriggers(nutrition, data.conditions);
+
+  const remedies = data.remedies
+    .map(remedy => {
+      const usages = data.usages.filter(usage => usage.remedyId === remedy.id && inRange(usage.timestamp, from, to));
+      const outcomes = data.outcomes.filter(outcome => outcome.remedyId === remedy.id && inRange(outcome.timestamp, from, to));
+      const rated = usages.filter(hasFollowUp);
+      return {
+        remedy,
+        score: scoreRemedy(remedy, data.outcomes, data.usages),
+        usesInRange: usages.length + outcomes.length,
+        averageImprovement: mean(rated.map(usage => usage.severityBefore - usage.severityAfter)),
+      };
+    })
+    .sort((a, b) => compareByLowerBound(a.score, b.score));
+
+  return {
+    from,
+    to,
+    days,
+    loggedDays,
+    meals: nutrition.length,
+    conditions: data.conditions.map(condition => summarizeCondition(condition, nutrition, loggedDays)),
+    triggers: data.conditions.flatMap(condition => triggers[condition.name].slice(0, REPORT_TRIGGERS_PER_CONDITION)),
+    lifestyle: {
+      checkInDays: logs.length,
+      averageSleep: mean(logs.map(log => log.sleep)),
+      averageStress: mean(logs.map(log => log.stress)),
+      caffeineDays: logs.filter(log => log.caffeine).length,
+      wearableNights: sleep.length,
+      averageWearableSleep: mean(sleep.map(record => record.hours)),
+    },
+    exercise: summarizeExercise(exercise, days),
+    remedies,
+  };
+}
@@ -0,0 +1,186 @@
+import { format, parseISO } from 'date-fns';
+import { createPdfDocument, fitText, measureText, wrapText, type PdfTextStyle } from './pdf';
+import type { ClinicianReport } from './report';
+
+// Lays a clinician report out on A4 pages with the PDF writer
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'right';
+}
+
+// Text, or a proportion drawn as a bar
+type Cell = string | { value: number; color: string };
+
+const MARGIN = 48;
+const ROW_HEIGHT = 16;
+const BAR_WIDTH = 70;
+const muted = '#6b7280';
+
+const one = (value?: number) => (value === undefined ? '—' : value.toFixed(1));
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function renderReportPdf(report: ClinicianReport): Blob {
+  const range = `${format(parseISO(report.from), 'MMM d, yyyy')} – ${format(parseISO(report.to), 'MMM d, yyyy')}`;
+  const pdf = createPdfDocument(`Health report ${range}`);
+  const contentWidth = pdf.width - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pdf.height - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const paragraph = (text: string, style: PdfTextStyle = {}) => {
+    const size = style.size ?? 10;
+    wrapText(text, contentWidth, size, style.bold).forEach(line => {
+      ensureSpace(size + 4);
+      pdf.text(MARGIN, y, line, style);
+      y += size + 4;
+    });
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(48);
+    y += 14;
+    pdf.text(MARGIN, y, text, { size: 14, bold: true });
+    y += 20;
+    pdf.line(MARGIN, y - 4, pdf.width - MARGIN, y - 4);
+  };
+
+  const table = (columns: Column[], rows: Cell[][]) => {
+    const row = (cells: Cell[], style: PdfTextStyle) => {
+      ensureSpace(ROW_HEIGHT);
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const { width, align } = columns[i];
+        if (typeof cell === 'string') {
+          const text = fitText(cell, width - 6, style.size ?? 9, style.bold);
+          const offset = align === 'right' ? width - 6 - measureText(text, style.size ?? 9, style.bold) : 0;
+          pdf.text(x + offset, y, text, style);
+        } else {
+          pdf.rect(x, y + 2, BAR_WIDTH, 7, '#e5e7eb');
+          pdf.rect(x, y + 2, BAR_WIDTH * cell.value, 7, cell.color);
+          pdf.text(x + BAR_WIDTH + 5, y + 1, percent(cell.value), { size: 8, color: muted });
+        }
+        x += width;
+      });
+      y += ROW_HEIGHT;
+    };
+
+    row(columns.map(column => column.header), { size: 9, bold: true });
+    pdf.line(MARGIN, y - 4, MARGIN + columns.reduce((sum, c) => sum + c.width, 0), y - 4);
+    rows.forEach(cells => row(cells, { size: 9 }));
+  };
+
+  // Title
+  pdf.text(MARGIN, y, 'Health Report', { size: 22, bold: true });
+  y += 30;
+  pdf.text(MARGIN, y, range, { size: 12 });
+  y += 16;
+  pdf.text(MARGIN, y, `${report.meals} meals logged on ${report.loggedDays} of ${report.days} days · generated ${format(new Date(), 'PPP')}`, { size: 9, color: muted });
+  y += 14;
+
+  heading('Symptoms by condition');
+  table(
+    [
+      { header: 'Condition', width: 120 },
+      { header: 'Days', width: 40, align: 'right' },
+      { header: 'Frequency', width: 120 },
+      { header: 'Avg sev.', width: 50, align: 'right' },
+      { header: 'Max', width: 35, align: 'right' },
+      { header: 'Most reported symptoms', width: contentWidth - 365 },
+    ],
+    report.conditions.map(summary => [
+      summary.condition,
+      summary.symptomDays.toString(),
+      { value: summary.frequency, color: summary.color },
+      summary.episodes ? one(summary.meanSeverity) : '—',
+      summary.episodes ? summary.maxSeverity.toString() : '—',
+      summary.topSymptoms.map(({ symptom, count }) => `${symptom} (${count})`).join(', ') || 'None',
+    ])
+  );
+
+  heading('Suspected triggers');
+  if (report.triggers.length === 0) {
+    paragraph('No food was linked to symptoms often enough in this period.', { size: 9, color: muted });
+  } else {
+    table(
+      [
+        { header: 'Food', width: 130 },
+        { header: 'Condition', width: 120 },
+        { header: 'Eaten', width: 50, align: 'right' },
+        { header: 'With symptoms', width: 80, align: 'right' },
+        { header: 'Lift', width: 50, align: 'right' },
+      ],
+      report.triggers.map(trigger => [
+        trigger.food,
+        trigger.condition,
+        trigger.occurrences.toString(),
+        `${trigger.matches} (${percent(trigger.confidence)})`,
+        `${trigger.lift.toFixed(1)}×`,
+      ])
+    );
+    paragraph('Lift compares symptom rates after the food with the overall rate; above 1 means symptoms were more likely.', { size: 8, color: muted });
+  }
+
+  heading('Sleep, stress and exercise');
+  const { lifestyle, exercise } = report;
+  table(
+    [
+      { header: 'Measure', width: 200 },
+      { header: 'Value', width: 150 },
+    ],
+    [
+      ['Check-ins', `${lifestyle.checkInDays} days`],
+      ['Average sleep (check-ins)', lifestyle.averageSleep === undefined ? '—' : `${one(lifestyle.averageSleep)} h`],
+      ['Average sleep (wearable)', lifestyle.wearableNights ? `${one(lifestyle.averageWearableSleep)} h over ${lifestyle.wearableNights} nights` : '—'],
+      ['Average stress (1-10)', one(lifestyle.averageStress)],
+      ['Days with caffeine', lifestyle.checkInDays ? `${lifestyle.caffeineDays} of ${lifestyle.checkInDays}` : '—'],
+      ['Exercise sessions', `${exercise.sessions} (${exercise.byIntensity.low} low, ${exercise.byIntensity.medium} medium, ${exercise.byIntensity.high} high)`],
+      ['Exercise volume', `${exercise.totalMinutes} min total, ${Math.round(exercise.minutesPerWeek)} min/week`],
+      ['Main activities', exercise.topTypes.map(type => `${type.type} (${type.minutes} min)`).join(', ') || '—'],
+    ]
+  );
+
+  heading('Remedies');
+  if (report.remedies.length === 0) {
+    paragraph('No remedies recorded.', { size: 9, color: muted });
+  } else {
+    table(
+      [
+        { header: 'Remedy', width: 120 },
+        { header: 'Type', width: 65 },
+        { header: 'Effectiveness (95% CrI)', width: 125 },
+        { header: 'Responses', width: 60, align: 'right' },
+        { header: 'Uses in range', width: 70, align: 'right' },
+        { header: 'Avg drop', width: contentWidth - 440, align: 'right' },
+      ],
+      report.remedies.map(({ remedy, score, usesInRange, averageImprovement }) => [
+        remedy.name,
+        remedy.type,
+        score.trials
+          ? `${percent(score.effectiveness.value)} (${percent(score.effectiveness.low)}–${percent(score.effectiveness.high)})`
+          : 'No responses',
+        score.trials.toString(),
+        usesInRange.toString(),
+        averageImprovement === undefined ? '—' : one(averageImprovement),
+      ])
+    );
+    paragraph('Effectiveness is the estimated chance that a use helps, from all recorded responses. Avg drop is the mean fall in severity (1-10) after uses in this period.', { size: 8, color: muted });
+  }
+
+  return pdf.toBlob();
+}
+
+export function downloadReportPdf(report: ClinicianReport) {
+  const url = URL.createObjectURL(renderReportPdf(report));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `health-report-${report.from}-to-${report.to}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
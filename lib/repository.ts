@@ -0,0 +1,75 @@
+import type { NutritionEntry, ExerciseEntry, Remedy, RemedyOutcome, RemedyUsage, SleepRecord, DailyLog } from './storage';
+import type { SymptomSynonym } from './symptoms';
+import type { ConditionDefinition } from './conditions';
+import type { RuleSet } from './ruleLanguage';
+import type { SuggestionDismissal } from './recommendations';
+import type { DoseRecord } from './schedules';
+import type { Experiment } from './experiments';
+import type { SyncRecord } from './sync';
+
+export interface CollectionTypes {
+  nutrition: NutritionEntry;
+  exercise: ExerciseEntry;
+  remedies: Remedy;
+  sleep: SleepRecord;
+  dailyLogs: DailyLog;
+  symptomSynonyms: SymptomSynonym;
+  conditions: ConditionDefinition;
+  ruleSets: RuleSet;
+  remedyOutcomes: RemedyOutcome;
+  remedyUsages: RemedyUsage;
+  suggestionDismissals: SuggestionDismissal;
+  doses: DoseRecord;
+  experiments: Experiment;
+  syncRecords: SyncRecord;
+}
+
+export type CollectionName = keyof CollectionTypes;
+
+// Fields each collection can be range-queried on
+export const collections: Record<CollectionName, { indexes: string[] }> = {
+  nutrition: { indexes: ['date'] },
+  exercise: { indexes: ['date'] },
+  remedies: { indexes: [] },
+  sleep: { indexes: ['date'] },
+  dailyLogs: { indexes: ['date'] },
+  symptomSynonyms: { indexes: [] },
+  conditions: { indexes: [] },
+  ruleSets: { indexes: [] },
+  remedyOutcomes: { indexes: ['remedyId', 'timestamp'] },
+  remedyUsages: { indexes: ['remedyId', 'timestamp'] },
+  suggestionDismissals: { indexes: [] },
+  doses: { indexes: ['remedyId', 'dueAt'] },
+  experiments: { indexes: [] },
+  syncRecords: { indexes: [] },
+};
+
+export const collectionNames = Object.keys(collections) as CollectionName[];
+
+// Bookkeeping that belongs to this device, left out of backups and sync
+export const localCollectionNames: CollectionName[] = ['syncRecords'];
+
+export const dataCollectionNames = collectionNames.filter(name => !localCollectionNames.includes(name));
+
+export interface Repository<T extends { id: string }> {
+  get(id: string): Promise<T | undefined>;
+  list(): Promise<T[]>;
+  put(record: T): Promise<void>;
+  putMany(records: T[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+  // Records whose indexed field lies within [lower, upper], sorted by that field.
+  // Either bound may be omitted.
+  range(field: string, lower?: string, upper?: string): Promise<T[]>;
+}
+
+export interface StorageBackend {
+  name: 'indexeddb' | 'localstorage';
+  repository<K extends CollectionName>(collection: K): Repository<CollectionTypes[K]>;
+  close(): void;
+}
+
+export function inRange(value: unknown, lower?: string, upper?: string) {
+  const key = String(value);
+  return (lower === undefined || key >= lower) && (upper === undefined || key <= upper);
+}
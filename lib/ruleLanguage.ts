@@ -0,0 +1,220 @@
+import { ruleFactors, type RiskRule, type RuleComparison, type RuleTest } from './conditions';
+
+// A small line-based language for risk rules, one rule per line:
+//
+//   caffeine && sleep < 6 => +30 "Coffee + short sleep" [caffeine]
+//   sleep < 7 || sleep > 9 => +25 "Irregular sleep"
+//   exercise => -10 "Exercise (protective)"
+//
+// `&&` joins tests that must all pass and `||` splits a line into
+// alternatives of which at most one applies. Rules sharing a [group] apply
+// first-match-only, in order. Lines starting with # are comments.
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+// User-edited rule source for a condition, replacing its own rules
+export interface RuleSet {
+  // Id of the condition the rules belong to
+  id: string;
+  source: string;
+  updatedAt: string;
+}
+
+export interface ParsedRules {
+  rules: RiskRule[];
+  errors: RuleSyntaxError[];
+}
+
+type TokenType = 'word' | 'number' | 'string' | 'op';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  column: number;
+}
+
+const OPERATORS = ['&&', '||', '=>', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '%', '[', ']'];
+
+function tokenize(text: string, line: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const column = i + 1;
+    const space = rest.match(/^\s+/);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+    if (rest.startsWith('#')) break;
+    const word = rest.match(/^[A-Za-z_][\w-]*/);
+    const number = rest.match(/^\d+(\.\d+)?/);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], column });
+      i += word[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', text: number[0], column });
+      i += number[0].length;
+    } else if (rest[0] === '"') {
+      const end = rest.indexOf('"', 1);
+      if (end === -1) throw new RuleSyntaxError('Label is missing its closing quote', line, column);
+      tokens.push({ type: 'string', text: rest.slice(1, end), column });
+      i += end + 1;
+    } else {
+      const op = OPERATORS.find(o => rest.startsWith(o));
+      if (!op) throw new RuleSyntaxError(`Unexpected character "${rest[0]}"`, line, column);
+      tokens.push({ type: 'op', text: op, column });
+      i += op.length;
+    }
+  }
+  return tokens;
+}
+
+const factorNames = ruleFactors.map(f => f.factor).join(', ');
+
+// Parses one non-empty line into the rules it expands to
+function parseLine(text: string, line: number): RiskRule[] {
+  const tokens = tokenize(text, line);
+  let pos = 0;
+  const peek = (): Token | undefined => tokens[pos];
+  const error = (message: string, token = peek()) =>
+    new RuleSyntaxError(message, line, token ? token.column : text.trimEnd().length + 1);
+  const describe = (token?: Token) => (token ? `"${token.text}"` : 'end of line');
+  const accept = (op: string) => {
+    const token = peek();
+    if (token?.type !== 'op' || token.text !== op) return false;
+    pos++;
+    return true;
+  };
+
+  const parseTest = (): RuleTest => {
+    const negated = accept('!');
+    const token = peek();
+    if (token?.type !== 'word') throw error(`Expected a factor (${factorNames}) but found ${describe(token)}`);
+    const definition = ruleFactors.find(f => f.factor === token.text.toLowerCase());
+    if (!definition) throw error(`Unknown factor "${token.text}". Expected one of ${factorNames}`);
+    pos++;
+    const factor = definition.factor;
+    const op = peek();
+    const comparing = op?.type === 'op' && ['<', '<=', '>', '>=', '==', '!='].includes(op.text);
+
+    if (definition.kind === 'boolean') {
+      if (!comparing) return { factor, comparison: '==', value: !negated };
+      if (negated || (op.text !== '==' && op.text !== '!=')) {
+        throw error(`${factor} is yes/no; write ${factor}, !${factor} or ${factor} == false`, op);
+      }
+      pos++;
+      const value = peek();
+      if (value?.text !== 'true' && value?.text !== 'false') throw error(`Expected true or false but found ${describe(value)}`);
+      pos++;
+      return { factor, comparison: '==', value: (value.text === 'true') === (op.text === '==') };
+    }
+
+    if (negated) throw error(`"!" only applies to yes/no factors; ${factor} needs a comparison such as ${factor} < 6`, token);
+    if (!comparing) throw error(`${factor} needs a comparison such as ${factor} < 6`);
+    if (op.text === '!=') throw error(`${factor} cannot use "!="; use < or > instead`, op);
+    pos++;
+    const value = peek();
+    if (value?.type !== 'number') throw error(`Expected a number after "${op.text}" but found ${describe(value)}`);
+    pos++;
+    return { factor, comparison: op.text as RuleComparison, value: parseFloat(value.text) };
+  };
+
+  const alternatives: RuleTest[][] = [];
+  do {
+    const tests = [parseTest()];
+    while (accept('&&')) tests.push(parseTest());
+    alternatives.push(tests);
+  } while (accept('||'));
+
+  if (!accept('=>')) throw error(`Expected "=>" followed by points but found ${describe(peek())}`);
+
+  const negative = accept('-');
+  if (!negative) accept('+');
+  const sign = negative ? -1 : 1;
+  const amount = peek();
+  if (amount?.type !== 'number') throw error(`Expected points such as +20 or -10 but found ${describe(amount)}`);
+  pos++;
+  accept('%');
+  const points = sign * parseFloat(amount.text);
+
+  let label = '';
+  const labelToken = peek();
+  if (labelToken?.type === 'string') {
+    label = labelToken.text.trim();
+    pos++;
+  }
+
+  let group: string | undefined;
+  if (accept('[')) {
+    const name = peek();
+    if (name?.type !== 'word') throw error(`Expected a group name after "[" but found ${describe(name)}`);
+    pos++;
+    if (!accept(']')) throw error(`Expected "]" after the group name but found ${describe(peek())}`);
+    group = name.text;
+  }
+
+  if (pos < tokens.length) throw error(`Unexpected ${describe(peek())} at the end of the rule`);
+
+  // Alternatives share a group so that only the first matching one applies
+  if (alternatives.length > 1 && !group) group = `line-${line}`;
+  return alternatives.map(when => ({ label: label || describeTests(when), when, points, ...(group && { group }) }));
+}
+
+export function parseRules(source: string): ParsedRules {
+  const rules: RiskRule[] = [];
+  const errors: RuleSyntaxError[] = [];
+  source.split('\n').forEach((text, i) => {
+    if (!text.trim() || text.trim().startsWith('#')) return;
+    try {
+      rules.push(...parseLine(text, i + 1));
+    } catch (error) {
+      if (!(error instanceof RuleSyntaxError)) throw error;
+      errors.push(error);
+    }
+  });
+  return { rules, errors };
+}
+
+function formatTest({ factor, comparison, value }: RuleTest) {
+  if (typeof value === 'boolean') return value ? factor : `!${factor}`;
+  return `${factor} ${comparison} ${value}`;
+}
+
+function describeTests(tests: RuleTest[]) {
+  return tests.map(formatTest).join(' && ');
+}
+
+function formatPoints(points: number) {
+  return points < 0 ? `${points}` : `+${points}`;
+}
+
+// Source text for `rules`; parseRules(formatRules(rules)) gives equivalent rules
+export function formatRules(rules: RiskRule[]): string {
+  const lines: string[] = [];
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    const label = rule.label.replace(/"/g, "'");
+    // Consecutive alternatives with the same outcome collapse into one `||` line
+    let end = i + 1;
+    if (rule.group) {
+      while (end < rules.length && rules[end].group === rule.group && rules[end].label === rule.label && rules[end].points === rule.points) end++;
+    }
+    const sameGroupLater = rules.slice(end).some(r => r.group === rule.group);
+    const sameGroupEarlier = rules.slice(0, i).some(r => r.group === rule.group);
+    if (end - i > 1 && !sameGroupLater && !sameGroupEarlier) {
+      const alternatives = rules.slice(i, end).map(r => describeTests(r.when));
+      lines.push(`${alternatives.join(' || ')} => ${formatPoints(rule.points)} "${label}"`);
+      i = end - 1;
+      continue;
+    }
+    const group = rule.group ? ` [${rule.group}]` : '';
+    lines.push(`${describeTests(rule.when)} => ${formatPoints(rule.points)} "${label}"${group}`);
+  }
+  return lines.join('\n');
+}
@@ -1,4 +1,4 @@
-import { NutritionEntry, ExerciseEntry, Remedy } from './storage';
+import { NutritionEntry, ExerciseEntry, Remedy, RemedyOutcome, RemedyUsage } from './storage';
 
 export const sampleNutritionEntries: NutritionEntry[] = [
   {
@@ -62,17 +62,13 @@ export const sampleRemedies: Remedy[] = [
     id: 'remedy-1',
     name: 'Ginger Tea',
     type: 'food',
-    effectiveness: 75,
-    usageCount: 12,
-    conditions: ['Acid Reflux', 'IBS'],
+    conditions: ['Acid Reflux', 'IBS Symptoms'],
     notes: 'Works best in the morning',
   },
   {
     id: 'remedy-2',
     name: 'Omeprazole',
     type: 'medication',
-    effectiveness: 85,
-    usageCount: 30,
     conditions: ['Acid Reflux'],
     notes: 'Take 30 minutes before meals',
   },
@@ -80,9 +76,41 @@ export const sampleRemedies: Remedy[] = [
     id: 'remedy-3',
     name: 'Meditation',
     type: 'lifestyle',
-    effectiveness: 70,
-    usageCount: 20,
-    conditions: ['Migraine', 'IBS'],
+    conditions: ['Migraine', 'IBS Symptoms'],
     notes: '10 minutes daily helps significantly',
   },
 ];
+
+// `total` daily uses ending yesterday, `helped` of them spread evenly
+function sampleOutcomes(remedyId: string, total: number, helped: number): RemedyOutcome[] {
+  return Array.from({ length: total }, (_, i) => ({
+    id: `${remedyId}-outcome-${i + 1}`,
+    remedyId,
+    helped: Math.floor(((i + 1) * helped) / total) > Math.floor((i * helped) / total),
+    timestamp: new Date(Date.now() - (total - i) * 24 * 60 * 60 * 1000).toISOString(),
+  }));
+}
+
+export const sampleRemedyOutcomes: RemedyOutcome[] = [
+  ...sampleOutcomes('remedy-1', 12, 9),
+  ...sampleOutcomes('remedy-2', 30, 25),
+  ...sampleOutcomes('remedy-3', 4, 3),
+];
+
+// Omeprazole taken for reflux: [days ago, severity before, severity after]
+export const sampleRemedyUsages: RemedyUsage[] = [
+  [12, 7, 3], [10, 6, 2], [8, 8, 4], [6, 5, 5], [4, 7, 2], [1, 6, 3],
+].map(([daysAgo, severityBefore, severityAfter], i) => {
+  const taken = Date.now() - daysAgo * 24 * 60 * 60 * 1000;
+  return {
+    id: `remedy-2-use-${i + 1}`,
+    remedyId: 'remedy-2',
+    timestamp: new Date(taken).toISOString(),
+    dose: '20mg',
+    condition: 'Acid Reflux',
+    nutritionEntryIds: daysAgo === 1 ? ['sample-1'] : [],
+    severityBefore,
+    severityAfter,
+    followUpAt: new Date(taken + 4 * 60 * 60 * 1000).toISOString(),
+  };
+});
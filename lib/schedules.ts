@@ -0,0 +1,154 @@
+import { addDays, addHours, addMinutes, eachDayOfInterval, format, parseISO, setHours, setMinutes, startOfDay } from 'date-fns';
+import type { NutritionEntry, Remedy } from './storage';
+
+// When a remedy should be taken. Fixed, interval and before-meal schedules
+// repeat daily; meal schedules produce one dose per logged meal.
+export type RemedySchedule =
+  | { kind: 'times'; times: string[] }
+  | { kind: 'interval'; everyHours: number; startTime: string }
+  // Minutes after each logged meal
+  | { kind: 'meal'; offsetMinutes: number }
+  // A meal is only logged once eaten, so doses before a meal are due ahead
+  // of the usual meal times instead
+  | { kind: 'beforeMeal'; minutesBefore: number; mealTimes: string[] };
+
+export type DoseStatus = 'taken' | 'skipped';
+
+// What happened to one scheduled dose
+export interface DoseRecord {
+  // See doseId
+  id: string;
+  remedyId: string;
+  dueAt: string;
+  status: DoseStatus;
+  recordedAt: string;
+}
+
+export interface ScheduledDose {
+  id: string;
+  remedy: Remedy;
+  dueAt: Date;
+  // Meal the dose is relative to, for meal schedules
+  entry?: NutritionEntry;
+  record?: DoseRecord;
+}
+
+// A dose with no record this long after it was due counts as missed
+export const MISSED_AFTER_HOURS = 2;
+
+export function doseId(remedyId: string, dueAt: Date) {
+  return `${remedyId}@${dueAt.toISOString()}`;
+}
+
+function atTime(day: Date, time: string) {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n));
+  return setMinutes(setHours(startOfDay(day), hours), minutes);
+}
+
+const isTime = (time: unknown) => typeof time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+
+// Whether a schedule can be expanded into doses. Schedules come from backups
+// and other devices too, so a zero or negative interval is possible there.
+export function isValidSchedule(schedule: RemedySchedule) {
+  switch (schedule.kind) {
+    case 'times':
+      return Array.isArray(schedule.times) && schedule.times.length > 0 && schedule.times.every(isTime);
+    case 'interval':
+      return Number.isFinite(schedule.everyHours) && schedule.everyHours > 0 && isTime(schedule.startTime);
+    case 'meal':
+      return Number.isFinite(schedule.offsetMinutes) && schedule.offsetMinutes >= 0;
+    case 'beforeMeal':
+      return (
+        Number.isFinite(schedule.minutesBefore) &&
+        schedule.minutesBefore >= 0 &&
+        Array.isArray(schedule.mealTimes) &&
+        schedule.mealTimes.length > 0 &&
+        schedule.mealTimes.every(isTime)
+      );
+    default:
+      return false;
+  }
+}
+
+function dueTimes(schedule: RemedySchedule, from: Date, to: Date, entries: NutritionEntry[]): { dueAt: Date; entry?: NutritionEntry }[] {
+  if (schedule.kind === 'meal') {
+    return entries
+      .map(entry => ({ dueAt: addMinutes(parseISO(entry.date), schedule.offsetMinutes), entry }))
+      .filter(({ dueAt }) => dueAt >= from && dueAt <= to);
+  }
+
+  // The day after `to` too, for doses ahead of a meal just past midnight
+  const days = eachDayOfInterval({ start: startOfDay(from), end: addDays(to, 1) });
+  const times = days.flatMap(day => {
+    if (schedule.kind === 'times') return schedule.times.map(time => atTime(day, time));
+    if (schedule.kind === 'beforeMeal') {
+      return schedule.mealTimes.map(time => addMinutes(atTime(day, time), -schedule.minutesBefore));
+    }
+    const result: Date[] = [];
+    const end = addHours(startOfDay(day), 24);
+    for (let t = atTime(day, schedule.startTime); t < end; t = addHours(t, schedule.everyHours)) result.push(t);
+    return result;
+  });
+  return times.filter(dueAt => dueAt >= from && dueAt <= to).map(dueAt => ({ dueAt }));
+}
+
+// Every dose of every scheduled remedy due between `from` and `to`, oldest first
+export function scheduledDoses(
+  remedies: Remedy[],
+  from: Date,
+  to: Date,
+  entries: NutritionEntry[],
+  records: DoseRecord[]
+): ScheduledDose[] {
+  const recordsById = new Map(records.map(record => [record.id, record]));
+  return remedies
+    .flatMap(remedy => {
+      if (!remedy.schedule || !isValidSchedule(remedy.schedule)) return [];
+      return dueTimes(remedy.schedule, from, to, entries).map(({ dueAt, entry }) => {
+        const id = doseId(remedy.id, dueAt);
+        return { id, remedy, dueAt, entry, record: recordsById.get(id) };
+      });
+    })
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+export function isMissed(dose: ScheduledDose, now = new Date()) {
+  return !dose.record && addHours(dose.dueAt, MISSED_AFTER_HOURS) < now;
+}
+
+export interface DayAdherence {
+  date: string;
+  due: number;
+  taken: number;
+  skipped: number;
+  missed: number;
+}
+
+// Dose counts per calendar day, for doses that are no longer pending
+export function adherenceByDay(doses: ScheduledDose[], now = new Date()): Record<string, DayAdherence> {
+  const days: Record<string, DayAdherence> = {};
+  doses.forEach(dose => {
+    const date = format(dose.dueAt, 'yyyy-MM-dd');
+    const day = (days[date] ??= { date, due: 0, taken: 0, skipped: 0, missed: 0 });
+    if (dose.record?.status === 'taken') day.taken++;
+    else if (dose.record?.status === 'skipped') day.skipped++;
+    else if (isMissed(dose, now)) day.missed++;
+    else return;
+    day.due++;
+  });
+  return days;
+}
+
+export function describeSchedule(schedule: RemedySchedule) {
+  switch (schedule.kind) {
+    case 'times':
+      return `Daily at ${schedule.times.join(', ')}`;
+    case 'interval':
+      return `Every ${schedule.everyHours}h from ${schedule.startTime}`;
+    case 'meal':
+      if (schedule.offsetMinutes === 0) return 'With each meal';
+      return `${schedule.offsetMinutes} min after each logged meal`;
+    case 'beforeMeal':
+      return `${schedule.minutesBefore} min before meals at ${schedule.mealTimes.join(', ')}`;
+  }
+}
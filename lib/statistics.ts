@@ -0,0 +1,208 @@
+// Small statistics toolkit for association tests between logged factors and
+// symptoms. Everything works on plain counts or arrays so it can be reused by
+// any analysis.
+
+export interface ContingencyTable {
+  // exposed & outcome, exposed & no outcome, unexposed & outcome, unexposed & no outcome
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+}
+
+export interface Estimate {
+  value: number;
+  low: number;
+  high: number;
+}
+
+const Z_95 = 1.959964;
+
+// Abramowitz & Stegun 7.1.26, accurate to about 1.5e-7
+function erf(x: number) {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+}
+
+export function normalCdf(z: number) {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+export function twoSidedP(z: number) {
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+export function contingencyTable<T>(items: T[], exposed: (item: T) => boolean, outcome: (item: T) => boolean): ContingencyTable {
+  const table = { a: 0, b: 0, c: 0, d: 0 };
+  items.forEach(item => {
+    const e = exposed(item);
+    const o = outcome(item);
+    if (e && o) table.a++;
+    else if (e) table.b++;
+    else if (o) table.c++;
+    else table.d++;
+  });
+  return table;
+}
+
+// Risk of the outcome with the exposure relative to without it, with a 95%
+// log-normal interval. Empty cells get the Haldane 0.5 correction.
+export function relativeRisk({ a, b, c, d }: ContingencyTable): Estimate {
+  if ([a, b, c, d].some(n => n === 0)) {
+    a += 0.5; b += 0.5; c += 0.5; d += 0.5;
+  }
+  const value = (a / (a + b)) / (c / (c + d));
+  const se = Math.sqrt(1 / a - 1 / (a + b) + 1 / c - 1 / (c + d));
+  return {
+    value,
+    low: Math.exp(Math.log(value) - Z_95 * se),
+    high: Math.exp(Math.log(value) + Z_95 * se),
+  };
+}
+
+// Pearson correlation of two binary variables
+export function phiCoefficient({ a, b, c, d }: ContingencyTable) {
+  const denominator = Math.sqrt((a + b) * (c + d) * (a + c) * (b + d));
+  return denominator === 0 ? 0 : (a * d - b * c) / denominator;
+}
+
+// Pearson correlation between a continuous value and a binary outcome
+export function pointBiserial(values: number[], outcomes: boolean[]) {
+  const n = values.length;
+  const positives = values.filter((_, i) => outcomes[i]);
+  const negatives = values.filter((_, i) => !outcomes[i]);
+  if (n < 2 || positives.length === 0 || negatives.length === 0) return 0;
+
+  const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+  const overall = mean(values);
+  const sd = Math.sqrt(values.reduce((s, x) => s + (x - overall) ** 2, 0) / n);
+  if (sd === 0) return 0;
+  const p = positives.length / n;
+  return ((mean(positives) - mean(negatives)) / sd) * Math.sqrt(p * (1 - p));
+}
+
+// 95% interval and p-value for a correlation via the Fisher z transform
+export function correlationInference(r: number, n: number): { estimate: Estimate; p: number } {
+  if (n <= 3) return { estimate: { value: r, low: -1, high: 1 }, p: 1 };
+  const clamped = Math.max(-0.999999, Math.min(0.999999, r));
+  const z = Math.atanh(clamped);
+  const se = 1 / Math.sqrt(n - 3);
+  return {
+    estimate: { value: r, low: Math.tanh(z - Z_95 * se), high: Math.tanh(z + Z_95 * se) },
+    p: twoSidedP(z / se),
+  };
+}
+
+const logFactorials: number[] = [0];
+
+function logFactorial(n: number) {
+  for (let i = logFactorials.length; i <= n; i++) logFactorials[i] = logFactorials[i - 1] + Math.log(i);
+  return logFactorials[n];
+}
+
+// Two-sided Fisher exact test; reliable with the small counts a personal log produces
+export function fisherExact({ a, b, c, d }: ContingencyTable) {
+  const row1 = a + b;
+  const row2 = c + d;
+  const col1 = a + c;
+  const n = row1 + row2;
+  const logProbability = (x: number) =>
+    logFactorial(row1) + logFactorial(row2) + logFactorial(col1) + logFactorial(n - col1)
+    - logFactorial(n) - logFactorial(x) - logFactorial(row1 - x) - logFactorial(col1 - x) - logFactorial(row2 - col1 + x);
+
+  const observed = logProbability(a);
+  let p = 0;
+  for (let x = Math.max(0, col1 - row2); x <= Math.min(row1, col1); x++) {
+    const lp = logProbability(x);
+    // Tolerance so tables as likely as the observed one are counted
+    if (lp <= observed + 1e-7) p += Math.exp(lp);
+  }
+  return Math.min(1, p);
+}
+
+// Benjamini–Hochberg adjusted p-values (false discovery rate), in input order
+export function adjustPValues(pValues: number[]) {
+  const order = pValues.map((p, i) => ({ p, i })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 1;
+  for (let rank = order.length; rank >= 1; rank--) {
+    const { p, i } = order[rank - 1];
+    running = Math.min(running, (p * order.length) / rank);
+    adjusted[i] = running;
+  }
+  return adjusted;
+}
+
+// Lanczos approximation (g = 7, n = 9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (x + i);
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(x: number, a: number, b: number) {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    for (const numerator of [
+      (m * (b - m) * x) / ((a + m2 - 1) * (a + m2)),
+      -((a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1)),
+    ]) {
+      d = 1 + numerator * d;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = 1 + numerator / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+// P(X <= x) for X ~ Beta(a, b)
+export function betaCdf(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The continued fraction converges fastest below the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+export function betaQuantile(p: number, a: number, b: number) {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (betaCdf(mid, a, b) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+// Posterior mean and central credible interval for a success rate after
+// `successes` and `failures`, starting from a Beta(alpha, beta) prior
+export function betaPosterior(successes: number, failures: number, { alpha = 1, beta = 1 } = {}, level = 0.95): Estimate {
+  const a = alpha + successes;
+  const b = beta + failures;
+  const tail = (1 - level) / 2;
+  return { value: a / (a + b), low: betaQuantile(tail, a, b), high: betaQuantile(1 - tail, a, b) };
+}
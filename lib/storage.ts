@@ -1,3 +1,34 @@
+import { format, parseISO, startOfDay, endOfDay } from 'date-fns';
+import { createLocalStorageBackend } from './localStorageBackend';
+import { openIndexedDbBackend } from './indexedDbBackend';
+import { createEncryptedBackend } from './encryptedBackend';
+import { createSyncTrackingBackend } from './syncTracking';
+import {
+  createEncryptionSettings,
+  unlockKeys,
+  type EncryptionKeys,
+  type EncryptionSettings,
+} from './encryption';
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfileId,
+  getProfiles,
+  profileDatabaseName,
+  profileExists,
+  profileKey,
+  removeProfile,
+  setActiveProfileId,
+} from './profiles';
+import { collectionNames, type CollectionName, type StorageBackend } from './repository';
+import { CURRENT_SCHEMA_VERSION, restoreSnapshot, runMigrations, takeSnapshot } from './migrations';
+import { builtinVocabulary, createVocabulary, normalizeSymptoms, type SymptomSynonym, type SymptomVocabulary } from './symptoms';
+import { builtinConditions, type ConditionDefinition } from './conditions';
+import { parseRules, type RuleSet } from './ruleLanguage';
+import { dismissalId, type RecommendationData, type SuggestionDismissal } from './recommendations';
+import { doseId, type DoseRecord, type DoseStatus, type RemedySchedule } from './schedules';
+import type { Experiment } from './experiments';
+import type { SyncSettings } from './sync';
+
 export interface NutritionEntry {
   id: string;
   date: string;
@@ -24,69 +55,717 @@ export interface Remedy {
   id: string;
   name: string;
   type: 'medication' | 'supplement' | 'lifestyle' | 'food';
-  effectiveness: number;
-  usageCount: number;
   conditions: string[];
   notes: string;
+  // Feedback given before outcomes were stored individually
+  legacyFeedback?: { helped: number; notHelped: number };
+  schedule?: RemedySchedule;
+}
+
+// One "helped" / "didn't help" response after using a remedy
+export interface RemedyOutcome {
+  id: string;
+  remedyId: string;
+  helped: boolean;
+  timestamp: string;
+}
+
+// One use of a remedy against a condition. Severity is rated 1-10 when it is
+// taken and again at the follow-up a few hours later.
+export interface RemedyUsage {
+  id: string;
+  remedyId: string;
+  timestamp: string;
+  dose: string;
+  condition: string;
+  // Meals that may have set off the episode
+  nutritionEntryIds: string[];
+  severityBefore: number;
+  severityAfter?: number;
+  followUpAt?: string;
+}
+
+// Nightly sleep measured by a wearable, keyed by the date the night ended
+export interface SleepRecord {
+  id: string;
+  date: string;
+  hours: number;
+  source: string;
+}
+
+// One check-in per calendar day, keyed by its date
+export interface DailyLog {
+  id: string;
+  date: string;
+  sleep: number;
+  stress: number;
+  caffeine: boolean;
+  exercise: boolean;
+  updatedAt: string;
+  // Set when the user saves the check-in. Logs created by logging a meal or
+  // workout, or by backfill, have placeholder sleep and stress until then.
+  checkedInAt?: string;
 }
 
 export const storageKeys = {
   nutrition: 'nutrition-entries',
   exercise: 'exercise-entries',
   remedies: 'remedies',
+  sleep: 'sleep-records',
+  dailyLogs: 'daily-logs',
+  symptomSynonyms: 'symptom-synonyms',
+  conditions: 'custom-conditions',
+  ruleSets: 'rule-sets',
+  remedyOutcomes: 'remedy-outcomes',
+  remedyUsages: 'remedy-usages',
+  suggestionDismissals: 'suggestion-dismissals',
+  doses: 'doses',
+  experiments: 'experiments',
+  syncRecords: 'sync-records',
+  schemaVersion: 'schema-version',
+  encryption: 'encryption-settings',
+  sync: 'sync-settings',
 };
 
-export function saveNutritionEntry(entry: NutritionEntry) {
-  const entries = getNutritionEntries();
-  entries.push(entry);
-  localStorage.setItem(storageKeys.nutrition, JSON.stringify(entries));
+// Keys for one profile's data in localStorage
+export function profileStorageKeys(profileId: string): typeof storageKeys {
+  const keys = { ...storageKeys };
+  (Object.keys(keys) as (keyof typeof storageKeys)[]).forEach(name => {
+    keys[name] = profileKey(storageKeys[name], profileId);
+  });
+  return keys;
+}
+
+export function getSchemaVersion(profileId = getActiveProfileId()) {
+  // Data saved before versioning existed is treated as version 1
+  return parseInt(localStorage.getItem(profileStorageKeys(profileId).schemaVersion) || '1');
 }
 
-export function getNutritionEntries(): NutritionEntry[] {
+export function setSchemaVersion(version: number, profileId = getActiveProfileId()) {
+  localStorage.setItem(profileStorageKeys(profileId).schemaVersion, version.toString());
+}
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+// Problems met while opening the active profile's storage
+export interface StorageStatus {
+  // Why localStorage is used instead of IndexedDB
+  fallbackReason?: string;
+  // A schema upgrade that failed and was rolled back
+  migrationError?: string;
+}
+
+let storageStatus: StorageStatus = {};
+
+export async function getStorageStatus(): Promise<StorageStatus> {
+  await getBackend();
+  return storageStatus;
+}
+
+// Moves collections still kept in localStorage (from before IndexedDB was
+// the default) into the new backend, then frees the localStorage keys.
+async function migrateFromLocalStorage(backend: StorageBackend, keys: typeof storageKeys) {
+  const legacy = createLocalStorageBackend(keys);
+  for (const name of collectionNames) {
+    if (localStorage.getItem(keys[name]) === null) continue;
+    const records = await legacy.repository(name).list();
+    await backend.repository(name).putMany(records);
+    localStorage.removeItem(keys[name]);
+  }
+}
+
+// Daily inputs used to live in loose keys that were never reset, so their
+// date is unknown. Rebuild a log for every day with entries instead.
+const legacyDailyKeys = ['todaySleep', 'todayStress', 'todayCaffeine', 'todayExercise'];
+
+async function backfillDailyLogs(backend: StorageBackend) {
+  const logs = backend.repository('dailyLogs');
+  if ((await logs.list()).length === 0) {
+    const nutrition = await backend.repository('nutrition').list();
+    const exercise = await backend.repository('exercise').list();
+    const dates = new Set([...nutrition, ...exercise].map(entry => toDateKey(entry.date)));
+    await logs.putMany(Array.from(dates).map(date => ({
+      ...defaultDailyLog(date),
+      ...nutritionInputs(nutrition.filter(entry => toDateKey(entry.date) === date)),
+      exercise: exercise.some(entry => toDateKey(entry.date) === date),
+    })));
+  }
+  legacyDailyKeys.forEach(key => localStorage.removeItem(key));
+}
+
+async function upgradeSchema(backend: StorageBackend, profileId: string) {
+  const version = getSchemaVersion(profileId);
+  if (version >= CURRENT_SCHEMA_VERSION) return;
+  try {
+    await runMigrations(backend, version);
+    setSchemaVersion(CURRENT_SCHEMA_VERSION, profileId);
+  } catch (error) {
+    // runMigrations has already restored the pre-migration snapshot;
+    // leave the version alone so the upgrade is retried next load
+    if (profileId === getActiveProfileId()) storageStatus = { ...storageStatus, migrationError: (error as Error).message };
+  }
+}
+
+async function openStorageBackend(profileId: string): Promise<StorageBackend> {
+  const keys = profileStorageKeys(profileId);
+  const fallBack = (reason: string) => {
+    if (profileId === getActiveProfileId()) storageStatus = { ...storageStatus, fallbackReason: reason };
+    return createLocalStorageBackend(keys);
+  };
+  if (typeof indexedDB === 'undefined') {
+    return fallBack('This browser does not support IndexedDB');
+  }
+  try {
+    const backend = await openIndexedDbBackend(profileDatabaseName(profileId));
+    await migrateFromLocalStorage(backend, keys);
+    return backend;
+  } catch (error) {
+    return fallBack(`IndexedDB could not be opened: ${(error as Error).message}`);
+  }
+}
+
+// Fired on window when encryption is turned on or off or its settings change
+export const ENCRYPTION_CHANGED_EVENT = 'encryption-changed';
+
+export function getEncryptionSettings(profileId = getActiveProfileId()): EncryptionSettings | null {
+  if (typeof window === 'undefined') return null;
+  const data = localStorage.getItem(profileStorageKeys(profileId).encryption);
+  return data ? JSON.parse(data) : null;
+}
+
+function saveEncryptionSettings(settings: EncryptionSettings | null, profileId = getActiveProfileId()) {
+  const key = profileStorageKeys(profileId).encryption;
+  if (settings) localStorage.setItem(key, JSON.stringify(settings));
+  else localStorage.removeItem(key);
+  window.dispatchEvent(new Event(ENCRYPTION_CHANGED_EVENT));
+}
+
+// Set while the profile syncs with other devices
+export function getSyncSettings(profileId = getActiveProfileId()): SyncSettings | null {
+  if (typeof window === 'undefined') return null;
+  const data = localStorage.getItem(profileStorageKeys(profileId).sync);
+  return data ? JSON.parse(data) : null;
+}
+
+// Keys for the active profile, held only in memory while it is unlocked.
+// Storage calls made while locked wait for `unlock`.
+let unlockedKeys: EncryptionKeys | null = null;
+let unlockWaiters: ((keys: EncryptionKeys) => void)[] = [];
+
+function whenUnlocked(): Promise<EncryptionKeys> {
+  if (unlockedKeys) return Promise.resolve(unlockedKeys);
+  return new Promise(resolve => unlockWaiters.push(resolve));
+}
+
+export function isLocked() {
+  return getEncryptionSettings() !== null && unlockedKeys === null;
+}
+
+export function getEncryptionKeys() {
+  return unlockedKeys;
+}
+
+// Throws PassphraseError for a wrong passphrase
+export async function unlock(passphrase: string) {
+  const settings = getEncryptionSettings();
+  if (!settings) return;
+  const keys = await unlockKeys(passphrase, settings);
+  unlockedKeys = keys;
+  unlockWaiters.forEach(resolve => resolve(keys));
+  unlockWaiters = [];
+}
+
+// Forgets the keys and reloads, so no decrypted data stays on the page
+export function lock() {
+  unlockedKeys = null;
+  window.location.reload();
+}
+
+async function openBackend(profileId: string): Promise<StorageBackend> {
+  const stored = await openStorageBackend(profileId);
+  const backend = getEncryptionSettings(profileId) ? createEncryptedBackend(stored, await whenUnlocked()) : stored;
+  await upgradeSchema(backend, profileId);
+  await backfillDailyLogs(backend);
+  return createSyncTrackingBackend(backend, () => getSyncSettings(profileId)?.device);
+}
+
+// The active profile's backend
+export function getBackend(): Promise<StorageBackend> {
+  if (!backendPromise) backendPromise = openBackend(getActiveProfileId());
+  return backendPromise;
+}
+
+// Runs `task` against any profile's data. Backends of inactive profiles are
+// closed afterwards so the profile can still be deleted.
+export async function withProfileBackend<T>(profileId: string, task: (backend: StorageBackend) => Promise<T>) {
+  if (profileId === getActiveProfileId()) return task(await getBackend());
+  // Opening a deleted profile would silently recreate its database
+  if (!profileExists(profileId)) throw new Error('Profile no longer exists');
+  // Only the active profile can be unlocked
+  if (getEncryptionSettings(profileId)) {
+    const name = getProfiles().find(profile => profile.id === profileId)?.name;
+    throw new Error(`${name}'s data is encrypted. Switch to that profile to use it.`);
+  }
+  const backend = await openBackend(profileId);
+  try {
+    return await task(backend);
+  } finally {
+    backend.close();
+  }
+}
+
+// Writes every record of the active profile again under new keys, or in
+// plain text when `keys` is null. If any write fails, the data is put back
+// under the old keys and the settings are left unchanged.
+async function rewriteStorage(keys: EncryptionKeys | null, settings: EncryptionSettings | null) {
+  const current = await getBackend();
+  const snapshot = await takeSnapshot(current);
+  const stored = await openStorageBackend(getActiveProfileId());
+  try {
+    await restoreSnapshot(keys ? createEncryptedBackend(stored, keys) : stored, snapshot);
+  } catch (error) {
+    await restoreSnapshot(current, snapshot);
+    throw error;
+  } finally {
+    stored.close();
+  }
+  saveEncryptionSettings(settings);
+  unlockedKeys = keys;
+  current.close();
+  backendPromise = null;
+}
+
+export async function enableEncryption(passphrase: string, autoLockMinutes?: number) {
+  if (getEncryptionSettings()) return;
+  const { settings, keys } = await createEncryptionSettings(passphrase, autoLockMinutes);
+  await rewriteStorage(keys, settings);
+}
+
+// Each of these throws PassphraseError when `passphrase` is wrong
+export async function changePassphrase(passphrase: string, newPassphrase: string) {
+  const current = getEncryptionSettings();
+  if (!current) return;
+  await unlockKeys(passphrase, current);
+  const { settings, keys } = await createEncryptionSettings(newPassphrase, current.autoLockMinutes);
+  await rewriteStorage(keys, settings);
+}
+
+export async function disableEncryption(passphrase: string) {
+  const current = getEncryptionSettings();
+  if (!current) return;
+  await unlockKeys(passphrase, current);
+  await rewriteStorage(null, null);
+}
+
+export function setAutoLockMinutes(minutes: number) {
+  const settings = getEncryptionSettings();
+  if (settings) saveEncryptionSettings({ ...settings, autoLockMinutes: minutes });
+}
+
+// Pages load their data on mount, so switching reloads the current page
+export function switchProfile(profileId: string) {
+  // Not awaited: while locked the backend never opens
+  backendPromise?.then(backend => backend.close());
+  backendPromise = null;
+  setActiveProfileId(profileId);
+  window.location.reload();
+}
+
+// Removes a profile and all of its data. The active and default profiles
+// cannot be deleted.
+export async function deleteProfile(profileId: string) {
+  if (profileId === getActiveProfileId() || profileId === DEFAULT_PROFILE_ID) return;
+  removeProfile(profileId);
+  Object.values(profileStorageKeys(profileId)).forEach(key => localStorage.removeItem(key));
+  if (typeof indexedDB !== 'undefined') {
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(profileDatabaseName(profileId));
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Copies remedies, with their schedules, into another profile. Their
+// feedback and history stay behind. Remedies copied before are skipped so
+// edits made in the other profile are kept.
+export async function copyRemediesToProfile(remedyIds: string[], profileId: string) {
+  const remedies = (await getRemedies()).filter(remedy => remedyIds.includes(remedy.id));
+  return withProfileBackend(profileId, async backend => {
+    const target = backend.repository('remedies');
+    const existing = new Set((await target.list()).map(remedy => remedy.id));
+    const copies = remedies.filter(remedy => !existing.has(remedy.id));
+    await target.putMany(copies.map(({ legacyFeedback, ...remedy }) => remedy));
+    return { copied: copies.length, skipped: remedies.length - copies.length };
+  });
+}
+
+export async function getRepository<K extends CollectionName>(collection: K) {
+  return (await getBackend()).repository(collection);
+}
+
+// Symptoms are stored under their canonical names
+async function withCanonicalSymptoms(entries: NutritionEntry[]) {
+  const vocabulary = await getSymptomVocabulary();
+  return entries.map(entry => ({ ...entry, symptoms: normalizeSymptoms(entry.symptoms, vocabulary) }));
+}
+
+export async function saveNutritionEntry(entry: NutritionEntry) {
+  const [stored] = await withCanonicalSymptoms([entry]);
+  await (await getRepository('nutrition')).put(stored);
+  await syncNutritionInputs(entry.date);
+}
+
+export async function saveNutritionEntries(entries: NutritionEntry[]) {
+  await (await getRepository('nutrition')).putMany(await withCanonicalSymptoms(entries));
+  // One entry per day is enough to find that day's meals
+  const days = new Map(entries.map(entry => [toDateKey(entry.date), entry.date]));
+  for (const entryDate of Array.from(days.values())) await syncNutritionInputs(entryDate);
+}
+
+export async function updateNutritionEntry(entry: NutritionEntry) {
+  const [stored] = await withCanonicalSymptoms([entry]);
+  const repository = await getRepository('nutrition');
+  const previous = await repository.get(entry.id);
+  await repository.put(stored);
+  await syncNutritionInputs(entry.date);
+  // Moved to another day, which now has one meal fewer
+  if (previous && toDateKey(previous.date) !== toDateKey(entry.date)) await syncNutritionInputs(previous.date);
+}
+
+export async function deleteNutritionEntry(id: string) {
+  const repository = await getRepository('nutrition');
+  const entry = await repository.get(id);
+  await repository.delete(id);
+  if (entry) await syncNutritionInputs(entry.date);
+}
+
+export async function getNutritionEntries(from?: string, to?: string): Promise<NutritionEntry[]> {
   if (typeof window === 'undefined') return [];
-  const data = localStorage.getItem(storageKeys.nutrition);
-  return data ? JSON.parse(data) : [];
+  return (await getRepository('nutrition')).range('date', from, to);
 }
 
-export function saveExerciseEntry(entry: ExerciseEntry) {
-  const entries = getExerciseEntries();
-  entries.push(entry);
-  localStorage.setItem(storageKeys.exercise, JSON.stringify(entries));
+export async function saveExerciseEntry(entry: ExerciseEntry) {
+  await (await getRepository('exercise')).put(entry);
+  await syncExerciseInput(entry.date);
 }
 
-export function getExerciseEntries(): ExerciseEntry[] {
+export async function saveExerciseEntries(entries: ExerciseEntry[]) {
+  await (await getRepository('exercise')).putMany(entries);
+  await markExerciseDays(entries);
+}
+
+export async function updateExerciseEntry(entry: ExerciseEntry) {
+  const repository = await getRepository('exercise');
+  const previous = await repository.get(entry.id);
+  await repository.put(entry);
+  await syncExerciseInput(entry.date);
+  if (previous && toDateKey(previous.date) !== toDateKey(entry.date)) await syncExerciseInput(previous.date);
+}
+
+export async function deleteExerciseEntry(id: string) {
+  const repository = await getRepository('exercise');
+  const entry = await repository.get(id);
+  await repository.delete(id);
+  if (entry) await syncExerciseInput(entry.date);
+}
+
+export async function getExerciseEntries(from?: string, to?: string): Promise<ExerciseEntry[]> {
+  if (typeof window === 'undefined') return [];
+  return (await getRepository('exercise')).range('date', from, to);
+}
+
+// Local calendar date of a timestamp, e.g. "2024-03-01"
+export function toDateKey(date: string | Date) {
+  return format(typeof date === 'string' ? new Date(date) : date, 'yyyy-MM-dd');
+}
+
+function dayRange(date: string): [string, string] {
+  const day = parseISO(date);
+  return [startOfDay(day).toISOString(), endOfDay(day).toISOString()];
+}
+
+function defaultDailyLog(date: string): DailyLog {
+  return { id: date, date, sleep: 7, stress: 5, caffeine: false, exercise: false, updatedAt: new Date().toISOString() };
+}
+
+// Sleep and stress come from the latest meal logged that day
+function nutritionInputs(entries: NutritionEntry[]): Partial<DailyLog> {
+  const latest = entries.reduce<NutritionEntry | null>((a, b) => (!a || b.date >= a.date ? b : a), null);
+  if (!latest) return {};
+  return { sleep: latest.sleep, stress: latest.stress, caffeine: entries.some(entry => entry.caffeine) };
+}
+
+export async function getDailyLog(date: string): Promise<DailyLog | undefined> {
+  if (typeof window === 'undefined') return undefined;
+  return (await getRepository('dailyLogs')).get(date);
+}
+
+export async function getDailyLogs(from?: string, to?: string): Promise<DailyLog[]> {
+  if (typeof window === 'undefined') return [];
+  return (await getRepository('dailyLogs')).range('date', from, to);
+}
+
+// A new check-in for `date`, prefilled with measured sleep when there is some
+export async function draftDailyLog(date: string): Promise<DailyLog> {
+  const draft = defaultDailyLog(date);
+  const measured = await (await getRepository('sleep')).get(date);
+  return measured ? { ...draft, sleep: measured.hours } : draft;
+}
+
+// What predictions and the check-in form start from for `date`: the saved
+// check-in, or else the draft with the day's logged caffeine and exercise
+export async function dailyInputs(date: string): Promise<DailyLog> {
+  const log = await getDailyLog(date);
+  if (log?.checkedInAt) return log;
+  const draft = await draftDailyLog(date);
+  return log ? { ...log, sleep: draft.sleep, stress: draft.stress } : draft;
+}
+
+// Saves the user's own check-in for the day
+export async function checkIn(log: DailyLog): Promise<DailyLog> {
+  return saveDailyLog({ ...log, checkedInAt: new Date().toISOString() });
+}
+
+export async function saveDailyLog(log: DailyLog): Promise<DailyLog> {
+  const stored = { ...log, id: log.date, updatedAt: new Date().toISOString() };
+  await (await getRepository('dailyLogs')).put(stored);
+  return stored;
+}
+
+async function updateDailyLog(date: string, changes: Partial<DailyLog>) {
+  const log = (await getDailyLog(date)) ?? (await draftDailyLog(date));
+  await saveDailyLog({ ...log, ...changes });
+}
+
+// Keep the day's check-in in step after one of its meals was logged, edited
+// or deleted. Once the last meal is gone its inputs go back to the draft's.
+// A saved check-in keeps the sleep and stress the user entered.
+async function syncNutritionInputs(entryDate: string) {
+  const date = toDateKey(entryDate);
+  const entries = await getNutritionEntries(...dayRange(date));
+  const log = await getDailyLog(date);
+  if (entries.length === 0 && !log) return;
+  let inputs = nutritionInputs(entries);
+  if (entries.length === 0) {
+    const { sleep, stress } = await draftDailyLog(date);
+    inputs = { sleep, stress, caffeine: false };
+  }
+  await updateDailyLog(date, log?.checkedInAt ? { caffeine: inputs.caffeine } : inputs);
+}
+
+async function syncExerciseInput(entryDate: string) {
+  const date = toDateKey(entryDate);
+  const workouts = await getExerciseEntries(...dayRange(date));
+  await updateDailyLog(date, { exercise: workouts.length > 0 });
+}
+
+async function markExerciseDays(entries: ExerciseEntry[]) {
+  const dates = new Set(entries.map(entry => toDateKey(entry.date)));
+  for (const date of Array.from(dates)) await updateDailyLog(date, { exercise: true });
+}
+
+export async function getSymptomSynonyms(): Promise<SymptomSynonym[]> {
+  if (typeof window === 'undefined') return [];
+  return (await getRepository('symptomSynonyms')).list();
+}
+
+export async function getSymptomVocabulary(): Promise<SymptomVocabulary> {
+  return createVocabulary(await getSymptomSynonyms());
+}
+
+// Adds a user synonym and re-files existing entries that used it.
+// Returns how many entries changed.
+export async function addSymptomSynonym(synonym: string, symptom: string) {
+  const id = synonym.trim().toLowerCase();
+  await (await getRepository('symptomSynonyms')).put({ id, synonym: synonym.trim(), symptom });
+
+  const repository = await getRepository('nutrition');
+  const entries = await repository.list();
+  const updated = (await withCanonicalSymptoms(entries))
+    .filter((entry, i) => entry.symptoms.join('\n') !== entries[i].symptoms.join('\n'));
+  await repository.putMany(updated);
+  return updated.length;
+}
+
+export async function deleteSymptomSynonym(id: string) {
+  await (await getRepository('symptomSynonyms')).delete(id);
+}
+
+// Built-in conditions followed by the user's own, with any edited rules applied
+export async function getConditions(): Promise<ConditionDefinition[]> {
+  if (typeof window === 'undefined') return builtinConditions;
+  const custom = await (await getRepository('conditions')).list();
+  const ruleSets = await getRuleSets();
+  return [...builtinConditions, ...custom].map(condition => {
+    const ruleSet = ruleSets.find(r => r.id === condition.id);
+    if (!ruleSet) return condition;
+    const { rules, errors } = parseRules(ruleSet.source);
+    return errors.length === 0 ? { ...condition, rules } : condition;
+  });
+}
+
+export async function saveCondition(condition: ConditionDefinition) {
+  await (await getRepository('conditions')).put({
+    ...condition,
+    symptoms: normalizeSymptoms(condition.symptoms, builtinVocabulary),
+    builtin: false,
+  });
+}
+
+export async function deleteCondition(id: string) {
+  await (await getRepository('conditions')).delete(id);
+  await deleteRuleSet(id);
+}
+
+export async function getRuleSets(): Promise<RuleSet[]> {
   if (typeof window === 'undefined') return [];
-  const data = localStorage.getItem(storageKeys.exercise);
-  return data ? JSON.parse(data) : [];
+  return (await getRepository('ruleSets')).list();
+}
+
+// Throws the first RuleSyntaxError when `source` does not parse
+export async function saveRuleSet(conditionId: string, source: string) {
+  const { errors } = parseRules(source);
+  if (errors.length > 0) throw errors[0];
+  await (await getRepository('ruleSets')).put({ id: conditionId, source, updatedAt: new Date().toISOString() });
 }
 
-export function saveRemedy(remedy: Remedy) {
-  const remedies = getRemedies();
-  const index = remedies.findIndex(r => r.id === remedy.id);
-  if (index >= 0) {
-    remedies[index] = remedy;
-  } else {
-    remedies.push(remedy);
+// Restores the condition's default rules
+export async function deleteRuleSet(conditionId: string) {
+  await (await getRepository('ruleSets')).delete(conditionId);
+}
+
+// Measured sleep also replaces the placeholder on days not checked in yet
+export async function saveSleepRecords(records: SleepRecord[]) {
+  await (await getRepository('sleep')).putMany(records);
+  const logs = await getRepository('dailyLogs');
+  const updatedAt = new Date().toISOString();
+  const updated: DailyLog[] = [];
+  for (const record of records) {
+    const log = await logs.get(record.date);
+    if (log && !log.checkedInAt && log.sleep !== record.hours) updated.push({ ...log, sleep: record.hours, updatedAt });
   }
-  localStorage.setItem(storageKeys.remedies, JSON.stringify(remedies));
+  await logs.putMany(updated);
 }
 
-export function getRemedies(): Remedy[] {
+export async function getSleepRecords(from?: string, to?: string): Promise<SleepRecord[]> {
   if (typeof window === 'undefined') return [];
-  const data = localStorage.getItem(storageKeys.remedies);
-  return data ? JSON.parse(data) : [];
-}
-
-export function updateRemedyEffectiveness(id: string, effective: boolean) {
-  const remedies = getRemedies();
-  const remedy = remedies.find(r => r.id === id);
-  if (remedy) {
-    remedy.usageCount++;
-    if (effective) {
-      remedy.effectiveness = Math.min(100, remedy.effectiveness + 5);
-    } else {
-      remedy.effectiveness = Math.max(0, remedy.effectiveness - 5);
-    }
-    saveRemedy(remedy);
+  return (await getRepository('sleep')).range('date', from, to);
+}
+
+export async function saveRemedy(remedy: Remedy) {
+  await (await getRepository('remedies')).put(remedy);
+}
+
+export async function getRemedies(): Promise<Remedy[]> {
+  if (typeof window === 'undefined') return [];
+  return (await getRepository('remedies')).list();
+}
+
+export async function recordRemedyOutcome(remedyId: string, helped: boolean) {
+  await (await getRepository('remedyOutcomes')).put({
+    id: `${remedyId}-${Date.now()}`,
+    remedyId,
+    helped,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export async function saveRemedyOutcomes(outcomes: RemedyOutcome[]) {
+  await (await getRepository('remedyOutcomes')).putMany(outcomes);
+}
+
+export async function saveRemedyUsage(usage: RemedyUsage) {
+  await (await getRepository('remedyUsages')).put(usage);
+}
+
+export async function saveRemedyUsages(usages: RemedyUsage[]) {
+  await (await getRepository('remedyUsages')).putMany(usages);
+}
+
+export async function getRemedyUsages(remedyId?: string): Promise<RemedyUsage[]> {
+  if (typeof window === 'undefined') return [];
+  const repository = await getRepository('remedyUsages');
+  return remedyId ? repository.range('remedyId', remedyId, remedyId) : repository.range('timestamp');
+}
+
+export async function recordFollowUp(usageId: string, severityAfter: number) {
+  const repository = await getRepository('remedyUsages');
+  const usage = await repository.get(usageId);
+  if (usage) {
+    await repository.put({ ...usage, severityAfter, followUpAt: new Date().toISOString() });
   }
 }
+
+export async function deleteRemedyUsage(id: string) {
+  await (await getRepository('remedyUsages')).delete(id);
+}
+
+export async function getDoseRecords(from?: string, to?: string): Promise<DoseRecord[]> {
+  if (typeof window === 'undefined') return [];
+  return (await getRepository('doses')).range('dueAt', from, to);
+}
+
+// Reminders name the profile they were shown for, which may no longer be active
+export async function recordDose(remedyId: string, dueAt: Date, status: DoseStatus, profileId = getActiveProfileId()) {
+  if (!profileExists(profileId)) return;
+  await withProfileBackend(profileId, backend =>
+    backend.repository('doses').put({
+      id: doseId(remedyId, dueAt),
+      remedyId,
+      dueAt: dueAt.toISOString(),
+      status,
+      recordedAt: new Date().toISOString(),
+    })
+  );
+}
+
+export async function getExperiments(): Promise<Experiment[]> {
+  if (typeof window === 'undefined') return [];
+  const experiments = await (await getRepository('experiments')).list();
+  return experiments.sort((a, b) => b.startDate.localeCompare(a.startDate));
+}
+
+export async function saveExperiment(experiment: Experiment) {
+  await (await getRepository('experiments')).put(experiment);
+}
+
+export async function deleteExperiment(id: string) {
+  await (await getRepository('experiments')).delete(id);
+}
+
+export async function getSuggestionDismissals(): Promise<SuggestionDismissal[]> {
+  if (typeof window === 'undefined') return [];
+  return (await getRepository('suggestionDismissals')).list();
+}
+
+export async function getRecommendationData(): Promise<RecommendationData> {
+  return {
+    remedies: await getRemedies(),
+    outcomes: await getRemedyOutcomes(),
+    usages: await getRemedyUsages(),
+    dismissals: await getSuggestionDismissals(),
+  };
+}
+
+// Hides a remedy suggestion for a condition, until `until` when snoozing
+export async function dismissSuggestion(remedyId: string, condition: string, until?: Date) {
+  await (await getRepository('suggestionDismissals')).put({
+    id: dismissalId(remedyId, condition),
+    remedyId,
+    condition,
+    ...(until && { until: until.toISOString() }),
+    createdAt: new Date().toISOString(),
+  });
+}
+
+// Suggests the remedy for the condition again, undoing a dismissal or snooze
+export async function restoreSuggestion(remedyId: string, condition: string) {
+  await (await getRepository('suggestionDismissals')).delete(dismissalId(remedyId, condition));
+}
+
+export async function getRemedyOutcomes(remedyId?: string): Promise<RemedyOutcome[]> {
+  if (typeof window === 'undefined') return [];
+  const repository = await getRepository('remedyOutcomes');
+  return remedyId ? repository.range('remedyId', remedyId, remedyId) : repository.range('timestamp');
+}
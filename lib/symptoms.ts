@@ -0,0 +1,90 @@
+// Symptom vocabulary: canonical symptom names, the words people use for them,
+// and which built-in conditions each one counts toward. Symptoms are stored
+// under their canonical name so analyses can map them to conditions directly.
+
+export interface CanonicalSymptom {
+  name: string;
+  synonyms: string[];
+  conditions: string[];
+}
+
+export const canonicalSymptoms: CanonicalSymptom[] = [
+  { name: 'reflux', synonyms: ['acid reflux', 'heartburn', 'gerd', 'regurgitation', 'indigestion'], conditions: ['Acid Reflux'] },
+  { name: 'chest burning', synonyms: ['burning chest'], conditions: ['Acid Reflux'] },
+  { name: 'sore throat', synonyms: ['hoarseness', 'throat burning'], conditions: ['Acid Reflux'] },
+  { name: 'headache', synonyms: ['head ache', 'head pain', 'tension headache'], conditions: ['Migraine'] },
+  { name: 'migraine', synonyms: ['aura', 'migraine attack'], conditions: ['Migraine'] },
+  { name: 'light sensitivity', synonyms: ['photophobia', 'sensitive to light'], conditions: ['Migraine'] },
+  { name: 'nausea', synonyms: ['nauseous', 'queasy', 'sick to stomach'], conditions: ['Migraine', 'Acid Reflux', 'IBS Symptoms'] },
+  { name: 'bloating', synonyms: ['bloat', 'bloated', 'gas', 'gassy', 'distension'], conditions: ['IBS Symptoms'] },
+  { name: 'cramps', synonyms: ['cramp', 'cramping', 'stomach cramps', 'abdominal pain', 'stomach ache', 'stomachache'], conditions: ['IBS Symptoms'] },
+  { name: 'diarrhea', synonyms: ['diarrhoea', 'loose stools'], conditions: ['IBS Symptoms'] },
+  { name: 'constipation', synonyms: ['constipated'], conditions: ['IBS Symptoms'] },
+  { name: 'rash', synonyms: ['hives', 'redness', 'itching', 'itchy skin', 'skin irritation'], conditions: ['Skin Flare-ups'] },
+  { name: 'acne', synonyms: ['breakout', 'pimples'], conditions: ['Skin Flare-ups'] },
+  { name: 'eczema', synonyms: ['dermatitis', 'dry patches'], conditions: ['Skin Flare-ups'] },
+  { name: 'fatigue', synonyms: ['tired', 'tiredness', 'exhaustion', 'low energy'], conditions: [] },
+];
+
+// A user-added word for a canonical symptom. The id is the lowercased synonym.
+export interface SymptomSynonym {
+  id: string;
+  synonym: string;
+  symptom: string;
+}
+
+export interface SymptomVocabulary {
+  // Canonical name for free text, or the cleaned text when nothing matches
+  normalize(text: string): string;
+  isKnown(symptom: string): boolean;
+  conditionsFor(symptom: string): string[];
+  // Canonical names and synonyms starting with (then containing) the query
+  suggest(query: string, limit?: number): string[];
+}
+
+const clean = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export function createVocabulary(userSynonyms: SymptomSynonym[] = []): SymptomVocabulary {
+  const byName = new Map(canonicalSymptoms.map(s => [s.name, s]));
+  const terms = new Map<string, string>();
+  canonicalSymptoms.forEach(s => {
+    terms.set(s.name, s.name);
+    s.synonyms.forEach(synonym => terms.set(synonym, s.name));
+  });
+  userSynonyms.forEach(({ synonym, symptom }) => {
+    if (byName.has(symptom)) terms.set(clean(synonym), symptom);
+  });
+  // Longest first so "stomach cramps" wins over "cramps" inside a longer phrase
+  const patterns = Array.from(terms.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(term => ({ term, pattern: new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:e?s)?\\b`) }));
+
+  const normalize = (text: string) => {
+    const cleaned = clean(text);
+    if (terms.has(cleaned)) return terms.get(cleaned)!;
+    // "mild heartburn after dinner" -> reflux
+    const contained = patterns.find(({ pattern }) => pattern.test(cleaned));
+    return contained ? terms.get(contained.term)! : cleaned;
+  };
+
+  return {
+    normalize,
+    isKnown: symptom => byName.has(normalize(symptom)),
+    conditionsFor: symptom => byName.get(normalize(symptom))?.conditions ?? [],
+    suggest(query, limit = 8) {
+      const q = clean(query);
+      if (!q) return [];
+      const all = Array.from(terms.keys());
+      const starts = all.filter(term => term.startsWith(q));
+      const contains = all.filter(term => !term.startsWith(q) && term.includes(q));
+      return [...starts.sort(), ...contains.sort()].slice(0, limit);
+    },
+  };
+}
+
+export const builtinVocabulary = createVocabulary();
+
+// Canonical, de-duplicated, without blanks
+export function normalizeSymptoms(symptoms: string[], vocabulary: SymptomVocabulary = builtinVocabulary) {
+  return Array.from(new Set(symptoms.filter(s => s.trim()).map(vocabulary.normalize)));
+}
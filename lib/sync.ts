@@ -0,0 +1,286 @@
+import { dataCollectionNames, type CollectionName, type Repository, type StorageBackend } from './repository';
+import type { StoredRecord } from './migrations';
+import { getBackend, getEncryptionSettings, getSyncSettings, profileStorageKeys } from './storage';
+import { getActiveProfileId } from './profiles';
+import {
+  changeKey,
+  isNewer,
+  PUSH_BATCH_SIZE,
+  type PullResponse,
+  type PushResponse,
+  type SyncChange,
+} from './syncProtocol';
+import { fingerprint, withoutTracking } from './syncTracking';
+import { recordProblem } from './recordValidation';
+
+// Offline-first replication with the /api/sync route. The app keeps reading
+// and writing local storage only, and the storage backend stamps each edit
+// and deletion as it is written (see syncTracking.ts). A sync pulls what
+// other devices changed since the checkpoint, then pushes the rest.
+// Conflicts go to the last writer.
+
+// What this device last knew about one record, keyed "collection/id"
+export interface SyncRecord {
+  id: string;
+  collection: CollectionName;
+  recordId: string;
+  revision: number;
+  updatedAt: string;
+  device: string;
+  deleted: boolean;
+  // Fingerprint of the record as stored, to notice local edits
+  hash: string;
+  // Changed here and not yet accepted by the server
+  pending: boolean;
+}
+
+export interface SyncSettings {
+  // Shared by every device syncing this profile
+  space: string;
+  device: string;
+  // Only needed when the server sets SYNC_TOKEN
+  token: string;
+  checkpoint: number;
+  // The server stores records readable, so an encrypted profile only syncs
+  // once the user has agreed to that
+  allowPlaintext?: boolean;
+  lastSyncedAt?: string;
+  lastError?: string;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  // Local edits that lost to a newer edit from another device
+  conflicts: number;
+  // Received records that were malformed and left out
+  invalid: number;
+}
+
+// Fired on window after every sync attempt
+export const SYNC_COMPLETED_EVENT = 'sync-completed';
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+// Records that existed before this device first synced are stamped with the
+// oldest time, so the copy already in the space wins when a device joins
+const BEFORE_SYNC = new Date(0).toISOString();
+
+function randomCode(length: number) {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from(crypto.getRandomValues(new Uint8Array(length)), byte => alphabet[byte % alphabet.length]).join('');
+}
+
+export const createSyncCode = () => randomCode(24);
+
+function saveSyncSettings(settings: SyncSettings | null) {
+  const key = profileStorageKeys(getActiveProfileId()).sync;
+  if (settings) localStorage.setItem(key, JSON.stringify(settings));
+  else localStorage.removeItem(key);
+}
+
+// Skipped if sync was turned off or moved to another space meanwhile
+function updateSyncSettings(settings: SyncSettings, update: Partial<SyncSettings>) {
+  if (getSyncSettings()?.space === settings.space) saveSyncSettings({ ...settings, ...update });
+}
+
+// Starts syncing the active profile with a space. What this device knew
+// about any earlier space is forgotten, so all local records are offered.
+export async function connectSync(space: string, token = '', allowPlaintext = false) {
+  await (await getBackend()).repository('syncRecords').clear();
+  saveSyncSettings({ space: space.trim(), device: randomCode(12), token: token.trim(), checkpoint: 0, allowPlaintext });
+}
+
+// For a profile that was encrypted after sync was turned on
+export function allowPlaintextSync() {
+  const settings = getSyncSettings();
+  if (settings) saveSyncSettings({ ...settings, allowPlaintext: true });
+}
+
+export async function disconnectSync() {
+  await (await getBackend()).repository('syncRecords').clear();
+  saveSyncSettings(null);
+}
+
+const rawRepository = (backend: StorageBackend, name: CollectionName) =>
+  backend.repository(name) as unknown as Repository<StoredRecord>;
+
+// Offers records that have no sync state yet, which are those from before
+// the first sync, and catches writes that bypassed tracking. Returns every
+// current record by key.
+async function detectLocalChanges(
+  backend: StorageBackend,
+  known: Map<string, SyncRecord>,
+  settings: SyncSettings,
+  now = new Date()
+) {
+  const firstSync = settings.lastSyncedAt === undefined;
+  const changed: SyncRecord[] = [];
+  const current = new Map<string, StoredRecord>();
+  const next = (previous: SyncRecord | undefined, update: Partial<SyncRecord>): SyncRecord => ({
+    ...(previous as SyncRecord),
+    ...update,
+    revision: (previous?.revision ?? 0) + 1,
+    device: settings.device,
+    pending: true,
+  });
+
+  for (const collection of dataCollectionNames) {
+    for (const record of await rawRepository(backend, collection).list()) {
+      const key = changeKey({ collection, id: record.id });
+      const previous = known.get(key);
+      const hash = fingerprint(record);
+      current.set(key, record);
+      if (previous && !previous.deleted && previous.hash === hash) continue;
+      changed.push(next(previous, {
+        id: key,
+        collection,
+        recordId: record.id,
+        updatedAt: !previous && firstSync ? BEFORE_SYNC : now.toISOString(),
+        deleted: false,
+        hash,
+      }));
+    }
+  }
+  known.forEach((previous, key) => {
+    if (!current.has(key) && !previous.deleted) {
+      changed.push(next(previous, { updatedAt: now.toISOString(), deleted: true, hash: '' }));
+    }
+  });
+
+  await backend.repository('syncRecords').putMany(changed);
+  changed.forEach(record => known.set(record.id, record));
+  return current;
+}
+
+// Writes changes from the server that are newer than what this device has
+async function applyRemoteChanges(backend: StorageBackend, known: Map<string, SyncRecord>, changes: SyncChange[]) {
+  // Another device's bug should not end up in this device's storage
+  const valid = changes.filter(change => change.deleted || !recordProblem(change.collection, change.data!));
+  const applied = valid.filter(change => {
+    const local = known.get(changeKey(change));
+    const unsyncedOriginal = local?.pending && local.updatedAt === BEFORE_SYNC;
+    return !local || unsyncedOriginal || isNewer(change, local);
+  });
+
+  for (const collection of dataCollectionNames) {
+    const repository = rawRepository(backend, collection);
+    const mine = applied.filter(change => change.collection === collection);
+    await repository.putMany(mine.filter(change => !change.deleted).map(change => change.data!));
+    for (const change of mine.filter(change => change.deleted)) {
+      await repository.delete(change.id);
+    }
+  }
+
+  const records = applied.map(change => ({
+    id: changeKey(change),
+    collection: change.collection,
+    recordId: change.id,
+    revision: change.revision,
+    updatedAt: change.updatedAt,
+    device: change.device,
+    deleted: change.deleted,
+    hash: change.deleted ? '' : fingerprint(change.data!),
+    pending: false,
+  }));
+  await backend.repository('syncRecords').putMany(records);
+  records.forEach(record => known.set(record.id, record));
+  return { applied: applied.length, invalid: changes.length - valid.length };
+}
+
+async function request<T>(settings: SyncSettings, query: string, body?: unknown): Promise<T> {
+  const response = await fetch(`/api/sync/${encodeURIComponent(settings.space)}${query}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new SyncError(data?.error ?? `Sync server returned ${response.status}`);
+  return data;
+}
+
+async function runSync(settings: SyncSettings): Promise<SyncResult> {
+  if (getEncryptionSettings() && !settings.allowPlaintext) {
+    throw new SyncError('This profile is encrypted. Allow readable copies on the server to keep syncing it.');
+  }
+  // Changes from other devices are written as they are, without new stamps
+  const backend = withoutTracking(await getBackend());
+  const syncRecords = backend.repository('syncRecords');
+  const known = new Map((await syncRecords.list()).map(record => [record.id, record]));
+  const current = await detectLocalChanges(backend, known, settings);
+
+  let pulled = 0;
+  let invalid = 0;
+  let checkpoint = settings.checkpoint;
+  for (let hasMore = true; hasMore; ) {
+    const page = await request<PullResponse>(settings, `?since=${checkpoint}`);
+    const result = await applyRemoteChanges(backend, known, page.changes);
+    pulled += result.applied;
+    invalid += result.invalid;
+    checkpoint = page.checkpoint;
+    hasMore = page.hasMore;
+  }
+
+  // Edits that lost to a pulled change are no longer pending
+  const pending = Array.from(known.values()).filter(record => record.pending);
+  let pushed = 0;
+  let conflicts = 0;
+  for (let i = 0; i < pending.length; i += PUSH_BATCH_SIZE) {
+    const batch = pending.slice(i, i + PUSH_BATCH_SIZE);
+    const result = await request<PushResponse>(settings, '', {
+      since: checkpoint,
+      changes: batch.map(record => ({
+        collection: record.collection,
+        id: record.recordId,
+        revision: record.revision,
+        updatedAt: record.updatedAt,
+        device: record.device,
+        deleted: record.deleted,
+        data: record.deleted ? undefined : current.get(record.id),
+      })),
+    });
+    pushed += result.accepted;
+    checkpoint = result.checkpoint;
+    conflicts += result.rejected.length;
+    // Records edited again during the request stay pending
+    const latest = await Promise.all(batch.map(record => syncRecords.get(record.id)));
+    const sent = batch
+      .filter((record, i) => latest[i]?.revision === record.revision)
+      .map(record => ({ ...record, pending: false }));
+    await syncRecords.putMany(sent);
+    sent.forEach(record => known.set(record.id, record));
+    // Rejected edits are replaced by the newer copy from the server
+    await applyRemoteChanges(backend, known, result.rejected);
+  }
+
+  updateSyncSettings(settings, { checkpoint, lastSyncedAt: new Date().toISOString(), lastError: undefined });
+  return { pushed, pulled, conflicts, invalid };
+}
+
+let running: Promise<SyncResult> | null = null;
+
+// One sync at a time; a call during a sync waits for it
+export function syncNow(): Promise<SyncResult> {
+  const settings = getSyncSettings();
+  if (!settings) return Promise.resolve({ pushed: 0, pulled: 0, conflicts: 0, invalid: 0 });
+  if (!running) {
+    running = runSync(settings)
+      .catch(error => {
+        updateSyncSettings(settings, { lastError: (error as Error).message });
+        throw error;
+      })
+      .finally(() => {
+        running = null;
+        window.dispatchEvent(new Event(SYNC_COMPLETED_EVENT));
+      });
+  }
+  return running;
+}
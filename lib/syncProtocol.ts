@@ -0,0 +1,76 @@
+import { dataCollectionNames, type CollectionName } from './repository';
+
+// Shapes exchanged between the sync engine and the /api/sync route. A sync
+// space holds one person's records; every device that knows its code reads
+// and writes the same space.
+
+// One record's latest state. Deleted records are kept as tombstones, without
+// data, so deletions reach devices that were offline when they happened.
+export interface SyncChange {
+  collection: CollectionName;
+  id: string;
+  // Counts the edits made to this record, on any device
+  revision: number;
+  updatedAt: string; // ISO
+  // Device that made the edit; breaks ties between identical timestamps
+  device: string;
+  deleted: boolean;
+  data?: { id: string; [field: string]: unknown };
+}
+
+export interface PushRequest {
+  // The client's checkpoint when it pushes
+  since: number;
+  changes: SyncChange[];
+}
+
+export interface PushResponse {
+  accepted: number;
+  // The server's copy of each record whose pushed change lost
+  rejected: SyncChange[];
+  // Moves past the pushed changes when nothing else arrived after `since`,
+  // so the client does not pull its own changes back; otherwise `since`
+  checkpoint: number;
+}
+
+export interface PullResponse {
+  changes: SyncChange[];
+  // Pass back as `since` to fetch the next changes
+  checkpoint: number;
+  hasMore: boolean;
+}
+
+export const SPACE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+export const PUSH_BATCH_SIZE = 200;
+export const PULL_LIMIT = 500;
+
+export const changeKey = (change: { collection: string; id: string }) => `${change.collection}/${change.id}`;
+
+// Last writer wins: the later edit, then the higher revision, then the
+// device id so every device picks the same winner
+export function isNewer(a: SyncChange, b: Pick<SyncChange, 'updatedAt' | 'revision' | 'device'>) {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt > b.updatedAt;
+  if (a.revision !== b.revision) return a.revision > b.revision;
+  return a.device > b.device;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks a change received over the network
+export function isValidChange(value: unknown): value is SyncChange {
+  return (
+    isObject(value) &&
+    dataCollectionNames.includes(value.collection as CollectionName) &&
+    typeof value.id === 'string' &&
+    value.id !== '' &&
+    typeof value.revision === 'number' &&
+    Number.isInteger(value.revision) &&
+    value.revision > 0 &&
+    typeof value.updatedAt === 'string' &&
+    !Number.isNaN(Date.parse(value.updatedAt)) &&
+    typeof value.device === 'string' &&
+    typeof value.deleted === 'boolean' &&
+    (value.deleted || (isObject(value.data) && value.data.id === value.id))
+  );
+}
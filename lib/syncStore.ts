@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { changeKey, isNewer, PULL_LIMIT, type PullResponse, type PushResponse, type SyncChange } from './syncProtocol';
+
+// Server-side store for the sync route: one JSON file per sync space in
+// SYNC_DATA_DIR (default `.sync-data` in the working directory). Every
+// accepted change gets the next sequence number, which clients use as their
+// checkpoint. Only used by route handlers, never in the browser.
+
+interface StoredChange extends SyncChange {
+  seq: number;
+}
+
+interface SpaceFile {
+  seq: number;
+  records: Record<string, StoredChange>;
+}
+
+const dataDir = () => process.env.SYNC_DATA_DIR || path.join(process.cwd(), '.sync-data');
+
+// Callers check the space against SPACE_PATTERN, so it is safe as a file name
+const spacePath = (space: string) => path.join(dataDir(), `${space}.json`);
+
+async function readSpace(space: string): Promise<SpaceFile> {
+  try {
+    return JSON.parse(await fs.readFile(spacePath(space), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { seq: 0, records: {} };
+    throw error;
+  }
+}
+
+// Written to a temporary file first so a crash never leaves half a file
+async function writeSpace(space: string, file: SpaceFile) {
+  await fs.mkdir(dataDir(), { recursive: true });
+  const temporary = `${spacePath(space)}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(file));
+  await fs.rename(temporary, spacePath(space));
+}
+
+// Pushes to the same space run one after another
+const queues = new Map<string, Promise<unknown>>();
+
+function queued<T>(space: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(space) ?? Promise.resolve()).then(task, task);
+  queues.set(space, run.catch(() => undefined));
+  return run;
+}
+
+export function pushChanges(space: string, changes: SyncChange[], since: number): Promise<PushResponse> {
+  return queued(space, async () => {
+    const file = await readSpace(space);
+    const caughtUp = file.seq === since;
+    const rejected: SyncChange[] = [];
+    let accepted = 0;
+
+    changes.forEach(incoming => {
+      const change = { ...incoming, updatedAt: new Date(incoming.updatedAt).toISOString() };
+      if (change.deleted) delete change.data;
+      const key = changeKey(change);
+      const current = file.records[key];
+      // A retried push whose first attempt already landed
+      if (current && !isNewer(change, current) && !isNewer(current, change)) return;
+      if (current && !isNewer(change, current)) {
+        const { seq, ...winner } = current;
+        rejected.push(winner);
+        return;
+      }
+      file.seq++;
+      file.records[key] = { ...change, seq: file.seq };
+      accepted++;
+    });
+
+    if (accepted > 0) await writeSpace(space, file);
+    return { accepted, rejected, checkpoint: caughtUp ? file.seq : since };
+  });
+}
+
+export async function pullChanges(space: string, since: number): Promise<PullResponse> {
+  const file = await readSpace(space);
+  // A checkpoint ahead of the server means its data was reset; start over
+  if (since > file.seq) since = 0;
+  const newer = Object.values(file.records)
+    .filter(record => record.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  const page = newer.slice(0, PULL_LIMIT);
+  return {
+    changes: page.map(({ seq, ...change }) => change),
+    checkpoint: page.length > 0 ? page[page.length - 1].seq : file.seq,
+    hasMore: newer.length > page.length,
+  };
+}
@@ -0,0 +1,108 @@
+import { localCollectionNames, type CollectionName, type Repository, type StorageBackend } from './repository';
+import type { StoredRecord } from './migrations';
+import type { SyncRecord } from './sync';
+import { changeKey } from './syncProtocol';
+
+// Wraps a profile's backend so that, while sync is on, every write updates
+// the record's sync metadata at the moment it happens. Conflicts are then
+// settled by when a record was edited, not by when the device next synced.
+
+// 53-bit string hash (cyrb53); only needs to notice changes
+export function fingerprint(record: StoredRecord) {
+  const text = JSON.stringify(record);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+function createRepository(
+  inner: Repository<StoredRecord>,
+  syncRecords: Repository<SyncRecord>,
+  collection: CollectionName,
+  device: () => string | undefined
+): Repository<StoredRecord> {
+  // `record` is missing for deletions
+  const track = async (writes: { id: string; record?: StoredRecord }[]) => {
+    const current = device();
+    if (!current || writes.length === 0) return;
+    const updatedAt = new Date().toISOString();
+    const changed: SyncRecord[] = [];
+    for (const { id, record } of writes) {
+      const key = changeKey({ collection, id });
+      const previous = await syncRecords.get(key);
+      const hash = record ? fingerprint(record) : '';
+      // Rewriting a record unchanged is not an edit
+      if (record ? previous && !previous.deleted && previous.hash === hash : !previous || previous.deleted) continue;
+      changed.push({
+        id: key,
+        collection,
+        recordId: id,
+        revision: (previous?.revision ?? 0) + 1,
+        updatedAt,
+        device: current,
+        deleted: !record,
+        hash,
+        pending: true,
+      });
+    }
+    await syncRecords.putMany(changed);
+  };
+
+  return {
+    get: id => inner.get(id),
+    list: () => inner.list(),
+    async put(record) {
+      await inner.put(record);
+      await track([{ id: record.id, record }]);
+    },
+    async putMany(records) {
+      await inner.putMany(records);
+      await track(records.map(record => ({ id: record.id, record })));
+    },
+    async delete(id) {
+      await inner.delete(id);
+      await track([{ id }]);
+    },
+    async clear() {
+      const ids = device() ? (await inner.list()).map(record => record.id) : [];
+      await inner.clear();
+      await track(ids.map(id => ({ id })));
+    },
+    range: (field, lower, upper) => inner.range(field, lower, upper),
+  };
+}
+
+const untracked = new WeakMap<StorageBackend, StorageBackend>();
+
+// `device` returns this device's sync id, or nothing while sync is off
+export function createSyncTrackingBackend(inner: StorageBackend, device: () => string | undefined): StorageBackend {
+  const backend: StorageBackend = {
+    name: inner.name,
+    repository(collection) {
+      const repository = inner.repository(collection);
+      if (localCollectionNames.includes(collection)) return repository;
+      return createRepository(
+        repository as unknown as Repository<StoredRecord>,
+        inner.repository('syncRecords'),
+        collection,
+        device
+      ) as unknown as typeof repository;
+    },
+    close() {
+      inner.close();
+    },
+  };
+  untracked.set(backend, inner);
+  return backend;
+}
+
+// The backend under the tracking wrapper, for sync's own writes of changes
+// that came from other devices
+export const withoutTracking = (backend: StorageBackend) => untracked.get(backend) ?? backend;
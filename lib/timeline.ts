@@ -0,0 +1,79 @@
+import { parseISO } from 'date-fns';
+import type { DoseRecord } from './schedules';
+import { toDateKey, type ExerciseEntry, type NutritionEntry, type Remedy, type RemedyOutcome, type RemedyUsage } from './storage';
+
+// Every kind of logged record merged into one chronological stream
+
+export type TimelineEvent =
+  | { kind: 'meal'; id: string; time: Date; entry: NutritionEntry }
+  | { kind: 'exercise'; id: string; time: Date; entry: ExerciseEntry }
+  | { kind: 'remedy-use'; id: string; time: Date; usage: RemedyUsage; remedy?: Remedy }
+  | { kind: 'remedy-outcome'; id: string; time: Date; outcome: RemedyOutcome; remedy?: Remedy }
+  | { kind: 'dose'; id: string; time: Date; record: DoseRecord; remedy?: Remedy };
+
+export interface TimelineData {
+  nutrition: NutritionEntry[];
+  exercise: ExerciseEntry[];
+  remedies: Remedy[];
+  usages: RemedyUsage[];
+  outcomes: RemedyOutcome[];
+  doses: DoseRecord[];
+}
+
+export interface TimelineDay {
+  date: string; // yyyy-MM-dd
+  events: TimelineEvent[];
+  // Highest symptom severity logged that day, 0 when symptom-free
+  severity: number;
+}
+
+// Oldest first
+export function buildTimeline({ nutrition, exercise, remedies, usages, outcomes, doses }: TimelineData): TimelineEvent[] {
+  const remedyById = new Map(remedies.map(remedy => [remedy.id, remedy]));
+  const events: TimelineEvent[] = [
+    ...nutrition.map(entry => ({ kind: 'meal' as const, id: `meal-${entry.id}`, time: parseISO(entry.date), entry })),
+    ...exercise.map(entry => ({ kind: 'exercise' as const, id: `exercise-${entry.id}`, time: parseISO(entry.date), entry })),
+    ...usages.map(usage => ({
+      kind: 'remedy-use' as const,
+      id: `use-${usage.id}`,
+      time: parseISO(usage.timestamp),
+      usage,
+      remedy: remedyById.get(usage.remedyId),
+    })),
+    ...outcomes.map(outcome => ({
+      kind: 'remedy-outcome' as const,
+      id: `outcome-${outcome.id}`,
+      time: parseISO(outcome.timestamp),
+      outcome,
+      remedy: remedyById.get(outcome.remedyId),
+    })),
+    // Doses are placed when they were taken or skipped, not when they were due
+    ...doses.map(record => ({
+      kind: 'dose' as const,
+      id: `dose-${record.id}`,
+      time: parseISO(record.recordedAt),
+      record,
+      remedy: remedyById.get(record.remedyId),
+    })),
+  ];
+  return events.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+// Symptom severity an event reports, if any
+export function eventSeverity(event: TimelineEvent) {
+  if (event.kind === 'meal') return event.entry.symptoms.length > 0 ? event.entry.severity : 0;
+  if (event.kind === 'remedy-use') return Math.max(event.usage.severityBefore, event.usage.severityAfter ?? 0);
+  return 0;
+}
+
+export function groupByDay(events: TimelineEvent[]): Map<string, TimelineDay> {
+  const days = new Map<string, TimelineDay>();
+  events.forEach(event => {
+    const date = toDateKey(event.time);
+    const day = days.get(date) ?? { date, events: [], severity: 0 };
+    day.events.push(event);
+    day.severity = Math.max(day.severity, eventSeverity(event));
+    days.set(date, day);
+  });
+  return days;
+}
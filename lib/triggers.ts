@@ -0,0 +1,104 @@
+import { builtinConditions, hasSymptomFor, symptomCountsToward, type ConditionDefinition } from './conditions';
+import type { NutritionEntry } from './storage';
+
+// Association-rule style analysis of "food => condition" over logged meals.
+// Each nutrition entry is one transaction.
+
+export interface FoodTrigger {
+  food: string;
+  condition: string;
+  // Entries containing the food
+  occurrences: number;
+  // Entries containing the food that also reported the condition
+  matches: number;
+  // P(food and condition)
+  support: number;
+  // P(condition | food)
+  confidence: number;
+  // confidence / P(condition); above 1 means the condition is more likely after this food
+  lift: number;
+  // Symptoms reported alongside the food for this condition
+  symptoms: string[];
+  entryIds: string[];
+}
+
+export interface TriggerOptions {
+  // Foods eaten fewer times than this are ignored, so a single unlucky meal
+  // is not reported as a trigger
+  minOccurrences?: number;
+  minMatches?: number;
+  minLift?: number;
+  limit?: number;
+}
+
+export const DEFAULT_MIN_OCCURRENCES = 3;
+
+export function normalizeFood(food: string) {
+  return food.trim().toLowerCase();
+}
+
+export function foodTriggersFor(
+  condition: ConditionDefinition,
+  entries: NutritionEntry[],
+  { minOccurrences = DEFAULT_MIN_OCCURRENCES, minMatches = 2, minLift = 1.2, limit = 5 }: TriggerOptions = {}
+): FoodTrigger[] {
+  if (entries.length === 0) return [];
+
+  const withCondition = entries.filter(entry => hasSymptomFor(entry, condition));
+  const baseRate = withCondition.length / entries.length;
+  if (baseRate === 0) return [];
+
+  const byFood = new Map<string, NutritionEntry[]>();
+  entries.forEach(entry => {
+    // A food listed twice in one meal still counts once
+    new Set(entry.foods.map(normalizeFood).filter(f => f)).forEach(food => {
+      if (!byFood.has(food)) byFood.set(food, []);
+      byFood.get(food)!.push(entry);
+    });
+  });
+
+  const triggers: FoodTrigger[] = [];
+  byFood.forEach((foodEntries, food) => {
+    if (foodEntries.length < minOccurrences) return;
+    const matching = foodEntries.filter(entry => hasSymptomFor(entry, condition));
+    if (matching.length < minMatches) return;
+
+    const confidence = matching.length / foodEntries.length;
+    const lift = confidence / baseRate;
+    if (lift < minLift) return;
+
+    const symptoms = new Set<string>();
+    matching.forEach(entry => entry.symptoms.forEach(symptom => {
+      if (symptomCountsToward(symptom, condition)) symptoms.add(symptom);
+    }));
+
+    triggers.push({
+      food,
+      condition: condition.name,
+      occurrences: foodEntries.length,
+      matches: matching.length,
+      support: matching.length / entries.length,
+      confidence,
+      lift,
+      symptoms: Array.from(symptoms),
+      entryIds: matching.map(entry => entry.id),
+    });
+  });
+
+  return triggers
+    .sort((a, b) => b.lift - a.lift || b.support - a.support)
+    .slice(0, limit);
+}
+
+// Top suspected foods for every known condition
+export function analyzeFoodTriggers(
+  entries: NutritionEntry[],
+  conditions: ConditionDefinition[] = builtinConditions,
+  options?: TriggerOptions
+): Record<string, FoodTrigger[]> {
+  const result: Record<string, FoodTrigger[]> = {};
+  conditions.forEach(condition => {
+    result[condition.name] = foodTriggersFor(condition, entries, options);
+  });
+  return result;
+}
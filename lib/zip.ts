@@ -0,0 +1,136 @@
+// Minimal streaming reader for a single entry of a zip archive. Entries are
+// located through the central directory, so only the bytes of the requested
+// entry are ever read, and deflated data is inflated with the browser's
+// native DecompressionStream rather than loaded into memory.
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const MAX_UINT32 = 0xffffffff;
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+async function readView(blob: Blob, start: number, end: number) {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+function readUint64(view: DataView, offset: number) {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+}
+
+export async function isZip(blob: Blob) {
+  if (blob.size < 4) return false;
+  return (await readView(blob, 0, 4)).getUint32(0, true) === LOCAL_HEADER_SIGNATURE;
+}
+
+async function findCentralDirectory(blob: Blob) {
+  // End of central directory record: 22 bytes plus a comment of up to 64KB
+  const tailStart = Math.max(0, blob.size - 22 - 0xffff);
+  const tail = await readView(blob, tailStart, blob.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ZipFormatError('Not a zip archive (no end of central directory)');
+
+  let size = tail.getUint32(eocd + 12, true);
+  let offset = tail.getUint32(eocd + 16, true);
+
+  if ((size === MAX_UINT32 || offset === MAX_UINT32) && eocd >= 20 &&
+      tail.getUint32(eocd - 20, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64Offset = readUint64(tail, eocd - 20 + 8);
+    const zip64 = await readView(blob, zip64Offset, zip64Offset + 56);
+    size = readUint64(zip64, 40);
+    offset = readUint64(zip64, 48);
+  }
+
+  return { offset, size };
+}
+
+export async function listZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  const { offset, size } = await findCentralDirectory(blob);
+  const view = await readView(blob, offset, offset + size);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let pos = 0;
+  while (pos + 46 <= view.byteLength && view.getUint32(pos, true) === CENTRAL_HEADER_SIGNATURE) {
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const entry: ZipEntry = {
+      method: view.getUint16(pos + 10, true),
+      compressedSize: view.getUint32(pos + 20, true),
+      uncompressedSize: view.getUint32(pos + 24, true),
+      localHeaderOffset: view.getUint32(pos + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + pos + 46, nameLength)),
+    };
+
+    // ZIP64 extended information holds the real values of saturated fields
+    let extra = pos + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = view.getUint16(extra, true);
+      const length = view.getUint16(extra + 2, true);
+      if (id === 0x0001) {
+        let field = extra + 4;
+        if (entry.uncompressedSize === MAX_UINT32) { entry.uncompressedSize = readUint64(view, field); field += 8; }
+        if (entry.compressedSize === MAX_UINT32) { entry.compressedSize = readUint64(view, field); field += 8; }
+        if (entry.localHeaderOffset === MAX_UINT32) { entry.localHeaderOffset = readUint64(view, field); }
+      }
+      extra += 4 + length;
+    }
+
+    entries.push(entry);
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// Stream of the entry's uncompressed bytes. `onProgress` receives the share
+// (0-1) of the compressed data consumed so far.
+export async function openZipEntry(
+  blob: Blob,
+  entry: ZipEntry,
+  onProgress?: (fraction: number) => void
+): Promise<ReadableStream<Uint8Array>> {
+  const header = await readView(blob, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new ZipFormatError(`Corrupt local header for ${entry.name}`);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = blob.slice(dataStart, dataStart + entry.compressedSize).stream();
+
+  let consumed = 0;
+  const counted = data.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      consumed += chunk.byteLength;
+      onProgress?.(entry.compressedSize > 0 ? consumed / entry.compressedSize : 1);
+      controller.enqueue(chunk);
+    },
+  }));
+
+  if (entry.method === 0) return counted;
+  if (entry.method === 8) {
+    return counted.pipeThrough(new DecompressionStream('deflate-raw') as unknown as TransformStream<Uint8Array, Uint8Array>);
+  }
+  throw new ZipFormatError(`Unsupported compression method ${entry.method} for ${entry.name}`);
+}
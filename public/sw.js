@@ -0,0 +1,29 @@
+// Service worker for dose reminders. The app shows the notifications; this
+// relays their "Taken" / "Skip" buttons back to it.
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', (event) => {
+  const { remedyId, dueAt, profileId } = event.notification.data || {};
+  const status = event.action;
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (status && windows.length > 0) {
+      windows[0].postMessage({ type: 'dose', remedyId, dueAt, status, profileId });
+      return;
+    }
+    // No open tab to record the action, so let the medications page do it
+    const url = status
+      ? `/medications?remedy=${encodeURIComponent(remedyId)}&due=${encodeURIComponent(dueAt)}&status=${status}${profileId ? `&profile=${encodeURIComponent(profileId)}` : ''}`
+      : '/medications';
+    if (windows.length > 0) {
+      await windows[0].focus();
+      if (!status) await windows[0].navigate(url);
+    } else {
+      await self.clients.openWindow(url);
+    }
+  })());
+});